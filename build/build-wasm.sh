@@ -31,8 +31,13 @@ emcmake cmake "$TAGLIB_DIR" \
   -DBUILD_SHARED_LIBS=OFF \
   -DBUILD_TESTING=OFF \
   -DBUILD_EXAMPLES=OFF \
+  -DWITH_APE=ON \
   -DWITH_ASF=ON \
+  -DWITH_DSF=ON \
+  -DWITH_MOD=ON \
   -DWITH_MP4=ON \
+  -DWITH_SHORTEN=ON \
+  -DWITH_TRUEAUDIO=ON \
   -DWITH_ZLIB=OFF \
   -DCMAKE_INSTALL_PREFIX="$CMAKE_BUILD_DIR/install"
 
@@ -61,6 +66,7 @@ emcc "$BUILD_DIR/taglib_wasm.cpp" \
   -s EXPORT_NAME="createTagLibModule" \
   -s ALLOW_MEMORY_GROWTH=1 \
   -s MAXIMUM_MEMORY=1GB \
+  -s EXPORTED_FUNCTIONS='["_malloc", "_free", "_taglib_file_new_from_buffer", "_taglib_file_delete", "_taglib_file_format", "_taglib_file_is_valid", "_taglib_file_tag", "_taglib_file_audioproperties", "_taglib_file_save", "_taglib_tag_title", "_taglib_tag_artist", "_taglib_tag_album", "_taglib_tag_comment", "_taglib_tag_genre", "_taglib_tag_year", "_taglib_tag_track", "_taglib_tag_set_title", "_taglib_tag_set_artist", "_taglib_tag_set_album", "_taglib_tag_set_comment", "_taglib_tag_set_genre", "_taglib_tag_set_year", "_taglib_tag_set_track", "_taglib_audioproperties_length", "_taglib_audioproperties_length_ms", "_taglib_audioproperties_total_samples", "_taglib_audioproperties_bitrate", "_taglib_audioproperties_samplerate", "_taglib_audioproperties_channels"]' \
   -s EXPORTED_RUNTIME_METHODS='["allocate", "getValue", "setValue", "UTF8ToString", "stringToUTF8", "lengthBytesUTF8", "ALLOC_NORMAL"]' \
   -s NO_FILESYSTEM=1 \
   -s ENVIRONMENT='web,worker,node' \
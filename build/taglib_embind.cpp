@@ -1,3 +1,4 @@
+#include <emscripten/emscripten.h>
 #include <emscripten/bind.h>
 #include <emscripten/val.h>
 #include <fileref.h>
@@ -8,6 +9,7 @@
 #include <tbytevectorstream.h>
 #include <mpegfile.h>
 #include <mpegproperties.h>
+#include <xingheader.h>
 #include <mp4file.h>
 #include <mp4tag.h>
 #include <mp4item.h>
@@ -24,9 +26,53 @@
 #include <wavproperties.h>
 #include <aifffile.h>
 #include <aiffproperties.h>
+#include <asffile.h>
+#include <asftag.h>
+#include <asfattribute.h>
+#include <asfpicture.h>
+#include <asfproperties.h>
+#include <apefile.h>
+#include <apeproperties.h>
+#include <apeitem.h>
+#include <apetag.h>
+#include <mpcfile.h>
+#include <mpcproperties.h>
+#include <wavpackfile.h>
+#include <wavpackproperties.h>
+#include <trueaudiofile.h>
+#include <trueaudioproperties.h>
+#include <dsffile.h>
+#include <dsfproperties.h>
+#include <dsdifffile.h>
+#include <dsdiffproperties.h>
+#include <shortenfile.h>
+#include <shortenproperties.h>
+#include <speexfile.h>
+#include <oggflacfile.h>
+#include <modfile.h>
+#include <itfile.h>
+#include <s3mfile.h>
+#include <xmfile.h>
 #include <id3v2tag.h>
+#include <id3v2framefactory.h>
+#include <id3v2synchdata.h>
 #include <attachedpictureframe.h>
+#include <chapterframe.h>
+#include <commentsframe.h>
+#include <eventtimingcodesframe.h>
+#include <generalencapsulatedobjectframe.h>
+#include <popularimeterframe.h>
+#include <privateframe.h>
+#include <synchronizedlyricsframe.h>
+#include <tableofcontentsframe.h>
+#include <textidentificationframe.h>
+#include <uniquefileidentifierframe.h>
+#include <unsynchronizedlyricsframe.h>
+#include <urllinkframe.h>
 #include <xiphcomment.h>
+#include <algorithm>
+#include <cstdio>
+#include <map>
 #include <memory>
 #include <string>
 #include <vector>
@@ -103,6 +149,125 @@ public:
     }
 };
 
+// Bitrate mode of an MPEG stream from the Xing/Info, LAME or VBRI header in
+// its first frame. Returns "" if the stream has none of these headers.
+static std::string mpegBitrateControlMode(TagLib::MPEG::File* mpegFile) {
+    TagLib::offset_t offset = mpegFile->firstFrameOffset();
+    if (offset < 0) return "";
+    mpegFile->seek(offset);
+    TagLib::ByteVector frame = mpegFile->readBlock(512);
+
+    // VBRI follows the 32 bytes of side information
+    if (frame.find("VBRI") == 36) return "Variable";
+
+    int xing = frame.find("Xing");
+    int info = frame.find("Info");
+    int header = xing >= 0 && xing < 40 ? xing : (info >= 0 && info < 40 ? info : -1);
+    if (header < 0) return "";
+
+    // LAME (and FFmpeg's "Lavc") tag: VBR method in the low nibble of byte 9
+    int lame = frame.find("LAME", header);
+    if (lame < 0) lame = frame.find("Lavc", header);
+    if (lame >= 0 && lame + 9 < static_cast<int>(frame.size())) {
+        switch (frame[lame + 9] & 0x0f) {
+            case 1: case 8: return "Constant";
+            case 2: case 9: return "LongTermAverage";
+            case 3: case 4: case 5: case 6: return "Variable";
+        }
+    }
+    return header == xing ? "Variable" : "Constant";
+}
+
+// Compression level from the Monkey's Audio header, or "" if unreadable
+static std::string apeCompressionLevel(TagLib::File* file) {
+    TagLib::offset_t offset = file->find("MAC ");
+    if (offset < 0) return "";
+    file->seek(offset);
+    TagLib::ByteVector header = file->readBlock(12);
+    if (header.size() < 12) return "";
+
+    unsigned short level;
+    if (header.toUShort(4, false) >= 3980) {
+        // Version 3.98 and later: the header follows a variable-size descriptor
+        file->seek(offset + header.toUInt(8, false));
+        TagLib::ByteVector levelBytes = file->readBlock(2);
+        if (levelBytes.size() < 2) return "";
+        level = levelBytes.toUShort(false);
+    } else {
+        level = header.toUShort(6, false);
+    }
+
+    switch (level) {
+        case 1000: return "fast";
+        case 2000: return "normal";
+        case 3000: return "high";
+        case 4000: return "extraHigh";
+        case 5000: return "insane";
+        default: return "";
+    }
+}
+
+// Compression level from the configuration sub-block of the first WavPack
+// block, or "" if the encoder did not store it
+static std::string wavPackCompressionLevel(TagLib::File* file) {
+    TagLib::offset_t offset = file->find("wvpk");
+    if (offset < 0) return "";
+    file->seek(offset);
+    TagLib::ByteVector block = file->readBlock(4096);
+    if (block.size() < 32) return "";
+
+    unsigned int end = std::min<unsigned int>(block.size(), 8 + block.toUInt(4, false));
+    unsigned int pos = 32;
+    while (pos + 2 <= end) {
+        unsigned char id = block[pos];
+        unsigned int words = static_cast<unsigned char>(block[pos + 1]);
+        unsigned int dataStart = pos + 2;
+        if (id & 0x80) {
+            // ID_LARGE: 24-bit size
+            if (pos + 4 > end) break;
+            words |= static_cast<unsigned char>(block[pos + 2]) << 8;
+            words |= static_cast<unsigned char>(block[pos + 3]) << 16;
+            dataStart = pos + 4;
+        }
+        if ((id & 0x3f) == 0x25) {
+            // ID_CONFIG_BLOCK: config flags bits 8-31
+            if (dataStart + 3 > end) break;
+            unsigned int flags = static_cast<unsigned char>(block[dataStart]) << 8 |
+                                 static_cast<unsigned char>(block[dataStart + 1]) << 16 |
+                                 static_cast<unsigned char>(block[dataStart + 2]) << 24;
+            if (flags & 0x1000) return "veryHigh";
+            if (flags & 0x800) return "high";
+            if (flags & 0x200) return "fast";
+            return "normal";
+        }
+        pos = dataStart + words * 2;
+    }
+    return "";
+}
+
+// Number of samples per channel, or 0 if the format does not store it
+static double sampleFrames(const TagLib::AudioProperties* props) {
+    if (!props) return 0;
+    
+    if (auto* p = dynamic_cast<const TagLib::FLAC::Properties*>(props)) return static_cast<double>(p->sampleFrames());
+    if (auto* p = dynamic_cast<const TagLib::RIFF::WAV::Properties*>(props)) return p->sampleFrames();
+    if (auto* p = dynamic_cast<const TagLib::RIFF::AIFF::Properties*>(props)) return p->sampleFrames();
+    if (auto* p = dynamic_cast<const TagLib::APE::Properties*>(props)) return p->sampleFrames();
+    if (auto* p = dynamic_cast<const TagLib::WavPack::Properties*>(props)) return p->sampleFrames();
+    if (auto* p = dynamic_cast<const TagLib::MPC::Properties*>(props)) return p->sampleFrames();
+    if (auto* p = dynamic_cast<const TagLib::TrueAudio::Properties*>(props)) return p->sampleFrames();
+    if (auto* p = dynamic_cast<const TagLib::Shorten::Properties*>(props)) return p->sampleFrames();
+    if (auto* p = dynamic_cast<const TagLib::DSF::Properties*>(props)) return static_cast<double>(p->sampleCount());
+    if (auto* p = dynamic_cast<const TagLib::DSDIFF::Properties*>(props)) return static_cast<double>(p->sampleCount());
+    
+    return 0;
+}
+
+static const char* const MPEG_VERSIONS[] = { "1", "2", "2.5", "4" };
+static const char* const MPEG_CHANNEL_MODES[] = {
+    "Stereo", "JointStereo", "DualChannel", "SingleChannel"
+};
+
 class AudioPropertiesWrapper {
 private:
     TagLib::AudioProperties* props;
@@ -151,10 +316,19 @@ public:
         else if (TagLib::RIFF::AIFF::Properties* aiffProps = dynamic_cast<TagLib::RIFF::AIFF::Properties*>(props)) {
             return aiffProps->bitsPerSample();
         }
+        // ASF/WMA files
+        else if (TagLib::ASF::Properties* asfProps = dynamic_cast<TagLib::ASF::Properties*>(props)) {
+            return asfProps->bitsPerSample();
+        }
         
         return 0;
     }
     
+    // Number of samples per channel, or 0 if the format does not store it
+    double totalSamples() const {
+        return sampleFrames(props);
+    }
+    
     std::string codec() const {
         if (!props || !file) return "Unknown";
         
@@ -200,6 +374,49 @@ public:
         else if (dynamic_cast<TagLib::RIFF::AIFF::File*>(file)) {
             return "PCM"; // AIFF is typically uncompressed PCM
         }
+        // ASF/WMA files
+        else if (TagLib::ASF::Properties* asfProps = dynamic_cast<TagLib::ASF::Properties*>(props)) {
+            switch (asfProps->codec()) {
+                case TagLib::ASF::Properties::WMA1:
+                case TagLib::ASF::Properties::WMA2:
+                    return "WMA";
+                case TagLib::ASF::Properties::WMA9Pro:
+                    return "WMA Pro";
+                case TagLib::ASF::Properties::WMA9Lossless:
+                    return "WMA Lossless";
+                default:
+                    return "Unknown";
+            }
+        }
+        // Formats with a single codec
+        else if (dynamic_cast<TagLib::APE::File*>(file)) {
+            return "Monkey's Audio";
+        }
+        else if (dynamic_cast<TagLib::WavPack::File*>(file)) {
+            return "WavPack";
+        }
+        else if (dynamic_cast<TagLib::MPC::File*>(file)) {
+            return "Musepack";
+        }
+        else if (dynamic_cast<TagLib::TrueAudio::File*>(file)) {
+            return "TrueAudio";
+        }
+        else if (dynamic_cast<TagLib::DSF::File*>(file) ||
+                 dynamic_cast<TagLib::DSDIFF::File*>(file)) {
+            return "DSD";
+        }
+        else if (dynamic_cast<TagLib::Shorten::File*>(file)) {
+            return "Shorten";
+        }
+        else if (dynamic_cast<TagLib::Ogg::Speex::File*>(file)) {
+            return "Speex";
+        }
+        else if (dynamic_cast<TagLib::Ogg::FLAC::File*>(file)) {
+            return "FLAC";
+        }
+        else if (dynamic_cast<TagLib::Mod::FileBase*>(file)) {
+            return "Tracker";
+        }
         
         return "Unknown";
     }
@@ -211,15 +428,30 @@ public:
         if (codecName == "ALAC" ||      // Apple Lossless
             codecName == "FLAC" ||      // Free Lossless Audio Codec
             codecName == "PCM" ||       // Uncompressed PCM (WAV/AIFF)
-            codecName == "IEEE Float") {  // Uncompressed floating point
+            codecName == "IEEE Float" ||  // Uncompressed floating point
+            codecName == "WMA Lossless" ||  // Windows Media Audio Lossless
+            codecName == "Monkey's Audio" ||  // APE
+            codecName == "TrueAudio" ||   // TTA
+            codecName == "DSD" ||         // 1-bit Direct Stream Digital
+            codecName == "Shorten") {     // SHN
             return true;
         }
         
+        // WavPack also has a lossy hybrid mode
+        if (codecName == "WavPack") {
+            auto* wavPackProps = dynamic_cast<TagLib::WavPack::Properties*>(props);
+            return wavPackProps && wavPackProps->isLossless();
+        }
+        
         // Lossy codecs
         if (codecName == "AAC" ||       // Advanced Audio Coding
             codecName == "MP3" ||       // MPEG Layer 3
             codecName == "Vorbis" ||    // Ogg Vorbis
-            codecName == "Opus") {      // Opus
+            codecName == "Opus" ||      // Opus
+            codecName == "WMA" ||       // Windows Media Audio
+            codecName == "WMA Pro" ||   // Windows Media Audio Professional
+            codecName == "Musepack" ||  // MPC
+            codecName == "Speex") {     // Ogg Speex
             return false;
         }
         
@@ -250,9 +482,95 @@ public:
         else if (dynamic_cast<TagLib::RIFF::AIFF::File*>(file)) {
             return "AIFF";
         }
+        else if (dynamic_cast<TagLib::ASF::File*>(file)) {
+            return "ASF";
+        }
+        else if (dynamic_cast<TagLib::Ogg::Speex::File*>(file) ||
+                 dynamic_cast<TagLib::Ogg::FLAC::File*>(file)) {
+            return "OGG";
+        }
+        else if (dynamic_cast<TagLib::APE::File*>(file)) {
+            return "APE";
+        }
+        else if (dynamic_cast<TagLib::WavPack::File*>(file)) {
+            return "WAVPACK";
+        }
+        else if (dynamic_cast<TagLib::MPC::File*>(file)) {
+            return "MPC";
+        }
+        else if (dynamic_cast<TagLib::TrueAudio::File*>(file)) {
+            return "TTA";
+        }
+        else if (dynamic_cast<TagLib::DSF::File*>(file)) {
+            return "DSF";
+        }
+        else if (dynamic_cast<TagLib::DSDIFF::File*>(file)) {
+            return "DSDIFF";
+        }
+        else if (dynamic_cast<TagLib::Shorten::File*>(file)) {
+            return "SHORTEN";
+        }
+        else if (dynamic_cast<TagLib::Mod::FileBase*>(file)) {
+            return "MOD";
+        }
         
         return "UNKNOWN";
     }
+    
+    val details() const {
+        if (!props || !file) return val::undefined();
+        val result = val::object();
+        
+        if (auto* mpegProps = dynamic_cast<TagLib::MPEG::Properties*>(props)) {
+            result.set("format", "MP3");
+            result.set("version", MPEG_VERSIONS[mpegProps->version()]);
+            result.set("layer", mpegProps->layer());
+            result.set("channelMode", MPEG_CHANNEL_MODES[mpegProps->channelMode()]);
+            const TagLib::MPEG::XingHeader* xing = mpegProps->xingHeader();
+            result.set("hasXingHeader", xing && xing->type() == TagLib::MPEG::XingHeader::Xing);
+            result.set("hasVBRIHeader", xing && xing->type() == TagLib::MPEG::XingHeader::VBRI);
+            if (auto* mpegFile = dynamic_cast<TagLib::MPEG::File*>(file)) {
+                std::string mode = mpegBitrateControlMode(mpegFile);
+                if (!mode.empty()) result.set("bitrateControlMode", mode);
+            }
+        }
+        else if (auto* flacProps = dynamic_cast<TagLib::FLAC::Properties*>(props)) {
+            result.set("format", "FLAC");
+            result.set("totalSamples", static_cast<double>(flacProps->sampleFrames()));
+            TagLib::ByteVector hex = flacProps->signature().toHex();
+            result.set("md5Signature", std::string(hex.data(), hex.size()));
+        }
+        else if (auto* mp4Props = dynamic_cast<TagLib::MP4::Properties*>(props)) {
+            result.set("format", "MP4");
+            result.set("isEncrypted", mp4Props->isEncrypted());
+        }
+        else if (auto* opusProps = dynamic_cast<TagLib::Ogg::Opus::Properties*>(props)) {
+            result.set("format", "OPUS");
+            result.set("inputSampleRate", opusProps->inputSampleRate());
+            result.set("opusVersion", opusProps->opusVersion());
+        }
+        else if (auto* wavProps = dynamic_cast<TagLib::RIFF::WAV::Properties*>(props)) {
+            result.set("format", "WAV");
+            result.set("formatTag", wavProps->format());
+        }
+        else if (auto* apeProps = dynamic_cast<TagLib::APE::Properties*>(props)) {
+            result.set("format", "APE");
+            result.set("version", apeProps->version());
+            std::string level = apeCompressionLevel(file);
+            if (!level.empty()) result.set("compressionLevel", level);
+        }
+        else if (auto* wavPackProps = dynamic_cast<TagLib::WavPack::Properties*>(props)) {
+            result.set("format", "WAVPACK");
+            result.set("version", wavPackProps->version());
+            std::string level = wavPackCompressionLevel(file);
+            if (!level.empty()) result.set("compressionLevel", level);
+        }
+        else {
+            return val::undefined();
+        }
+        
+        return result;
+    }
 };
 
 // Picture wrapper class for managing album art/cover images
@@ -269,35 +587,924 @@ public:
         : mimeType(mime), data(imgData), type(picType), description(desc) {}
 };
 
-// Helper class to manage ByteVectorStream lifetime
+// Copy a ByteVector into a new JavaScript Uint8Array
+static val byteVectorToUint8Array(const TagLib::ByteVector& bytes) {
+    // The view into wasm memory is copied by the Uint8Array constructor
+    val view(typed_memory_view(bytes.size(), reinterpret_cast<const unsigned char*>(bytes.data())));
+    return val::global("Uint8Array").new_(view);
+}
+
+// Copy a JavaScript Uint8Array (or array of bytes) into a ByteVector
+static TagLib::ByteVector uint8ArrayToByteVector(const val& data) {
+    if (data.isUndefined() || data.isNull()) return TagLib::ByteVector();
+
+    unsigned int dataLength = data["length"].as<unsigned int>();
+    TagLib::ByteVector bytes(dataLength, 0);
+    if (dataLength > 0) {
+        val view(typed_memory_view(dataLength, reinterpret_cast<unsigned char*>(bytes.data())));
+        view.call<void>("set", data);
+    }
+    return bytes;
+}
+
+static std::string toUTF8(const TagLib::String& s) {
+    return std::string(s.toCString(true));
+}
+
+static TagLib::String fromUTF8(const val& v) {
+    if (v.isUndefined() || v.isNull()) return TagLib::String();
+    return TagLib::String(v.as<std::string>(), TagLib::String::UTF8);
+}
+
+static val stringListToArray(const TagLib::StringList& list) {
+    val arr = val::array();
+    for (const auto& s : list) {
+        arr.call<void>("push", toUTF8(s));
+    }
+    return arr;
+}
+
+static TagLib::StringList arrayToStringList(const val& values) {
+    TagLib::StringList list;
+    if (values.isArray()) {
+        int length = values["length"].as<int>();
+        for (int i = 0; i < length; i++) {
+            list.append(fromUTF8(values[i]));
+        }
+    } else if (!values.isUndefined() && !values.isNull()) {
+        list.append(fromUTF8(values));
+    }
+    return list;
+}
+
+// Three-letter ISO-639-2 language code used by COMM, USLT and SYLT frames
+static TagLib::ByteVector languageCode(const val& language) {
+    std::string code = language.isUndefined() || language.isNull()
+        ? "XXX" : language.as<std::string>();
+    code.resize(3, ' ');
+    return TagLib::ByteVector(code.data(), 3);
+}
+
+// Convert an ID3v2 frame into a plain JavaScript object.
+// Known frame types are decoded field by field, everything else is
+// returned as the raw frame body.
+static val id3v2FrameToJS(const TagLib::ID3v2::Frame* frame) {
+    val obj = val::object();
+    std::string id(frame->frameID().data(), frame->frameID().size());
+    obj.set("id", id);
+
+    if (auto* f = dynamic_cast<const TagLib::ID3v2::UserTextIdentificationFrame*>(frame)) {
+        obj.set("kind", std::string("userText"));
+        obj.set("description", toUTF8(f->description()));
+        // The first field of a TXXX frame is its description
+        TagLib::StringList fields = f->fieldList();
+        if (!fields.isEmpty()) fields.erase(fields.begin());
+        obj.set("text", stringListToArray(fields));
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::TextIdentificationFrame*>(frame)) {
+        obj.set("kind", std::string("text"));
+        obj.set("text", stringListToArray(f->fieldList()));
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::CommentsFrame*>(frame)) {
+        obj.set("kind", std::string("comment"));
+        obj.set("language", std::string(f->language().data(), f->language().size()));
+        obj.set("description", toUTF8(f->description()));
+        obj.set("text", toUTF8(f->text()));
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::UnsynchronizedLyricsFrame*>(frame)) {
+        obj.set("kind", std::string("lyrics"));
+        obj.set("language", std::string(f->language().data(), f->language().size()));
+        obj.set("description", toUTF8(f->description()));
+        obj.set("text", toUTF8(f->text()));
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::SynchronizedLyricsFrame*>(frame)) {
+        obj.set("kind", std::string("syncedLyrics"));
+        obj.set("language", std::string(f->language().data(), f->language().size()));
+        obj.set("description", toUTF8(f->description()));
+        obj.set("timestampFormat", static_cast<int>(f->timestampFormat()));
+        obj.set("contentType", static_cast<int>(f->type()));
+        val entries = val::array();
+        for (const auto& entry : f->synchedText()) {
+            val item = val::object();
+            item.set("time", entry.time);
+            item.set("text", toUTF8(entry.text));
+            entries.call<void>("push", item);
+        }
+        obj.set("entries", entries);
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::PopularimeterFrame*>(frame)) {
+        obj.set("kind", std::string("popularimeter"));
+        obj.set("email", toUTF8(f->email()));
+        obj.set("rating", f->rating());
+        obj.set("counter", f->counter());
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::PrivateFrame*>(frame)) {
+        obj.set("kind", std::string("private"));
+        obj.set("owner", toUTF8(f->owner()));
+        obj.set("data", byteVectorToUint8Array(f->data()));
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::UniqueFileIdentifierFrame*>(frame)) {
+        obj.set("kind", std::string("uniqueFileIdentifier"));
+        obj.set("owner", toUTF8(f->owner()));
+        obj.set("identifier", byteVectorToUint8Array(f->identifier()));
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::GeneralEncapsulatedObjectFrame*>(frame)) {
+        obj.set("kind", std::string("object"));
+        obj.set("mimeType", toUTF8(f->mimeType()));
+        obj.set("fileName", toUTF8(f->fileName()));
+        obj.set("description", toUTF8(f->description()));
+        obj.set("data", byteVectorToUint8Array(f->object()));
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::UserUrlLinkFrame*>(frame)) {
+        obj.set("kind", std::string("userUrl"));
+        obj.set("description", toUTF8(f->description()));
+        obj.set("url", toUTF8(f->url()));
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::UrlLinkFrame*>(frame)) {
+        obj.set("kind", std::string("url"));
+        obj.set("url", toUTF8(f->url()));
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::EventTimingCodesFrame*>(frame)) {
+        obj.set("kind", std::string("eventTimingCodes"));
+        obj.set("timestampFormat", static_cast<int>(f->timestampFormat()));
+        val events = val::array();
+        for (const auto& event : f->synchedEvents()) {
+            val item = val::object();
+            item.set("time", event.time);
+            item.set("type", static_cast<int>(event.type));
+            events.call<void>("push", item);
+        }
+        obj.set("events", events);
+    }
+    else if (auto* f = dynamic_cast<const TagLib::ID3v2::AttachedPictureFrame*>(frame)) {
+        obj.set("kind", std::string("picture"));
+        obj.set("mimeType", toUTF8(f->mimeType()));
+        obj.set("pictureType", static_cast<int>(f->type()));
+        obj.set("description", toUTF8(f->description()));
+        obj.set("data", byteVectorToUint8Array(f->picture()));
+    }
+    else {
+        obj.set("kind", std::string("unknown"));
+        TagLib::ByteVector rendered = frame->render();
+        obj.set("data", byteVectorToUint8Array(rendered.mid(frame->headerSize())));
+    }
+
+    return obj;
+}
+
+// Build an ID3v2 frame from a JavaScript object produced by id3v2FrameToJS().
+// Returns nullptr if the object does not describe a valid frame.
+static TagLib::ID3v2::Frame* id3v2FrameFromJS(const val& obj) {
+    if (obj.isUndefined() || obj.isNull()) return nullptr;
+
+    std::string id = obj["id"].isUndefined() ? "" : obj["id"].as<std::string>();
+    std::string kind = obj["kind"].isUndefined() ? "unknown" : obj["kind"].as<std::string>();
+    if (id.size() != 4) return nullptr;
+
+    TagLib::ByteVector frameID(id.data(), 4);
+
+    if (kind == "text") {
+        auto* f = new TagLib::ID3v2::TextIdentificationFrame(frameID, TagLib::String::UTF8);
+        f->setText(arrayToStringList(obj["text"]));
+        return f;
+    }
+    if (kind == "userText") {
+        return new TagLib::ID3v2::UserTextIdentificationFrame(
+            fromUTF8(obj["description"]), arrayToStringList(obj["text"]), TagLib::String::UTF8);
+    }
+    if (kind == "comment") {
+        auto* f = new TagLib::ID3v2::CommentsFrame(TagLib::String::UTF8);
+        f->setLanguage(languageCode(obj["language"]));
+        f->setDescription(fromUTF8(obj["description"]));
+        f->setText(fromUTF8(obj["text"]));
+        return f;
+    }
+    if (kind == "lyrics") {
+        auto* f = new TagLib::ID3v2::UnsynchronizedLyricsFrame(TagLib::String::UTF8);
+        f->setLanguage(languageCode(obj["language"]));
+        f->setDescription(fromUTF8(obj["description"]));
+        f->setText(fromUTF8(obj["text"]));
+        return f;
+    }
+    if (kind == "syncedLyrics") {
+        auto* f = new TagLib::ID3v2::SynchronizedLyricsFrame(TagLib::String::UTF8);
+        f->setLanguage(languageCode(obj["language"]));
+        f->setDescription(fromUTF8(obj["description"]));
+        if (!obj["timestampFormat"].isUndefined()) {
+            f->setTimestampFormat(static_cast<TagLib::ID3v2::SynchronizedLyricsFrame::TimestampFormat>(
+                obj["timestampFormat"].as<int>()));
+        }
+        if (!obj["contentType"].isUndefined()) {
+            f->setType(static_cast<TagLib::ID3v2::SynchronizedLyricsFrame::Type>(
+                obj["contentType"].as<int>()));
+        }
+        TagLib::ID3v2::SynchronizedLyricsFrame::SynchedTextList entries;
+        val jsEntries = obj["entries"];
+        if (jsEntries.isArray()) {
+            int length = jsEntries["length"].as<int>();
+            for (int i = 0; i < length; i++) {
+                val entry = jsEntries[i];
+                entries.append(TagLib::ID3v2::SynchronizedLyricsFrame::SynchedText(
+                    entry["time"].as<unsigned int>(), fromUTF8(entry["text"])));
+            }
+        }
+        f->setSynchedText(entries);
+        return f;
+    }
+    if (kind == "popularimeter") {
+        auto* f = new TagLib::ID3v2::PopularimeterFrame();
+        f->setEmail(fromUTF8(obj["email"]));
+        f->setRating(obj["rating"].isUndefined() ? 0 : obj["rating"].as<int>());
+        f->setCounter(obj["counter"].isUndefined() ? 0 : obj["counter"].as<unsigned int>());
+        return f;
+    }
+    if (kind == "private") {
+        auto* f = new TagLib::ID3v2::PrivateFrame();
+        f->setOwner(fromUTF8(obj["owner"]));
+        f->setData(uint8ArrayToByteVector(obj["data"]));
+        return f;
+    }
+    if (kind == "uniqueFileIdentifier") {
+        return new TagLib::ID3v2::UniqueFileIdentifierFrame(
+            fromUTF8(obj["owner"]), uint8ArrayToByteVector(obj["identifier"]));
+    }
+    if (kind == "object") {
+        auto* f = new TagLib::ID3v2::GeneralEncapsulatedObjectFrame();
+        f->setTextEncoding(TagLib::String::UTF8);
+        f->setMimeType(fromUTF8(obj["mimeType"]));
+        f->setFileName(fromUTF8(obj["fileName"]));
+        f->setDescription(fromUTF8(obj["description"]));
+        f->setObject(uint8ArrayToByteVector(obj["data"]));
+        return f;
+    }
+    if (kind == "userUrl") {
+        auto* f = new TagLib::ID3v2::UserUrlLinkFrame(TagLib::String::UTF8);
+        f->setDescription(fromUTF8(obj["description"]));
+        f->setUrl(fromUTF8(obj["url"]));
+        return f;
+    }
+    if (kind == "url") {
+        // UrlLinkFrame has no ID-only constructor, so start from an empty frame body
+        TagLib::ByteVector data = frameID;
+        data.append(TagLib::ByteVector(6, '\0'));
+        auto* f = new TagLib::ID3v2::UrlLinkFrame(data);
+        f->setUrl(fromUTF8(obj["url"]));
+        return f;
+    }
+    if (kind == "eventTimingCodes") {
+        auto* f = new TagLib::ID3v2::EventTimingCodesFrame();
+        if (!obj["timestampFormat"].isUndefined()) {
+            f->setTimestampFormat(static_cast<TagLib::ID3v2::EventTimingCodesFrame::TimestampFormat>(
+                obj["timestampFormat"].as<int>()));
+        }
+        TagLib::ID3v2::EventTimingCodesFrame::SynchedEventList events;
+        val jsEvents = obj["events"];
+        if (jsEvents.isArray()) {
+            int length = jsEvents["length"].as<int>();
+            for (int i = 0; i < length; i++) {
+                val event = jsEvents[i];
+                events.append(TagLib::ID3v2::EventTimingCodesFrame::SynchedEvent(
+                    event["time"].as<unsigned int>(),
+                    static_cast<TagLib::ID3v2::EventTimingCodesFrame::EventType>(event["type"].as<int>())));
+            }
+        }
+        f->setSynchedEvents(events);
+        return f;
+    }
+    if (kind == "picture") {
+        auto* f = new TagLib::ID3v2::AttachedPictureFrame();
+        f->setTextEncoding(TagLib::String::UTF8);
+        f->setMimeType(fromUTF8(obj["mimeType"]));
+        f->setType(static_cast<TagLib::ID3v2::AttachedPictureFrame::Type>(
+            obj["pictureType"].isUndefined() ? 3 : obj["pictureType"].as<int>()));
+        f->setDescription(fromUTF8(obj["description"]));
+        f->setPicture(uint8ArrayToByteVector(obj["data"]));
+        return f;
+    }
+
+    // Unknown frame: prepend an ID3v2.4 frame header to the raw body and let
+    // the frame factory parse it, which yields a typed frame when possible
+    TagLib::ByteVector body = uint8ArrayToByteVector(obj["data"]);
+    TagLib::ByteVector data = frameID;
+    data.append(TagLib::ID3v2::SynchData::fromUInt(body.size()));
+    data.append(TagLib::ByteVector(2, '\0'));
+    data.append(body);
+
+    TagLib::ID3v2::Header tagHeader;
+    return TagLib::ID3v2::FrameFactory::instance()->createFrame(data, &tagHeader);
+}
+
+// Convert an ID3v2 CHAP frame into a chapter object
+static val id3v2ChapterToJS(const TagLib::ID3v2::ChapterFrame* chapter) {
+    val obj = val::object();
+    TagLib::ByteVector elementID = chapter->elementID();
+    obj.set("id", std::string(elementID.data(), elementID.size()));
+    obj.set("startTime", chapter->startTime());
+    obj.set("endTime", chapter->endTime());
+
+    // 0xFFFFFFFF marks an unused byte offset
+    if (chapter->startOffset() != 0xFFFFFFFF) obj.set("startOffset", chapter->startOffset());
+    if (chapter->endOffset() != 0xFFFFFFFF) obj.set("endOffset", chapter->endOffset());
+
+    const TagLib::ID3v2::FrameList& titles = chapter->embeddedFrameList("TIT2");
+    if (!titles.isEmpty()) obj.set("title", toUTF8(titles.front()->toString()));
+
+    const TagLib::ID3v2::FrameList& urls = chapter->embeddedFrameList("WXXX");
+    if (!urls.isEmpty()) {
+        if (auto* url = dynamic_cast<const TagLib::ID3v2::UrlLinkFrame*>(urls.front())) {
+            obj.set("url", toUTF8(url->url()));
+        }
+    }
+
+    const TagLib::ID3v2::FrameList& images = chapter->embeddedFrameList("APIC");
+    if (!images.isEmpty()) {
+        if (auto* image = dynamic_cast<const TagLib::ID3v2::AttachedPictureFrame*>(images.front())) {
+            val picture = val::object();
+            picture.set("mimeType", toUTF8(image->mimeType()));
+            picture.set("type", static_cast<int>(image->type()));
+            picture.set("description", toUTF8(image->description()));
+            picture.set("data", byteVectorToUint8Array(image->picture()));
+            obj.set("image", picture);
+        }
+    }
+
+    return obj;
+}
+
+// Build an ID3v2 CHAP frame (with embedded TIT2, WXXX and APIC frames)
+static TagLib::ID3v2::ChapterFrame* id3v2ChapterFromJS(const val& chapter, const TagLib::ByteVector& elementID) {
+    TagLib::ID3v2::FrameList embedded;
+
+    if (!chapter["title"].isUndefined() && !chapter["title"].isNull()) {
+        auto* title = new TagLib::ID3v2::TextIdentificationFrame("TIT2", TagLib::String::UTF8);
+        title->setText(fromUTF8(chapter["title"]));
+        embedded.append(title);
+    }
+
+    if (!chapter["url"].isUndefined() && !chapter["url"].isNull()) {
+        auto* url = new TagLib::ID3v2::UserUrlLinkFrame(TagLib::String::UTF8);
+        url->setUrl(fromUTF8(chapter["url"]));
+        embedded.append(url);
+    }
+
+    val image = chapter["image"];
+    if (!image.isUndefined() && !image.isNull()) {
+        auto* picture = new TagLib::ID3v2::AttachedPictureFrame();
+        picture->setTextEncoding(TagLib::String::UTF8);
+        picture->setMimeType(fromUTF8(image["mimeType"]));
+        picture->setType(static_cast<TagLib::ID3v2::AttachedPictureFrame::Type>(
+            image["type"].isUndefined() ? 3 : image["type"].as<int>()));
+        picture->setDescription(fromUTF8(image["description"]));
+        picture->setPicture(uint8ArrayToByteVector(image["data"]));
+        embedded.append(picture);
+    }
+
+    unsigned int startOffset = chapter["startOffset"].isUndefined()
+        ? 0xFFFFFFFF : chapter["startOffset"].as<unsigned int>();
+    unsigned int endOffset = chapter["endOffset"].isUndefined()
+        ? 0xFFFFFFFF : chapter["endOffset"].as<unsigned int>();
+
+    return new TagLib::ID3v2::ChapterFrame(
+        elementID,
+        chapter["startTime"].as<unsigned int>(),
+        chapter["endTime"].as<unsigned int>(),
+        startOffset,
+        endOffset,
+        embedded);
+}
+
+static std::string mp4CoverMimeType(TagLib::MP4::CoverArt::Format format) {
+    switch (format) {
+        case TagLib::MP4::CoverArt::JPEG: return "image/jpeg";
+        case TagLib::MP4::CoverArt::PNG: return "image/png";
+        case TagLib::MP4::CoverArt::BMP: return "image/bmp";
+        case TagLib::MP4::CoverArt::GIF: return "image/gif";
+        default: return "image/unknown";
+    }
+}
+
+static TagLib::MP4::CoverArt::Format mp4CoverFormat(const std::string& mimeType) {
+    if (mimeType == "image/jpeg" || mimeType == "image/jpg") return TagLib::MP4::CoverArt::JPEG;
+    if (mimeType == "image/png") return TagLib::MP4::CoverArt::PNG;
+    if (mimeType == "image/bmp") return TagLib::MP4::CoverArt::BMP;
+    if (mimeType == "image/gif") return TagLib::MP4::CoverArt::GIF;
+    return TagLib::MP4::CoverArt::Unknown;
+}
+
+// Convert an MP4 item to a typed JS object: { key, kind, value }
+static val mp4ItemToJS(const TagLib::String& key, const TagLib::MP4::Item& item) {
+    val obj = val::object();
+    obj.set("key", toUTF8(key));
+
+    switch (item.type()) {
+    case TagLib::MP4::Item::Type::Bool:
+        obj.set("kind", std::string("bool"));
+        obj.set("value", item.toBool());
+        break;
+    case TagLib::MP4::Item::Type::Int:
+        obj.set("kind", std::string("int"));
+        obj.set("value", item.toInt());
+        break;
+    case TagLib::MP4::Item::Type::Byte:
+        obj.set("kind", std::string("byte"));
+        obj.set("value", static_cast<int>(item.toByte()));
+        break;
+    case TagLib::MP4::Item::Type::UInt:
+        obj.set("kind", std::string("uint"));
+        obj.set("value", item.toUInt());
+        break;
+    case TagLib::MP4::Item::Type::LongLong:
+        obj.set("kind", std::string("longlong"));
+        obj.set("value", static_cast<double>(item.toLongLong()));
+        break;
+    case TagLib::MP4::Item::Type::IntPair: {
+        val pair = val::array();
+        pair.call<void>("push", item.toIntPair().first);
+        pair.call<void>("push", item.toIntPair().second);
+        obj.set("kind", std::string("intPair"));
+        obj.set("value", pair);
+        break;
+    }
+    case TagLib::MP4::Item::Type::StringList:
+        obj.set("kind", std::string("text"));
+        obj.set("value", stringListToArray(item.toStringList()));
+        break;
+    case TagLib::MP4::Item::Type::ByteVectorList: {
+        val values = val::array();
+        for (const auto& data : item.toByteVectorList()) {
+            values.call<void>("push", byteVectorToUint8Array(data));
+        }
+        obj.set("kind", std::string("binary"));
+        obj.set("value", values);
+        break;
+    }
+    case TagLib::MP4::Item::Type::CoverArtList: {
+        val covers = val::array();
+        for (const auto& cover : item.toCoverArtList()) {
+            val coverObj = val::object();
+            coverObj.set("mimeType", mp4CoverMimeType(cover.format()));
+            coverObj.set("data", byteVectorToUint8Array(cover.data()));
+            covers.call<void>("push", coverObj);
+        }
+        obj.set("kind", std::string("covers"));
+        obj.set("value", covers);
+        break;
+    }
+    default:
+        return val::undefined();
+    }
+
+    return obj;
+}
+
+// Build an MP4 item from a typed JS object; returns an invalid item for
+// unknown kinds
+static TagLib::MP4::Item mp4ItemFromJS(const val& obj) {
+    std::string kind = obj["kind"].as<std::string>();
+    val value = obj["value"];
+
+    if (kind == "bool") return TagLib::MP4::Item(value.as<bool>());
+    if (kind == "int") return TagLib::MP4::Item(value.as<int>());
+    if (kind == "byte") return TagLib::MP4::Item(static_cast<unsigned char>(value.as<int>()));
+    if (kind == "uint") return TagLib::MP4::Item(value.as<unsigned int>());
+    if (kind == "longlong") return TagLib::MP4::Item(static_cast<long long>(value.as<double>()));
+    if (kind == "intPair") return TagLib::MP4::Item(value[0].as<int>(), value[1].as<int>());
+    if (kind == "text") return TagLib::MP4::Item(arrayToStringList(value));
+    if (kind == "binary") {
+        TagLib::ByteVectorList list;
+        int length = value["length"].as<int>();
+        for (int i = 0; i < length; i++) {
+            list.append(uint8ArrayToByteVector(value[i]));
+        }
+        return TagLib::MP4::Item(list);
+    }
+    if (kind == "covers") {
+        TagLib::MP4::CoverArtList list;
+        int length = value["length"].as<int>();
+        for (int i = 0; i < length; i++) {
+            val cover = value[i];
+            list.append(TagLib::MP4::CoverArt(
+                mp4CoverFormat(cover["mimeType"].as<std::string>()),
+                uint8ArrayToByteVector(cover["data"])));
+        }
+        return TagLib::MP4::Item(list);
+    }
+    return TagLib::MP4::Item();
+}
+
+// Format a 16-byte ASF GUID as "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx".
+// The first three groups are stored little-endian.
+static std::string asfGuidToString(const TagLib::ByteVector& guid) {
+    if (guid.size() != 16) return "";
+
+    static const int order[16] = {3, 2, 1, 0, 5, 4, 7, 6, 8, 9, 10, 11, 12, 13, 14, 15};
+    std::string result;
+    char hex[3];
+    for (int i = 0; i < 16; i++) {
+        if (i == 4 || i == 6 || i == 8 || i == 10) result += '-';
+        snprintf(hex, sizeof(hex), "%02x", static_cast<unsigned char>(guid[order[i]]));
+        result += hex;
+    }
+    return result;
+}
+
+static val asfPictureToJS(const TagLib::ASF::Picture& picture) {
+    val obj = val::object();
+    obj.set("mimeType", toUTF8(picture.mimeType()));
+    obj.set("type", static_cast<int>(picture.type()));
+    obj.set("description", toUTF8(picture.description()));
+    obj.set("data", byteVectorToUint8Array(picture.picture()));
+    return obj;
+}
+
+static TagLib::ASF::Picture asfPictureFromJS(const val& obj) {
+    TagLib::ASF::Picture picture;
+    picture.setMimeType(fromUTF8(obj["mimeType"]));
+    picture.setType(static_cast<TagLib::ASF::Picture::Type>(obj["type"].as<int>()));
+    picture.setDescription(fromUTF8(obj["description"]));
+    picture.setPicture(uint8ArrayToByteVector(obj["data"]));
+    return picture;
+}
+
+// Convert an ASF attribute to a typed JS object: { name, kind, value }
+static val asfAttributeToJS(const TagLib::String& name, const TagLib::ASF::Attribute& attribute) {
+    val obj = val::object();
+    obj.set("name", toUTF8(name));
+
+    switch (attribute.type()) {
+    case TagLib::ASF::Attribute::UnicodeType:
+        obj.set("kind", std::string("string"));
+        obj.set("value", toUTF8(attribute.toString()));
+        break;
+    case TagLib::ASF::Attribute::BytesType:
+        // WM/Picture is stored as bytes with a structured payload
+        if (name == "WM/Picture" && attribute.toPicture().isValid()) {
+            obj.set("kind", std::string("picture"));
+            obj.set("value", asfPictureToJS(attribute.toPicture()));
+        } else {
+            obj.set("kind", std::string("bytes"));
+            obj.set("value", byteVectorToUint8Array(attribute.toByteVector()));
+        }
+        break;
+    case TagLib::ASF::Attribute::BoolType:
+        obj.set("kind", std::string("bool"));
+        obj.set("value", attribute.toBool() != 0);
+        break;
+    case TagLib::ASF::Attribute::DWordType:
+        obj.set("kind", std::string("dword"));
+        obj.set("value", attribute.toUInt());
+        break;
+    case TagLib::ASF::Attribute::QWordType:
+        obj.set("kind", std::string("qword"));
+        obj.set("value", static_cast<double>(attribute.toULongLong()));
+        break;
+    case TagLib::ASF::Attribute::WordType:
+        obj.set("kind", std::string("word"));
+        obj.set("value", static_cast<unsigned int>(attribute.toUShort()));
+        break;
+    case TagLib::ASF::Attribute::GuidType:
+        obj.set("kind", std::string("guid"));
+        obj.set("value", asfGuidToString(attribute.toByteVector()));
+        break;
+    }
+
+    if (attribute.language() != 0) obj.set("language", attribute.language());
+    if (attribute.stream() != 0) obj.set("stream", attribute.stream());
+    return obj;
+}
+
+// Build an ASF attribute from a typed JS object. TagLib cannot create GUID
+// attributes, so "guid" and unknown kinds return false.
+static bool asfAttributeFromJS(const val& obj, TagLib::ASF::Attribute& attribute) {
+    std::string kind = obj["kind"].as<std::string>();
+    val value = obj["value"];
+
+    if (kind == "string") {
+        attribute = TagLib::ASF::Attribute(fromUTF8(value));
+    } else if (kind == "bytes") {
+        attribute = TagLib::ASF::Attribute(uint8ArrayToByteVector(value));
+    } else if (kind == "bool") {
+        attribute = TagLib::ASF::Attribute(value.as<bool>());
+    } else if (kind == "dword") {
+        attribute = TagLib::ASF::Attribute(value.as<unsigned int>());
+    } else if (kind == "qword") {
+        attribute = TagLib::ASF::Attribute(static_cast<unsigned long long>(value.as<double>()));
+    } else if (kind == "word") {
+        attribute = TagLib::ASF::Attribute(static_cast<unsigned short>(value.as<unsigned int>()));
+    } else if (kind == "picture") {
+        attribute = TagLib::ASF::Attribute(asfPictureFromJS(value));
+    } else {
+        return false;
+    }
+
+    if (!obj["language"].isUndefined()) attribute.setLanguage(obj["language"].as<int>());
+    if (!obj["stream"].isUndefined()) attribute.setStream(obj["stream"].as<int>());
+    return true;
+}
+
+// Convert an APE item to a typed JS object: { key, kind, value }
+static val apeItemToJS(const TagLib::APE::Item& item) {
+    val obj = val::object();
+    obj.set("key", toUTF8(item.key()));
+
+    switch (item.type()) {
+    case TagLib::APE::Item::Text:
+        obj.set("kind", std::string("text"));
+        obj.set("value", stringListToArray(item.values()));
+        break;
+    case TagLib::APE::Item::Binary:
+        obj.set("kind", std::string("binary"));
+        obj.set("value", byteVectorToUint8Array(item.binaryData()));
+        break;
+    case TagLib::APE::Item::Locator:
+        obj.set("kind", std::string("locator"));
+        obj.set("value", stringListToArray(item.values()));
+        break;
+    }
+
+    if (item.isReadOnly()) obj.set("readOnly", true);
+    return obj;
+}
+
+// Build an APE item from a typed JS object. Unknown kinds return false.
+static bool apeItemFromJS(const val& obj, TagLib::APE::Item& item) {
+    std::string kind = obj["kind"].as<std::string>();
+    TagLib::String key = fromUTF8(obj["key"]);
+    val value = obj["value"];
+
+    if (kind == "text" || kind == "locator") {
+        item = TagLib::APE::Item(key, arrayToStringList(value));
+        if (kind == "locator") item.setType(TagLib::APE::Item::Locator);
+    } else if (kind == "binary") {
+        item = TagLib::APE::Item(key, uint8ArrayToByteVector(value), true);
+    } else {
+        return false;
+    }
+
+    item.setReadOnly(obj["readOnly"].isTrue());
+    return true;
+}
+
+// APE cover art item keys, indexed by picture type (same order as ID3v2 APIC)
+static const char* const APE_COVER_KEYS[] = {
+    "Cover Art (Other)", "Cover Art (Icon)", "Cover Art (Other Icon)",
+    "Cover Art (Front)", "Cover Art (Back)", "Cover Art (Leaflet)",
+    "Cover Art (Media)", "Cover Art (Lead Artist)", "Cover Art (Artist)",
+    "Cover Art (Conductor)", "Cover Art (Band)", "Cover Art (Composer)",
+    "Cover Art (Lyricist)", "Cover Art (Recording Location)",
+    "Cover Art (During Recording)", "Cover Art (During Performance)",
+    "Cover Art (Video Capture)", "Cover Art (Colored Fish)",
+    "Cover Art (Illustration)", "Cover Art (Band Logotype)",
+    "Cover Art (Publisher Logotype)",
+};
+static const int APE_COVER_KEY_COUNT = sizeof(APE_COVER_KEYS) / sizeof(APE_COVER_KEYS[0]);
+
+// APE cover art does not store a MIME type, so detect it from the data
+static std::string imageMimeType(const TagLib::ByteVector& data) {
+    if (data.startsWith(TagLib::ByteVector("\xff\xd8\xff", 3))) return "image/jpeg";
+    if (data.startsWith(TagLib::ByteVector("\x89PNG", 4))) return "image/png";
+    if (data.startsWith("GIF8")) return "image/gif";
+    if (data.startsWith("BM")) return "image/bmp";
+    if (data.startsWith("RIFF") && data.mid(8, 4) == "WEBP") return "image/webp";
+    return "image/unknown";
+}
+
+// Append the cover art items of an APE tag to a JS picture array.
+// Binary cover items hold "<description>\0<image data>".
+static void appendAPEPictures(const TagLib::APE::Tag* tag, val& pictures) {
+    const TagLib::APE::ItemListMap& items = tag->itemListMap();
+    for (int type = 0; type < APE_COVER_KEY_COUNT; type++) {
+        auto it = items.find(TagLib::String(APE_COVER_KEYS[type]).upper());
+        if (it == items.end() || it->second.type() != TagLib::APE::Item::Binary) continue;
+
+        TagLib::ByteVector data = it->second.binaryData();
+        TagLib::String description;
+        int separator = data.find('\0');
+        if (separator >= 0) {
+            description = TagLib::String(data.mid(0, separator), TagLib::String::UTF8);
+            data = data.mid(separator + 1);
+        }
+
+        val pictureObj = val::object();
+        pictureObj.set("mimeType", imageMimeType(data));
+        pictureObj.set("type", type);
+        pictureObj.set("description", toUTF8(description));
+        pictureObj.set("data", byteVectorToUint8Array(data));
+        pictures.call<void>("push", pictureObj);
+    }
+}
+
+// Remove every cover art item from an APE tag
+static void removeAPEPictures(TagLib::APE::Tag* tag) {
+    for (int type = 0; type < APE_COVER_KEY_COUNT; type++) {
+        tag->removeItem(APE_COVER_KEYS[type]);
+    }
+}
+
+// Store a JS picture as an APE cover art item. APE holds one item per key,
+// so a later picture of the same type replaces an earlier one.
+static void addAPEPicture(TagLib::APE::Tag* tag, const val& picture) {
+    int type = picture["type"].as<int>();
+    if (type < 0 || type >= APE_COVER_KEY_COUNT) type = 0;
+
+    TagLib::ByteVector data = fromUTF8(picture["description"]).data(TagLib::String::UTF8);
+    data.append('\0');
+    data.append(uint8ArrayToByteVector(picture["data"]));
+    tag->setItem(APE_COVER_KEYS[type], TagLib::APE::Item(APE_COVER_KEYS[type], data, true));
+}
+
+// TagLib stream backed by a JavaScript source object with a `size` in
+// bytes, `read(offset, length)` returning a Uint8Array and, for writable
+// sources, `write(offset, data)` and `truncate(length)`. Only the blocks
+// TagLib asks for are copied into wasm memory.
+// FileType name of a file, as reported by getFormat()
+static const char* fileFormat(const TagLib::File* f) {
+    if (!f) return "UNKNOWN";
+    
+    if (dynamic_cast<const TagLib::MPEG::File*>(f)) return "MP3";
+    if (dynamic_cast<const TagLib::MP4::File*>(f)) return "MP4";
+    if (dynamic_cast<const TagLib::FLAC::File*>(f)) return "FLAC";
+    if (dynamic_cast<const TagLib::Ogg::Vorbis::File*>(f)) return "OGG";
+    if (dynamic_cast<const TagLib::Ogg::Opus::File*>(f)) return "OPUS";
+    if (dynamic_cast<const TagLib::RIFF::WAV::File*>(f)) return "WAV";
+    if (dynamic_cast<const TagLib::RIFF::AIFF::File*>(f)) return "AIFF";
+    if (dynamic_cast<const TagLib::ASF::File*>(f)) return "ASF";
+    if (dynamic_cast<const TagLib::APE::File*>(f)) return "APE";
+    if (dynamic_cast<const TagLib::WavPack::File*>(f)) return "WAVPACK";
+    if (dynamic_cast<const TagLib::MPC::File*>(f)) return "MPC";
+    if (dynamic_cast<const TagLib::TrueAudio::File*>(f)) return "TTA";
+    if (dynamic_cast<const TagLib::DSF::File*>(f)) return "DSF";
+    if (dynamic_cast<const TagLib::DSDIFF::File*>(f)) return "DSDIFF";
+    if (dynamic_cast<const TagLib::Shorten::File*>(f)) return "SHORTEN";
+    if (dynamic_cast<const TagLib::Ogg::Speex::File*>(f)) return "SPEEX";
+    if (dynamic_cast<const TagLib::Ogg::FLAC::File*>(f)) return "OGGFLAC";
+    if (dynamic_cast<const TagLib::Mod::File*>(f)) return "MOD";
+    if (dynamic_cast<const TagLib::IT::File*>(f)) return "IT";
+    if (dynamic_cast<const TagLib::S3M::File*>(f)) return "S3M";
+    if (dynamic_cast<const TagLib::XM::File*>(f)) return "XM";
+    
+    return "UNKNOWN";
+}
+
+class JSIOStream : public TagLib::IOStream {
+public:
+    explicit JSIOStream(const val& source)
+        : source(source),
+          fileName(source["name"].isString() ? source["name"].as<std::string>() : ""),
+          size(static_cast<TagLib::offset_t>(source["size"].as<double>())),
+          writable(source["write"].typeOf().as<std::string>() == "function" &&
+                   source["truncate"].typeOf().as<std::string>() == "function") {}
+
+    TagLib::FileName name() const override {
+        return fileName.c_str();
+    }
+
+    TagLib::ByteVector readBlock(size_t length) override {
+        if (position >= size || length == 0) return TagLib::ByteVector();
+
+        TagLib::offset_t count = std::min<TagLib::offset_t>(length, size - position);
+        TagLib::ByteVector block = uint8ArrayToByteVector(source.call<val>(
+            "read", static_cast<double>(position), static_cast<double>(count)));
+        position += block.size();
+        return block;
+    }
+
+    void writeBlock(const TagLib::ByteVector& data) override {
+        if (!writable || data.isEmpty()) return;
+
+        source.call<void>("write", static_cast<double>(position), byteVectorToUint8Array(data));
+        position += data.size();
+        size = std::max(size, position);
+    }
+
+    void insert(const TagLib::ByteVector& data, TagLib::offset_t start = 0,
+                size_t replace = 0) override {
+        if (!writable) return;
+
+        if (data.size() > replace) {
+            // Move the rest of the file back, starting at the end so no
+            // block is overwritten before it has been read
+            TagLib::offset_t shift = data.size() - replace;
+            TagLib::offset_t tail = start + replace;
+            TagLib::offset_t end = size;
+            while (end > tail) {
+                TagLib::offset_t count = std::min<TagLib::offset_t>(BLOCK_SIZE, end - tail);
+                seek(end - count);
+                TagLib::ByteVector block = readBlock(count);
+                seek(end - count + shift);
+                writeBlock(block);
+                end -= count;
+            }
+        }
+
+        seek(start);
+        writeBlock(data);
+        if (data.size() < replace) {
+            removeBlock(start + data.size(), replace - data.size());
+        }
+    }
+
+    void removeBlock(TagLib::offset_t start = 0, size_t length = 0) override {
+        if (!writable || length == 0) return;
+
+        TagLib::offset_t readPosition = start + length;
+        TagLib::offset_t writePosition = start;
+        while (readPosition < size) {
+            seek(readPosition);
+            TagLib::ByteVector block = readBlock(BLOCK_SIZE);
+            if (block.isEmpty()) break;
+            seek(writePosition);
+            writeBlock(block);
+            readPosition += block.size();
+            writePosition += block.size();
+        }
+        truncate(writePosition);
+    }
+
+    bool readOnly() const override {
+        return !writable;
+    }
+
+    bool isOpen() const override {
+        return true;
+    }
+
+    void seek(TagLib::offset_t offset, Position p = Beginning) override {
+        switch (p) {
+            case Beginning: position = offset; break;
+            case Current: position += offset; break;
+            case End: position = size + offset; break;
+        }
+        if (position < 0) position = 0;
+    }
+
+    TagLib::offset_t tell() const override {
+        return position;
+    }
+
+    TagLib::offset_t length() override {
+        return size;
+    }
+
+    void truncate(TagLib::offset_t length) override {
+        if (!writable) return;
+
+        source.call<void>("truncate", static_cast<double>(length));
+        size = length;
+    }
+
+private:
+    static constexpr TagLib::offset_t BLOCK_SIZE = 1024 * 1024;
+
+    val source;
+    std::string fileName;
+    TagLib::offset_t size;
+    TagLib::offset_t position = 0;
+    bool writable;
+};
+
+// Holds the stream of an open file, either an in-memory ByteVectorStream or
+// a JSIOStream
 class FileHandle {
 private:
-    std::unique_ptr<TagLib::ByteVectorStream> stream;
+    std::unique_ptr<TagLib::IOStream> stream;
     std::unique_ptr<TagLib::FileRef> fileRef;
     std::unique_ptr<TagLib::File> file;
+
+    // Bytes read for content detection; enough for every signature
+    static constexpr size_t DETECT_SIZE = 4096;
     
 public:
     FileHandle() = default;
     
     bool loadFromBuffer(const val& jsBuffer) {
         try {
-            // Get the buffer length
-            unsigned int length = jsBuffer["length"].as<unsigned int>();
-            
-            // Create a vector to hold the data
-            std::vector<char> data(length);
-            
-            // Copy data from JavaScript typed array to C++ vector
-            // This preserves binary data without any encoding conversions
-            for (unsigned int i = 0; i < length; i++) {
-                data[i] = jsBuffer[i].as<unsigned char>();
-            }
-            
-            // Create ByteVector from the buffer
-            TagLib::ByteVector buffer(data.data(), data.size());
-            
-            // Create a ByteVectorStream
-            stream = std::make_unique<TagLib::ByteVectorStream>(buffer);
+            // Copy the JavaScript typed array into a ByteVectorStream
+            stream = std::make_unique<TagLib::ByteVectorStream>(uint8ArrayToByteVector(jsBuffer));
+            return openStream();
+        } catch (...) {
+            return false;
+        }
+    }
+
+    // Open a file through a JavaScript source object (see JSIOStream)
+    // instead of copying it into memory
+    bool loadFromSource(const val& source) {
+        try {
+            stream = std::make_unique<JSIOStream>(source);
+            return openStream();
+        } catch (...) {
+            return false;
+        }
+    }
+
+    bool isValid() const {
+        return fileRef && !fileRef->isNull();
+    }
+
+private:
+    bool openStream() {
+        try {
             stream->seek(0, TagLib::IOStream::Beginning);
             
             // Try to create FileRef first
@@ -309,7 +1516,9 @@ public:
             
             // If FileRef failed, try specific file types based on format detection
             stream->seek(0, TagLib::IOStream::Beginning);
-            std::string format = detectFormat(std::string(data.data(), data.size()));
+            TagLib::ByteVector header = stream->readBlock(DETECT_SIZE);
+            stream->seek(0, TagLib::IOStream::Beginning);
+            std::string format = detectFormat(std::string(header.data(), header.size()));
             
             if (format == "mp3") {
                 file.reset(new TagLib::MPEG::File(stream.get()));
@@ -323,6 +1532,37 @@ public:
                 file.reset(new TagLib::RIFF::WAV::File(stream.get()));
             } else if (format == "aiff") {
                 file.reset(new TagLib::RIFF::AIFF::File(stream.get()));
+            } else if (format == "asf") {
+                file.reset(new TagLib::ASF::File(stream.get()));
+            } else if (format == "opus") {
+                file.reset(new TagLib::Ogg::Opus::File(stream.get()));
+            } else if (format == "speex") {
+                file.reset(new TagLib::Ogg::Speex::File(stream.get()));
+            } else if (format == "oggflac") {
+                file.reset(new TagLib::Ogg::FLAC::File(stream.get()));
+            } else if (format == "ape") {
+                file.reset(new TagLib::APE::File(stream.get()));
+            } else if (format == "wavpack") {
+                file.reset(new TagLib::WavPack::File(stream.get()));
+            } else if (format == "mpc") {
+                file.reset(new TagLib::MPC::File(stream.get()));
+            } else if (format == "tta") {
+                file.reset(new TagLib::TrueAudio::File(stream.get()));
+            } else if (format == "dsf") {
+                file.reset(new TagLib::DSF::File(stream.get()));
+            } else if (format == "dsdiff") {
+                file.reset(new TagLib::DSDIFF::File(stream.get()));
+            } else if (format == "shorten") {
+                file.reset(new TagLib::Shorten::File(stream.get()));
+            } else if (format == "mod") {
+                // Tracker modules have no content detection in FileRef
+                file.reset(new TagLib::Mod::File(stream.get()));
+            } else if (format == "it") {
+                file.reset(new TagLib::IT::File(stream.get()));
+            } else if (format == "s3m") {
+                file.reset(new TagLib::S3M::File(stream.get()));
+            } else if (format == "xm") {
+                file.reset(new TagLib::XM::File(stream.get()));
             }
             
             if (file && file->isValid()) {
@@ -335,14 +1575,54 @@ public:
             return false;
         }
     }
-    
-    bool isValid() const {
-        return fileRef && !fileRef->isNull();
-    }
-    
+
+public:
     bool save() {
         return fileRef && fileRef->save();
     }
+
+    // Save with { id3v2Version, writeId3v1, stripApe }; unset options keep
+    // TagLib's defaults
+    bool saveWithOptions(const val& options) {
+        if (!fileRef || !fileRef->file()) return false;
+
+        TagLib::ID3v2::Version version = TagLib::ID3v2::v4;
+        val id3v2Version = options["id3v2Version"];
+        if (!id3v2Version.isUndefined() && id3v2Version.as<int>() == 3) {
+            version = TagLib::ID3v2::v3;
+        }
+
+        TagLib::File* f = fileRef->file();
+        if (auto* mpegFile = dynamic_cast<TagLib::MPEG::File*>(f)) {
+            int tags = TagLib::MPEG::File::AllTags;
+            val writeId3v1 = options["writeId3v1"];
+            if (!writeId3v1.isUndefined() && !writeId3v1.as<bool>()) {
+                tags &= ~TagLib::MPEG::File::ID3v1;
+            }
+            val stripApe = options["stripApe"];
+            if (!stripApe.isUndefined() && stripApe.as<bool>()) {
+                tags &= ~TagLib::MPEG::File::APE;
+            }
+            // Tag types missing from `tags` are removed from the file
+            return mpegFile->save(tags, TagLib::File::StripOthers, version);
+        }
+        if (auto* wavFile = dynamic_cast<TagLib::RIFF::WAV::File*>(f)) {
+            // riffTags: "info" | "id3v2" | "both" (default)
+            TagLib::RIFF::WAV::File::TagTypes tags = TagLib::RIFF::WAV::File::AllTags;
+            val riffTags = options["riffTags"];
+            if (!riffTags.isUndefined()) {
+                std::string placement = riffTags.as<std::string>();
+                if (placement == "info") tags = TagLib::RIFF::WAV::File::Info;
+                if (placement == "id3v2") tags = TagLib::RIFF::WAV::File::ID3v2;
+            }
+            return wavFile->save(tags, TagLib::File::StripOthers, version);
+        }
+        if (auto* aiffFile = dynamic_cast<TagLib::RIFF::AIFF::File*>(f)) {
+            return aiffFile->save(version);
+        }
+
+        return fileRef->save();
+    }
     
     TagWrapper getTag() {
         TagLib::Tag* t = fileRef ? fileRef->tag() : nullptr;
@@ -360,18 +1640,7 @@ public:
     }
     
     std::string getFormat() const {
-        if (!fileRef || !fileRef->file()) return "UNKNOWN";
-        
-        TagLib::File* f = fileRef->file();
-        if (dynamic_cast<TagLib::MPEG::File*>(f)) return "MP3";
-        if (dynamic_cast<TagLib::MP4::File*>(f)) return "MP4";
-        if (dynamic_cast<TagLib::FLAC::File*>(f)) return "FLAC";
-        if (dynamic_cast<TagLib::Ogg::Vorbis::File*>(f)) return "OGG";
-        if (dynamic_cast<TagLib::Ogg::Opus::File*>(f)) return "OPUS";
-        if (dynamic_cast<TagLib::RIFF::WAV::File*>(f)) return "WAV";
-        if (dynamic_cast<TagLib::RIFF::AIFF::File*>(f)) return "AIFF";
-        
-        return "UNKNOWN";
+        return fileFormat(fileRef ? fileRef->file() : nullptr);
     }
     
     val getProperties() const {
@@ -442,7 +1711,45 @@ public:
         properties[TagLib::String(key, TagLib::String::UTF8)] = values;
         fileRef->file()->setProperties(properties);
     }
-    
+
+    // Get every value stored for a property key
+    val getPropertyValues(const std::string& key) const {
+        val array = val::array();
+        if (!fileRef || !fileRef->file()) return array;
+
+        TagLib::PropertyMap properties = fileRef->file()->properties();
+        TagLib::String tagKey(key, TagLib::String::UTF8);
+
+        if (properties.contains(tagKey)) {
+            for (const auto& value : properties[tagKey]) {
+                array.call<void>("push", std::string(value.toCString(true)));
+            }
+        }
+
+        return array;
+    }
+
+    // Replace all values of a property key (an empty array removes the key)
+    void setPropertyValues(const std::string& key, const val& values) {
+        if (!fileRef || !fileRef->file() || !values.isArray()) return;
+
+        TagLib::PropertyMap properties = fileRef->file()->properties();
+        TagLib::String tagKey(key, TagLib::String::UTF8);
+        TagLib::StringList stringList;
+        int valueCount = values["length"].as<int>();
+
+        for (int i = 0; i < valueCount; i++) {
+            stringList.append(TagLib::String(values[i].as<std::string>(), TagLib::String::UTF8));
+        }
+
+        if (stringList.isEmpty()) {
+            properties.erase(tagKey);
+        } else {
+            properties[tagKey] = stringList;
+        }
+        fileRef->file()->setProperties(properties);
+    }
+
     // MP4-specific methods
     bool isMP4() const {
         return fileRef && dynamic_cast<TagLib::MP4::File*>(fileRef->file()) != nullptr;
@@ -496,6 +1803,36 @@ public:
         }
     }
     
+    // Get typed MP4 items, optionally filtered by key (empty key = all items)
+    val getMP4Items(const std::string& key) const {
+        val items = val::array();
+
+        TagLib::MP4::File* mp4File = fileRef ? dynamic_cast<TagLib::MP4::File*>(fileRef->file()) : nullptr;
+        if (!mp4File || !mp4File->tag()) return items;
+
+        TagLib::String itemKey(key, TagLib::String::UTF8);
+        for (const auto& [name, item] : mp4File->tag()->itemMap()) {
+            if (!key.empty() && name != itemKey) continue;
+            val obj = mp4ItemToJS(name, item);
+            if (!obj.isUndefined()) {
+                items.call<void>("push", obj);
+            }
+        }
+        return items;
+    }
+
+    // Set a typed MP4 item from { key, kind, value }
+    bool setMP4TypedItem(const val& obj) {
+        TagLib::MP4::File* mp4File = fileRef ? dynamic_cast<TagLib::MP4::File*>(fileRef->file()) : nullptr;
+        if (!mp4File || !mp4File->tag()) return false;
+
+        TagLib::MP4::Item item = mp4ItemFromJS(obj);
+        if (!item.isValid()) return false;
+
+        mp4File->tag()->setItem(fromUTF8(obj["key"]), item);
+        return true;
+    }
+
     void removeMP4Item(const std::string& key) {
         if (!fileRef || !fileRef->file()) return;
         
@@ -532,8 +1869,14 @@ private:
             return "flac";
         }
         
-        // OGG - Look for OggS signature
-        if (data.size() >= 4 && memcmp(d, "OggS", 4) == 0) {
+        // OGG - Look for OggS signature, then at the first packet's codec header
+        if (data.size() >= 27 && memcmp(d, "OggS", 4) == 0) {
+            size_t packet = 27 + static_cast<unsigned char>(d[26]);
+            if (data.size() >= packet + 8) {
+                if (memcmp(d + packet, "OpusHead", 8) == 0) return "opus";
+                if (memcmp(d + packet, "Speex   ", 8) == 0) return "speex";
+                if (memcmp(d + packet, "\x7F" "FLAC", 5) == 0) return "oggflac";
+            }
             return "ogg";
         }
         
@@ -547,24 +1890,57 @@ private:
             return "aiff";
         }
         
+        // ASF/WMA - Look for the Header Object GUID
+        static const unsigned char asfHeader[16] = {
+            0x30, 0x26, 0xB2, 0x75, 0x8E, 0x66, 0xCF, 0x11,
+            0xA6, 0xD9, 0x00, 0xAA, 0x00, 0x62, 0xCE, 0x6C
+        };
+        if (data.size() >= 16 && memcmp(d, asfHeader, 16) == 0) {
+            return "asf";
+        }
+        
+        // Lossless and DSD formats with a four-byte signature
+        if (memcmp(d, "MAC ", 4) == 0) return "ape";
+        if (memcmp(d, "wvpk", 4) == 0) return "wavpack";
+        if (memcmp(d, "MPCK", 4) == 0 || memcmp(d, "MP+", 3) == 0) return "mpc";
+        if (memcmp(d, "TTA1", 4) == 0) return "tta";
+        if (memcmp(d, "DSD ", 4) == 0) return "dsf";
+        if (data.size() >= 16 && memcmp(d, "FRM8", 4) == 0 && memcmp(d + 12, "DSD ", 4) == 0) return "dsdiff";
+        if (memcmp(d, "ajkg", 4) == 0) return "shorten";
+        
+        // Tracker modules
+        if (memcmp(d, "IMPM", 4) == 0) return "it";
+        if (data.size() >= 17 && memcmp(d, "Extended Module: ", 17) == 0) return "xm";
+        if (data.size() >= 48 && memcmp(d + 44, "SCRM", 4) == 0) return "s3m";
+        if (data.size() >= 1084) {
+            // ProTracker-style modules store their signature after the sample table
+            static const char* modTags[] = {
+                "M.K.", "M!K!", "M&K!", "N.T.", "FLT4", "FLT8", "CD81", "OKTA", "OCTA"
+            };
+            for (const char* tag : modTags) {
+                if (memcmp(d + 1080, tag, 4) == 0) return "mod";
+            }
+            if (memcmp(d + 1081, "CHN", 3) == 0 || memcmp(d + 1082, "CH", 2) == 0) return "mod";
+        }
+        
         return "unknown";
     }
     
 public:
     // Get the current file buffer after modifications
     val getBuffer() const {
-        if (stream && stream->data()) {
-            const TagLib::ByteVector* data = stream->data();
-            
-            // Create a JavaScript Uint8Array with the binary data
-            val uint8Array = val::global("Uint8Array").new_(data->size());
-            
-            // Copy the data directly to preserve binary integrity
-            for (size_t i = 0; i < data->size(); i++) {
-                uint8Array.set(i, static_cast<unsigned char>((*data)[i]));
+        if (auto* bufferStream = dynamic_cast<TagLib::ByteVectorStream*>(stream.get())) {
+            if (bufferStream->data()) {
+                return byteVectorToUint8Array(*bufferStream->data());
             }
-            
-            return uint8Array;
+        }
+        else if (stream) {
+            // Streamed files are read in full only when asked for
+            TagLib::offset_t position = stream->tell();
+            stream->seek(0, TagLib::IOStream::Beginning);
+            TagLib::ByteVector data = stream->readBlock(static_cast<size_t>(stream->length()));
+            stream->seek(position, TagLib::IOStream::Beginning);
+            return byteVectorToUint8Array(data);
         }
         
         // Return an empty Uint8Array if no data
@@ -606,6 +1982,9 @@ public:
                     }
                 }
             }
+            if (mpegFile->hasAPETag()) {
+                appendAPEPictures(mpegFile->APETag(), pictures);
+            }
         }
         // Handle MP4/M4A files
         else if (TagLib::MP4::File* mp4File = dynamic_cast<TagLib::MP4::File*>(f)) {
@@ -674,29 +2053,40 @@ public:
                 pictures.call<void>("push", pictureObj);
             }
         }
-        // Handle Ogg Vorbis/Opus files
-        else if (TagLib::Ogg::Vorbis::File* vorbisFile = dynamic_cast<TagLib::Ogg::Vorbis::File*>(f)) {
-            if (vorbisFile->tag()) {
-                const TagLib::List<TagLib::FLAC::Picture*>& pictureList = vorbisFile->tag()->pictureList();
+        // Handle Ogg Vorbis/Opus/Speex/FLAC files
+        else if (TagLib::Ogg::XiphComment* xiph = dynamic_cast<TagLib::Ogg::XiphComment*>(f->tag())) {
+            const TagLib::List<TagLib::FLAC::Picture*>& pictureList = xiph->pictureList();
+            
+            for (const auto& picture : pictureList) {
+                val pictureObj = val::object();
+                pictureObj.set("mimeType", std::string(picture->mimeType().toCString(true)));
+                pictureObj.set("type", static_cast<int>(picture->type()));
+                pictureObj.set("description", std::string(picture->description().toCString(true)));
                 
-                for (const auto& picture : pictureList) {
-                    val pictureObj = val::object();
-                    pictureObj.set("mimeType", std::string(picture->mimeType().toCString(true)));
-                    pictureObj.set("type", static_cast<int>(picture->type()));
-                    pictureObj.set("description", std::string(picture->description().toCString(true)));
-                    
-                    // Convert picture data to Uint8Array
-                    TagLib::ByteVector picData = picture->data();
-                    val uint8Array = val::global("Uint8Array").new_(picData.size());
-                    for (size_t i = 0; i < picData.size(); i++) {
-                        uint8Array.set(i, static_cast<unsigned char>(picData[i]));
-                    }
-                    pictureObj.set("data", uint8Array);
-                    
-                    pictures.call<void>("push", pictureObj);
+                // Convert picture data to Uint8Array
+                TagLib::ByteVector picData = picture->data();
+                val uint8Array = val::global("Uint8Array").new_(picData.size());
+                for (size_t i = 0; i < picData.size(); i++) {
+                    uint8Array.set(i, static_cast<unsigned char>(picData[i]));
+                }
+                pictureObj.set("data", uint8Array);
+                
+                pictures.call<void>("push", pictureObj);
+            }
+        }
+        // Handle ASF/WMA files
+        else if (TagLib::ASF::File* asfFile = dynamic_cast<TagLib::ASF::File*>(f)) {
+            for (const auto& attribute : asfFile->tag()->attribute("WM/Picture")) {
+                TagLib::ASF::Picture picture = attribute.toPicture();
+                if (picture.isValid()) {
+                    pictures.call<void>("push", asfPictureToJS(picture));
                 }
             }
         }
+        // Handle APE tags of Monkey's Audio, WavPack and Musepack files
+        else if (const TagLib::APE::Tag* apeTag = getAPETag(false)) {
+            appendAPEPictures(apeTag, pictures);
+        }
         
         return pictures;
     }
@@ -740,6 +2130,11 @@ public:
                 
                 id3v2Tag->addFrame(frame);
             }
+            
+            // Pictures now live in ID3v2 only, so drop stale APE cover art
+            if (mpegFile->hasAPETag()) {
+                removeAPEPictures(mpegFile->APETag());
+            }
         }
         // Handle MP4/M4A files
         else if (TagLib::MP4::File* mp4File = dynamic_cast<TagLib::MP4::File*>(f)) {
@@ -810,12 +2205,10 @@ public:
                 flacFile->addPicture(flacPicture);
             }
         }
-        // Handle Ogg Vorbis files
-        else if (TagLib::Ogg::Vorbis::File* vorbisFile = dynamic_cast<TagLib::Ogg::Vorbis::File*>(f)) {
-            if (!vorbisFile->tag()) return;
-            
+        // Handle Ogg Vorbis/Opus/Speex/FLAC files
+        else if (TagLib::Ogg::XiphComment* xiph = dynamic_cast<TagLib::Ogg::XiphComment*>(f->tag())) {
             // Remove all existing pictures
-            vorbisFile->tag()->removeAllPictures();
+            xiph->removeAllPictures();
             
             // Add new pictures
             for (int i = 0; i < length; i++) {
@@ -836,7 +2229,27 @@ public:
                 }
                 flacPicture->setData(TagLib::ByteVector(buffer.data(), buffer.size()));
                 
-                vorbisFile->tag()->addPicture(flacPicture);
+                xiph->addPicture(flacPicture);
+            }
+        }
+        // Handle ASF/WMA files
+        else if (TagLib::ASF::File* asfFile = dynamic_cast<TagLib::ASF::File*>(f)) {
+            TagLib::ASF::AttributeList attributes;
+            for (int i = 0; i < length; i++) {
+                attributes.append(TagLib::ASF::Attribute(asfPictureFromJS(pictures[i])));
+            }
+            
+            if (!attributes.isEmpty()) {
+                asfFile->tag()->setAttribute("WM/Picture", attributes);
+            } else {
+                asfFile->tag()->removeItem("WM/Picture");
+            }
+        }
+        // Handle APE tags of Monkey's Audio, WavPack and Musepack files
+        else if (TagLib::APE::Tag* apeTag = getAPETag(length > 0)) {
+            removeAPEPictures(apeTag);
+            for (int i = 0; i < length; i++) {
+                addAPEPicture(apeTag, pictures[i]);
             }
         }
     }
@@ -861,6 +2274,421 @@ public:
         setPictures(emptyArray);
     }
     
+    // Get the ID3v2 tag of formats that can carry one (MP3, WAV, AIFF)
+    TagLib::ID3v2::Tag* getID3v2Tag(bool create) const {
+        if (!fileRef || !fileRef->file()) return nullptr;
+
+        TagLib::File* f = fileRef->file();
+        if (TagLib::MPEG::File* mpegFile = dynamic_cast<TagLib::MPEG::File*>(f)) {
+            if (!create && !mpegFile->hasID3v2Tag()) return nullptr;
+            return mpegFile->ID3v2Tag(create);
+        }
+        if (TagLib::RIFF::WAV::File* wavFile = dynamic_cast<TagLib::RIFF::WAV::File*>(f)) {
+            return wavFile->ID3v2Tag();
+        }
+        if (TagLib::RIFF::AIFF::File* aiffFile = dynamic_cast<TagLib::RIFF::AIFF::File*>(f)) {
+            return aiffFile->tag();
+        }
+        return nullptr;
+    }
+
+    // Get the APE tag of formats that can carry one (MP3, APE, WavPack, MPC)
+    TagLib::APE::Tag* getAPETag(bool create) const {
+        if (!fileRef || !fileRef->file()) return nullptr;
+
+        TagLib::File* f = fileRef->file();
+        if (TagLib::MPEG::File* mpegFile = dynamic_cast<TagLib::MPEG::File*>(f)) {
+            if (!create && !mpegFile->hasAPETag()) return nullptr;
+            return mpegFile->APETag(create);
+        }
+        if (TagLib::APE::File* apeFile = dynamic_cast<TagLib::APE::File*>(f)) {
+            if (!create && !apeFile->hasAPETag()) return nullptr;
+            return apeFile->APETag(create);
+        }
+        if (TagLib::WavPack::File* wavPackFile = dynamic_cast<TagLib::WavPack::File*>(f)) {
+            if (!create && !wavPackFile->hasAPETag()) return nullptr;
+            return wavPackFile->APETag(create);
+        }
+        if (TagLib::MPC::File* mpcFile = dynamic_cast<TagLib::MPC::File*>(f)) {
+            if (!create && !mpcFile->hasAPETag()) return nullptr;
+            return mpcFile->APETag(create);
+        }
+        return nullptr;
+    }
+
+    // Get APE items, optionally filtered by key (empty key = all items)
+    val getAPEItems(const std::string& key) const {
+        val items = val::array();
+
+        TagLib::APE::Tag* apeTag = getAPETag(false);
+        if (!apeTag) return items;
+
+        TagLib::String upperKey = TagLib::String(key, TagLib::String::UTF8).upper();
+        for (const auto& [itemKey, item] : apeTag->itemListMap()) {
+            if (!key.empty() && itemKey != upperKey) continue;
+            items.call<void>("push", apeItemToJS(item));
+        }
+        return items;
+    }
+
+    // Set an APE item, replacing any item with the same key
+    bool setAPEItem(const val& obj) {
+        TagLib::APE::Item item;
+        if (!apeItemFromJS(obj, item) || !TagLib::APE::Tag::checkKey(item.key())) return false;
+
+        TagLib::APE::Tag* apeTag = getAPETag(true);
+        if (!apeTag) return false;
+
+        apeTag->setItem(item.key(), item);
+        return true;
+    }
+
+    void removeAPEItem(const std::string& key) {
+        if (TagLib::APE::Tag* apeTag = getAPETag(false)) {
+            apeTag->removeItem(TagLib::String(key, TagLib::String::UTF8));
+        }
+    }
+
+    // Get ID3v2 frames, optionally filtered by frame ID (empty ID = all frames)
+    val getID3v2Frames(const std::string& id) const {
+        val frames = val::array();
+
+        TagLib::ID3v2::Tag* id3v2Tag = getID3v2Tag(false);
+        if (!id3v2Tag) return frames;
+
+        const TagLib::ID3v2::FrameList& frameList = id.empty()
+            ? id3v2Tag->frameList()
+            : id3v2Tag->frameList(TagLib::ByteVector(id.data(), id.size()));
+
+        for (const auto& frame : frameList) {
+            frames.call<void>("push", id3v2FrameToJS(frame));
+        }
+
+        return frames;
+    }
+
+    // Add a frame to the ID3v2 tag, creating the tag if necessary
+    bool addID3v2Frame(const val& frame) {
+        TagLib::ID3v2::Tag* id3v2Tag = getID3v2Tag(true);
+        if (!id3v2Tag) return false;
+
+        TagLib::ID3v2::Frame* id3v2Frame = id3v2FrameFromJS(frame);
+        if (!id3v2Frame) return false;
+
+        id3v2Tag->addFrame(id3v2Frame);
+        return true;
+    }
+
+    // Remove all ID3v2 frames with the given frame ID
+    void removeID3v2Frames(const std::string& id) {
+        TagLib::ID3v2::Tag* id3v2Tag = getID3v2Tag(false);
+        if (!id3v2Tag || id.size() != 4) return;
+
+        id3v2Tag->removeFrames(TagLib::ByteVector(id.data(), id.size()));
+    }
+    
+    // Get ID3v2 chapters in table-of-contents order (or by start time
+    // when the file has no top-level CTOC frame)
+    val getChapters() const {
+        val chapters = val::array();
+
+        TagLib::ID3v2::Tag* id3v2Tag = getID3v2Tag(false);
+        if (!id3v2Tag) return chapters;
+
+        std::vector<const TagLib::ID3v2::ChapterFrame*> ordered;
+
+        const TagLib::ID3v2::TableOfContentsFrame* toc =
+            TagLib::ID3v2::TableOfContentsFrame::findTopLevel(id3v2Tag);
+        if (toc) {
+            for (const auto& childID : toc->childElements()) {
+                if (auto* chapter = TagLib::ID3v2::ChapterFrame::findByElementID(id3v2Tag, childID)) {
+                    ordered.push_back(chapter);
+                }
+            }
+        }
+
+        // Chapters not referenced by the table of contents go last, by start time
+        std::vector<const TagLib::ID3v2::ChapterFrame*> unlisted;
+        for (const auto& frame : id3v2Tag->frameList("CHAP")) {
+            auto* chapter = dynamic_cast<const TagLib::ID3v2::ChapterFrame*>(frame);
+            if (chapter && std::find(ordered.begin(), ordered.end(), chapter) == ordered.end()) {
+                unlisted.push_back(chapter);
+            }
+        }
+        std::stable_sort(unlisted.begin(), unlisted.end(),
+            [](const TagLib::ID3v2::ChapterFrame* a, const TagLib::ID3v2::ChapterFrame* b) {
+                return a->startTime() < b->startTime();
+            });
+        ordered.insert(ordered.end(), unlisted.begin(), unlisted.end());
+
+        for (const auto* chapter : ordered) {
+            chapters.call<void>("push", id3v2ChapterToJS(chapter));
+        }
+
+        return chapters;
+    }
+
+    // Replace all ID3v2 chapters. Writes one CHAP frame per chapter plus a
+    // top-level, ordered CTOC frame listing them in the given order.
+    bool setChapters(const val& chapters) {
+        if (!chapters.isArray()) return false;
+
+        int length = chapters["length"].as<int>();
+        TagLib::ID3v2::Tag* id3v2Tag = getID3v2Tag(length > 0);
+        if (!id3v2Tag) return length == 0;
+
+        id3v2Tag->removeFrames("CTOC");
+        id3v2Tag->removeFrames("CHAP");
+
+        if (length == 0) return true;
+
+        TagLib::ByteVectorList childElements;
+        TagLib::ID3v2::FrameList chapterFrames;
+
+        for (int i = 0; i < length; i++) {
+            val chapter = chapters[i];
+            std::string id = chapter["id"].isUndefined() || chapter["id"].isNull()
+                ? "chp" + std::to_string(i) : chapter["id"].as<std::string>();
+            TagLib::ByteVector elementID(id.data(), id.size());
+
+            childElements.append(elementID);
+            chapterFrames.append(id3v2ChapterFromJS(chapter, elementID));
+        }
+
+        auto* toc = new TagLib::ID3v2::TableOfContentsFrame("toc", childElements);
+        toc->setIsTopLevel(true);
+        toc->setIsOrdered(true);
+        id3v2Tag->addFrame(toc);
+
+        for (const auto& frame : chapterFrames) {
+            id3v2Tag->addFrame(frame);
+        }
+
+        return true;
+    }
+    
+    // Get ASF attributes, optionally filtered by name (empty name = all)
+    val getASFAttributes(const std::string& name) const {
+        val attributes = val::array();
+
+        TagLib::ASF::File* asfFile = fileRef ? dynamic_cast<TagLib::ASF::File*>(fileRef->file()) : nullptr;
+        if (!asfFile) return attributes;
+
+        TagLib::String attributeName(name, TagLib::String::UTF8);
+        for (const auto& [key, list] : asfFile->tag()->attributeListMap()) {
+            if (!name.empty() && key != attributeName) continue;
+            for (const auto& attribute : list) {
+                attributes.call<void>("push", asfAttributeToJS(key, attribute));
+            }
+        }
+        return attributes;
+    }
+
+    // Append an ASF attribute; existing attributes with the same name are kept
+    bool addASFAttribute(const val& obj) {
+        TagLib::ASF::File* asfFile = fileRef ? dynamic_cast<TagLib::ASF::File*>(fileRef->file()) : nullptr;
+        if (!asfFile) return false;
+
+        TagLib::ASF::Attribute attribute;
+        if (!asfAttributeFromJS(obj, attribute)) return false;
+
+        asfFile->tag()->addAttribute(fromUTF8(obj["name"]), attribute);
+        return true;
+    }
+
+    void removeASFAttributes(const std::string& name) {
+        TagLib::ASF::File* asfFile = fileRef ? dynamic_cast<TagLib::ASF::File*>(fileRef->file()) : nullptr;
+        if (asfFile) {
+            asfFile->tag()->removeItem(TagLib::String(name, TagLib::String::UTF8));
+        }
+    }
+
+    // RIFF INFO fields of a WAV file, e.g. { INAM: "Title", IENG: "Engineer" }
+    val getRIFFInfo() const {
+        val fields = val::object();
+
+        auto* wavFile = fileRef ? dynamic_cast<TagLib::RIFF::WAV::File*>(fileRef->file()) : nullptr;
+        if (!wavFile) return fields;
+
+        for (const auto& [id, text] : wavFile->InfoTag()->fieldListMap()) {
+            fields.set(std::string(id.data(), id.size()), toUTF8(text));
+        }
+        return fields;
+    }
+
+    // Set a RIFF INFO field of a WAV file; an empty value removes it
+    bool setRIFFInfoField(const std::string& id, const std::string& value) {
+        auto* wavFile = fileRef ? dynamic_cast<TagLib::RIFF::WAV::File*>(fileRef->file()) : nullptr;
+        if (!wavFile || id.size() != 4) return false;
+
+        TagLib::ByteVector fieldId(id.data(), id.size());
+        if (value.empty()) {
+            wavFile->InfoTag()->removeField(fieldId);
+        } else {
+            wavFile->InfoTag()->setFieldText(fieldId, TagLib::String(value, TagLib::String::UTF8));
+        }
+        return true;
+    }
+
+    // Tag containers present in the file, e.g. [{ type: "ID3v2", version: 4 }]
+    val getTagTypes() const {
+        val types = val::array();
+        if (!fileRef || !fileRef->file()) return types;
+
+        auto add = [&types](const char* type) {
+            val entry = val::object();
+            entry.set("type", std::string(type));
+            types.call<void>("push", entry);
+            return entry;
+        };
+        auto addID3v2 = [&add](TagLib::ID3v2::Tag* tag) {
+            add("ID3v2").set("version", tag->header()->majorVersion());
+        };
+        auto addAPEFile = [&add](auto* file) {
+            if (file->hasAPETag()) add("APE");
+            if (file->hasID3v1Tag()) add("ID3v1");
+        };
+
+        TagLib::File* f = fileRef->file();
+        if (auto* mpegFile = dynamic_cast<TagLib::MPEG::File*>(f)) {
+            if (mpegFile->hasID3v2Tag()) addID3v2(mpegFile->ID3v2Tag());
+            if (mpegFile->hasAPETag()) add("APE");
+            if (mpegFile->hasID3v1Tag()) add("ID3v1");
+        } else if (auto* flacFile = dynamic_cast<TagLib::FLAC::File*>(f)) {
+            if (flacFile->hasXiphComment()) add("Xiph");
+            if (flacFile->hasID3v2Tag()) addID3v2(flacFile->ID3v2Tag());
+            if (flacFile->hasID3v1Tag()) add("ID3v1");
+        } else if (auto* wavFile = dynamic_cast<TagLib::RIFF::WAV::File*>(f)) {
+            if (wavFile->hasInfoTag()) add("RIFFInfo");
+            if (wavFile->hasID3v2Tag()) addID3v2(wavFile->ID3v2Tag());
+        } else if (auto* aiffFile = dynamic_cast<TagLib::RIFF::AIFF::File*>(f)) {
+            if (aiffFile->hasID3v2Tag()) addID3v2(aiffFile->tag());
+        } else if (auto* mp4File = dynamic_cast<TagLib::MP4::File*>(f)) {
+            if (mp4File->hasMP4Tag()) add("MP4");
+        } else if (auto* asfFile = dynamic_cast<TagLib::ASF::File*>(f)) {
+            if (!asfFile->tag()->isEmpty()) add("ASF");
+        } else if (auto* apeFile = dynamic_cast<TagLib::APE::File*>(f)) {
+            addAPEFile(apeFile);
+        } else if (auto* wavPackFile = dynamic_cast<TagLib::WavPack::File*>(f)) {
+            addAPEFile(wavPackFile);
+        } else if (auto* mpcFile = dynamic_cast<TagLib::MPC::File*>(f)) {
+            addAPEFile(mpcFile);
+        } else if (dynamic_cast<TagLib::Ogg::XiphComment*>(f->tag())) {
+            // The comment header is mandatory in Ogg streams
+            add("Xiph");
+        }
+
+        return types;
+    }
+
+    // Remove the named tag containers and save. Containers the format does
+    // not have are ignored.
+    bool stripTags(const val& types) {
+        if (!fileRef || !fileRef->file() || !types.isArray()) return false;
+
+        std::vector<std::string> names;
+        int length = types["length"].as<int>();
+        for (int i = 0; i < length; i++) {
+            names.push_back(types[i].as<std::string>());
+        }
+        auto has = [&names](const char* type) {
+            return std::find(names.begin(), names.end(), type) != names.end();
+        };
+
+        TagLib::File* f = fileRef->file();
+        if (auto* mpegFile = dynamic_cast<TagLib::MPEG::File*>(f)) {
+            int tags = TagLib::MPEG::File::NoTags;
+            if (has("ID3v1")) tags |= TagLib::MPEG::File::ID3v1;
+            if (has("ID3v2")) tags |= TagLib::MPEG::File::ID3v2;
+            if (has("APE")) tags |= TagLib::MPEG::File::APE;
+            // strip() rewrites the stream directly, so save pending edits first
+            return mpegFile->save() && mpegFile->strip(tags);
+        }
+        if (auto* wavFile = dynamic_cast<TagLib::RIFF::WAV::File*>(f)) {
+            int tags = TagLib::RIFF::WAV::File::NoTags;
+            if (has("ID3v2")) tags |= TagLib::RIFF::WAV::File::ID3v2;
+            if (has("RIFFInfo")) tags |= TagLib::RIFF::WAV::File::Info;
+            if (!wavFile->save()) return false;
+            wavFile->strip(static_cast<TagLib::RIFF::WAV::File::TagTypes>(tags));
+            return true;
+        }
+        if (auto* flacFile = dynamic_cast<TagLib::FLAC::File*>(f)) {
+            int tags = TagLib::FLAC::File::NoTags;
+            if (has("Xiph")) tags |= TagLib::FLAC::File::XiphComment;
+            if (has("ID3v1")) tags |= TagLib::FLAC::File::ID3v1;
+            if (has("ID3v2")) tags |= TagLib::FLAC::File::ID3v2;
+            flacFile->strip(tags);
+            return flacFile->save();
+        }
+        if (auto* aiffFile = dynamic_cast<TagLib::RIFF::AIFF::File*>(f)) {
+            // An empty ID3v2 tag is removed from the file on save
+            if (has("ID3v2")) {
+                TagLib::ID3v2::Tag* tag = aiffFile->tag();
+                const TagLib::ID3v2::FrameList frames = tag->frameList();
+                for (auto* frame : frames) {
+                    tag->removeFrame(frame);
+                }
+            }
+            return aiffFile->save();
+        }
+        if (auto* mp4File = dynamic_cast<TagLib::MP4::File*>(f)) {
+            if (has("MP4") && mp4File->tag()) {
+                TagLib::MP4::Tag* tag = mp4File->tag();
+                const TagLib::MP4::ItemMap items = tag->itemMap();
+                for (const auto& item : items) {
+                    tag->removeItem(item.first);
+                }
+            }
+            return mp4File->save();
+        }
+        if (auto* asfFile = dynamic_cast<TagLib::ASF::File*>(f)) {
+            if (has("ASF")) {
+                TagLib::ASF::Tag* tag = asfFile->tag();
+                const TagLib::ASF::AttributeListMap attributes = tag->attributeListMap();
+                for (const auto& attribute : attributes) {
+                    tag->removeItem(attribute.first);
+                }
+                tag->setTitle("");
+                tag->setArtist("");
+                tag->setComment("");
+                tag->setCopyright("");
+                tag->setRating("");
+            }
+            return asfFile->save();
+        }
+        // APE, WavPack and MPC strip tags in memory; save() writes the file
+        if (auto* apeFile = dynamic_cast<TagLib::APE::File*>(f)) {
+            int tags = TagLib::APE::File::NoTags;
+            if (has("APE")) tags |= TagLib::APE::File::APE;
+            if (has("ID3v1")) tags |= TagLib::APE::File::ID3v1;
+            apeFile->strip(tags);
+            return apeFile->save();
+        }
+        if (auto* wavPackFile = dynamic_cast<TagLib::WavPack::File*>(f)) {
+            int tags = TagLib::WavPack::File::NoTags;
+            if (has("APE")) tags |= TagLib::WavPack::File::APE;
+            if (has("ID3v1")) tags |= TagLib::WavPack::File::ID3v1;
+            wavPackFile->strip(tags);
+            return wavPackFile->save();
+        }
+        if (auto* mpcFile = dynamic_cast<TagLib::MPC::File*>(f)) {
+            int tags = TagLib::MPC::File::NoTags;
+            if (has("APE")) tags |= TagLib::MPC::File::APE;
+            if (has("ID3v1")) tags |= TagLib::MPC::File::ID3v1;
+            mpcFile->strip(tags);
+            return mpcFile->save();
+        }
+        if (auto* xiph = dynamic_cast<TagLib::Ogg::XiphComment*>(f->tag())) {
+            if (has("Xiph")) {
+                xiph->removeAllFields();
+                xiph->removeAllPictures();
+            }
+            return f->save();
+        }
+
+        return fileRef->save();
+    }
+
     // Explicitly destroy all resources
     void destroy() {
         // Reset unique_ptrs to release memory immediately
@@ -870,22 +2698,80 @@ public:
     }
 };
 
+// C functions for the Workers API (src/workers.ts), which uses TagLib's C
+// bindings. A TagLib_File is a FileRef and a TagLib_AudioProperties is a
+// TagLib::AudioProperties, as in tag_c.cpp.
+static std::map<const TagLib::FileRef*, std::unique_ptr<TagLib::ByteVectorStream>> workerStreams;
+
+extern "C" {
+
+EMSCRIPTEN_KEEPALIVE
+TagLib::FileRef* taglib_file_new_from_buffer(const char* data, unsigned int size) {
+    auto stream = std::make_unique<TagLib::ByteVectorStream>(TagLib::ByteVector(data, size));
+    auto* fileRef = new TagLib::FileRef(stream.get());
+    if (fileRef->isNull()) {
+        delete fileRef;
+        return nullptr;
+    }
+    workerStreams[fileRef] = std::move(stream);
+    return fileRef;
+}
+
+EMSCRIPTEN_KEEPALIVE
+void taglib_file_delete(TagLib::FileRef* fileRef) {
+    delete fileRef;
+    workerStreams.erase(fileRef);
+}
+
+EMSCRIPTEN_KEEPALIVE
+const char* taglib_file_format(const TagLib::FileRef* fileRef) {
+    return fileFormat(fileRef ? fileRef->file() : nullptr);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int taglib_audioproperties_length_ms(const TagLib::AudioProperties* props) {
+    return props ? props->lengthInMilliseconds() : 0;
+}
+
+EMSCRIPTEN_KEEPALIVE
+double taglib_audioproperties_total_samples(const TagLib::AudioProperties* props) {
+    return sampleFrames(props);
+}
+
+}
+
 EMSCRIPTEN_BINDINGS(taglib) {
     // FileHandle class - main entry point
     class_<FileHandle>("FileHandle")
         .constructor<>()
         .function("loadFromBuffer", &FileHandle::loadFromBuffer)
+        .function("loadFromSource", &FileHandle::loadFromSource)
         .function("isValid", &FileHandle::isValid)
         .function("save", &FileHandle::save)
+        .function("saveWithOptions", &FileHandle::saveWithOptions)
+        .function("getTagTypes", &FileHandle::getTagTypes)
+        .function("stripTags", &FileHandle::stripTags)
         .function("getFormat", &FileHandle::getFormat)
         .function("getProperties", &FileHandle::getProperties)
         .function("setProperties", &FileHandle::setProperties)
         .function("getProperty", &FileHandle::getProperty)
         .function("setProperty", &FileHandle::setProperty)
+        .function("getPropertyValues", &FileHandle::getPropertyValues)
+        .function("setPropertyValues", &FileHandle::setPropertyValues)
         .function("isMP4", &FileHandle::isMP4)
+        .function("getMP4Items", &FileHandle::getMP4Items)
+        .function("setMP4TypedItem", &FileHandle::setMP4TypedItem)
         .function("getMP4Item", &FileHandle::getMP4Item)
         .function("setMP4Item", &FileHandle::setMP4Item)
         .function("removeMP4Item", &FileHandle::removeMP4Item)
+        .function("getASFAttributes", &FileHandle::getASFAttributes)
+        .function("addASFAttribute", &FileHandle::addASFAttribute)
+        .function("removeASFAttributes", &FileHandle::removeASFAttributes)
+        .function("getRIFFInfo", &FileHandle::getRIFFInfo)
+        .function("setRIFFInfoField", &FileHandle::setRIFFInfoField)
+        .function("getAPEItems", &FileHandle::getAPEItems)
+        .function("setAPEItem", &FileHandle::setAPEItem)
+        .function("removeAPEItem", &FileHandle::removeAPEItem)
         .function("getTag", &FileHandle::getTag)
         .function("getAudioProperties", &FileHandle::getAudioProperties)
         .function("getBuffer", &FileHandle::getBuffer)
@@ -893,6 +2779,11 @@ EMSCRIPTEN_BINDINGS(taglib) {
         .function("setPictures", &FileHandle::setPictures)
         .function("addPicture", &FileHandle::addPicture)
         .function("removePictures", &FileHandle::removePictures)
+        .function("getID3v2Frames", &FileHandle::getID3v2Frames)
+        .function("addID3v2Frame", &FileHandle::addID3v2Frame)
+        .function("removeID3v2Frames", &FileHandle::removeID3v2Frames)
+        .function("getChapters", &FileHandle::getChapters)
+        .function("setChapters", &FileHandle::setChapters)
         .function("destroy", &FileHandle::destroy);
     
     // TagWrapper class
@@ -918,13 +2809,15 @@ EMSCRIPTEN_BINDINGS(taglib) {
         .constructor<>()
         .function("lengthInSeconds", &AudioPropertiesWrapper::lengthInSeconds)
         .function("lengthInMilliseconds", &AudioPropertiesWrapper::lengthInMilliseconds)
+        .function("totalSamples", &AudioPropertiesWrapper::totalSamples)
         .function("bitrate", &AudioPropertiesWrapper::bitrate)
         .function("sampleRate", &AudioPropertiesWrapper::sampleRate)
         .function("channels", &AudioPropertiesWrapper::channels)
         .function("bitsPerSample", &AudioPropertiesWrapper::bitsPerSample)
         .function("codec", &AudioPropertiesWrapper::codec)
         .function("isLossless", &AudioPropertiesWrapper::isLossless)
-        .function("containerFormat", &AudioPropertiesWrapper::containerFormat);
+        .function("containerFormat", &AudioPropertiesWrapper::containerFormat)
+        .function("details", &AudioPropertiesWrapper::details);
     
     // PictureWrapper class
     class_<PictureWrapper>("PictureWrapper")
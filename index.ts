@@ -82,6 +82,8 @@ export {
  * @see {@link updateTags} - Update metadata and save to disk
  * @see {@link writeTags} - Deprecated alias for applyTags
  * @see {@link readProperties} - Read audio properties
+ * @see {@link readPropertyValues} - Read every value of a metadata property
+ * @see {@link applyPropertyValues} - Replace every value of a metadata property
  * @see {@link readPictures} - Read cover art/pictures
  * @see {@link applyPictures} - Apply pictures to audio files
  * @see {@link getCoverArt} - Get primary cover art data
@@ -93,6 +95,7 @@ export {
 export {
   addPicture,
   applyPictures,
+  applyPropertyValues,
   applyTags,
   type BatchOptions,
   type BatchResult,
@@ -107,6 +110,7 @@ export {
   readPictures,
   readProperties,
   readPropertiesBatch,
+  readPropertyValues,
   readTags,
   readTagsBatch,
   replacePictureByType,
@@ -123,11 +127,17 @@ export {
  * @see {@link getPropertyMetadata} - Get property metadata
  * @see {@link getAllPropertyKeys} - Get all valid property keys
  * @see {@link getPropertiesByFormat} - Filter properties by format support
+ * @see {@link parsePropertyValue} - Parse a raw property string into its declared type
+ * @see {@link formatPropertyValue} - Serialize a typed property value
+ * @see {@link MP4_ATOMS} - iTunes MP4 atom names
+ * @see {@link mp4FreeformKey} - Build MP4 freeform atom keys
+ * @see {@link RIFF_INFO_IDS} - WAV RIFF INFO chunk IDs
  * @see {@link Tags} - Legacy tag name constants (deprecated)
  * @see {@link FormatMappings} - Format-specific field mappings (deprecated)
  */
 export {
   FormatMappings,
+  formatPropertyValue,
   getAllProperties,
   getAllPropertyKeys,
   getAllTagNames,
@@ -135,7 +145,11 @@ export {
   getPropertyMetadata,
   isValidProperty,
   isValidTagName,
+  MP4_ATOMS,
+  mp4FreeformKey,
+  parsePropertyValue,
   PROPERTIES,
+  RIFF_INFO_IDS,
   Tags,
 } from "./src/constants.ts";
 /**
@@ -156,6 +170,40 @@ export {
   savePictureToFile,
 } from "./src/file-utils.ts";
 
+/**
+ * Synchronized lyrics converters.
+ * @see {@link parseLRC} - Parse LRC text into synced lyrics
+ * @see {@link formatLRC} - Format synced lyrics as LRC text
+ * @see {@link isLRC} - Check whether text contains LRC timestamps
+ */
+export { formatLRC, isLRC, parseLRC } from "./src/lyrics.ts";
+
+/**
+ * iTunes gapless value converters.
+ * @see {@link parseITunSMPB} - Parse an `iTunSMPB` value into gapless info
+ * @see {@link formatITunSMPB} - Format gapless info as an `iTunSMPB` value
+ */
+export { formatITunSMPB, parseITunSMPB } from "./src/gapless.ts";
+
+/**
+ * Cross-format metadata transfer.
+ * @see {@link transferMetadata} - Copy properties and pictures between files
+ * @see {@link replayGainToR128} - Convert a ReplayGain value to an Opus gain
+ * @see {@link r128ToReplayGain} - Convert an Opus gain to a ReplayGain value
+ */
+export {
+  r128ToReplayGain,
+  replayGainToR128,
+  transferMetadata,
+} from "./src/metadata-transfer.ts";
+
+/**
+ * Streamed file access.
+ * @see {@link blobSource} - Stream a Blob or File in a Web Worker
+ * @see {@link AudioSource} - Random-access source for `TagLib.open()`
+ */
+export { type AudioSourceInput, blobSource } from "./src/audio-source.ts";
+
 /**
  * Folder/batch operations for processing multiple audio files.
  * @see {@link scanFolder} - Scan folder for audio files and read metadata
@@ -200,25 +248,111 @@ export {
  * @see {@link AudioProperties} - Audio technical properties
  * @see {@link PropertyKey} - Type-safe property keys with autocomplete
  * @see {@link PropertyValue} - Type-safe property values
+ * @see {@link ID3v2Frame} - Raw ID3v2 frame representation
+ * @see {@link MP4Item} - Typed MP4 metadata item
+ * @see {@link ASFAttribute} - Typed ASF (WMA) attribute
+ * @see {@link APEItem} - Typed APEv2 item
+ * @see {@link Chapter} - Chapter marker
+ * @see {@link SyncedLyrics} - Timestamped lyrics
  */
 export type {
+  APEAudioDetails,
+  APEBinaryItem,
+  APEItem,
+  APEItemBase,
+  APELocatorItem,
+  APETextItem,
+  ASFAttribute,
+  ASFAttributeBase,
+  ASFBoolAttribute,
+  ASFBytesAttribute,
+  ASFGuidAttribute,
+  ASFIntegerAttribute,
+  ASFPictureAttribute,
+  ASFStringAttribute,
   AudioFormat,
   AudioProperties,
+  AudioPropertiesDetails,
+  AudioSource,
+  BitrateControlMode,
+  BroadcastExtension,
+  Chapter,
   ExtendedTag,
   FieldMapping,
   FileType,
+  FLACAudioDetails,
+  GaplessInfo,
+  ID3v2CommentFrame,
+  ID3v2EventTimingCodesFrame,
+  ID3v2Frame,
+  ID3v2LyricsFrame,
+  ID3v2ObjectFrame,
+  ID3v2PictureFrame,
+  ID3v2PopularimeterFrame,
+  ID3v2PrivateFrame,
+  ID3v2SyncedLyricsFrame,
+  ID3v2TextFrame,
+  ID3v2UniqueFileIdentifierFrame,
+  ID3v2UnknownFrame,
+  ID3v2UrlFrame,
+  ID3v2UserTextFrame,
+  ID3v2UserUrlFrame,
+  ImportMetadataOptions,
+  MetadataChange,
+  MetadataChanges,
+  MetadataSnapshot,
+  MetadataTransferReport,
+  MP4AudioDetails,
+  MP4BinaryItem,
+  MP4BoolItem,
+  MP4CoverArt,
+  MP4CoverArtItem,
+  MP4IntegerItem,
+  MP4IntPairItem,
+  MP4Item,
+  MP4TextItem,
+  MPEGAudioDetails,
+  OpusAudioDetails,
   Picture,
   PropertyMap,
+  RatingOptions,
+  RIFFTagPlacement,
+  SaveOptions,
+  SaveResult,
+  SaveStrategy,
+  SaveToFileOptions,
+  SnapshotPicture,
+  SnapshotValue,
+  SyncedLyrics,
+  SyncedLyricsLine,
   Tag,
+  TagContainer,
   TagName,
+  TagType,
+  TransferMetadataOptions,
+  UnsavedEdit,
+  WAVAudioDetails,
+  WavPackAudioDetails,
+  WriteOptions,
 } from "./src/types.ts";
 
 export type { PropertyKey, PropertyValue } from "./src/constants.ts";
+export type {
+  APEItems,
+  ASFAttributes,
+  ID3v2Frames,
+  RIFFChunks,
+} from "./src/taglib.ts";
 
 /**
  * Enum exports
  */
-export { PictureType } from "./src/types.ts";
+export {
+  ID3v2TimestampFormat,
+  MP4ContentRating,
+  MP4MediaKind,
+  PictureType,
+} from "./src/types.ts";
 
 /**
  * Wasm module types for advanced usage.
@@ -23,8 +23,15 @@
 
 // Export Full API
 export { TagLib } from "./src/taglib.ts";
-export type { AudioFile, Tag } from "./src/taglib.ts";
-export type { AudioProperties } from "./src/types.ts";
+export type {
+  APEItems,
+  ASFAttributes,
+  AudioFile,
+  ID3v2Frames,
+  RIFFChunks,
+  Tag,
+} from "./src/taglib.ts";
+export type { AudioProperties, AudioPropertiesDetails } from "./src/types.ts";
 
 // Export Simple API
 export * from "./src/simple.ts";
@@ -56,8 +63,51 @@ export {
 export { AudioFileWorkers, TagLibWorkers } from "./src/workers.ts";
 
 // Export additional types
-export { PictureType } from "./src/types.ts";
-export type { ExtendedTag, Picture, PropertyMap } from "./src/types.ts";
+export {
+  ID3v2TimestampFormat,
+  MP4ContentRating,
+  MP4MediaKind,
+  PictureType,
+} from "./src/types.ts";
+export type {
+  APEItem,
+  ASFAttribute,
+  AudioSource,
+  BroadcastExtension,
+  Chapter,
+  ExtendedTag,
+  GaplessInfo,
+  ID3v2Frame,
+  MetadataChanges,
+  MetadataSnapshot,
+  MetadataTransferReport,
+  MP4Item,
+  Picture,
+  PropertyMap,
+  RatingOptions,
+  SaveOptions,
+  SaveResult,
+  SaveStrategy,
+  SaveToFileOptions,
+  SyncedLyrics,
+  TagContainer,
+  TagType,
+  TransferMetadataOptions,
+  UnsavedEdit,
+  WriteOptions,
+} from "./src/types.ts";
+
+// Export lyrics converters
+export { formatLRC, isLRC, parseLRC } from "./src/lyrics.ts";
+
+// Export gapless value converters
+export { formatITunSMPB, parseITunSMPB } from "./src/gapless.ts";
+
+// Export cross-format metadata transfer
+export { transferMetadata } from "./src/metadata-transfer.ts";
+
+// Export streamed file access
+export { type AudioSourceInput, blobSource } from "./src/audio-source.ts";
 
 // Export constants
 export { SUPPORTED_FORMATS } from "./src/errors.ts";
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Random-access sources for streamed file access
+ *
+ * TagLib reads and writes through synchronous calls, so these adapters use
+ * the synchronous file APIs of each runtime: `fs.readSync()` and friends on
+ * the descriptor of a Node.js `FileHandle`, `readSync()`/`seekSync()` on a
+ * Deno `FsFile`, and `FileReaderSync` for Blobs in Web Workers.
+ */
+
+import type { AudioSource } from "./types.ts";
+import { EnvironmentError } from "./errors.ts";
+
+/** The parts of a Node.js `fs.promises.FileHandle` used for streaming */
+export interface NodeFileHandle {
+  readonly fd: number;
+  read(...args: any[]): Promise<unknown>;
+}
+
+/** The parts of a Deno `FsFile` used for streaming */
+export interface DenoFsFile {
+  readSync(buffer: Uint8Array): number | null;
+  writeSync(data: Uint8Array): number;
+  seekSync(offset: number, whence: number): number;
+  truncateSync(length?: number): void;
+  statSync(): { size: number };
+}
+
+/** Inputs `TagLib.open()` reads through an AudioSource */
+export type AudioSourceInput = AudioSource | NodeFileHandle | DenoFsFile;
+
+/** `Deno.SeekMode.Start` */
+const SEEK_START = 0;
+
+function isObject(input: unknown): input is object {
+  return typeof input === "object" && input !== null;
+}
+
+function isAudioSource(input: unknown): input is AudioSource {
+  return isObject(input) &&
+    "read" in input && typeof input.read === "function" &&
+    "size" in input && typeof input.size === "number";
+}
+
+function isDenoFsFile(input: unknown): input is DenoFsFile {
+  return isObject(input) &&
+    "readSync" in input && typeof input.readSync === "function" &&
+    "seekSync" in input && typeof input.seekSync === "function" &&
+    "statSync" in input && typeof input.statSync === "function";
+}
+
+function isNodeFileHandle(input: unknown): input is NodeFileHandle {
+  return isObject(input) &&
+    "fd" in input && typeof input.fd === "number" &&
+    "read" in input && typeof input.read === "function";
+}
+
+/** Read until `length` bytes are filled or `readAt` reports the end */
+function readFully(
+  length: number,
+  readAt: (data: Uint8Array, filled: number) => number | null,
+): Uint8Array {
+  const data = new Uint8Array(length);
+  let filled = 0;
+  while (filled < length) {
+    const count = readAt(data, filled);
+    if (!count) break;
+    filled += count;
+  }
+  return data.subarray(0, filled);
+}
+
+function fromDenoFsFile(file: DenoFsFile): AudioSource {
+  return {
+    get size() {
+      return file.statSync().size;
+    },
+    read(offset, length) {
+      file.seekSync(offset, SEEK_START);
+      return readFully(
+        length,
+        (data, filled) => file.readSync(data.subarray(filled)),
+      );
+    },
+    write(offset, data) {
+      file.seekSync(offset, SEEK_START);
+      for (let written = 0; written < data.length;) {
+        written += file.writeSync(data.subarray(written));
+      }
+    },
+    truncate(length) {
+      file.truncateSync(length);
+    },
+  };
+}
+
+async function fromNodeFileHandle(
+  handle: NodeFileHandle,
+): Promise<AudioSource> {
+  const fs = await import("fs");
+  const { fd } = handle;
+  return {
+    get size() {
+      return fs.fstatSync(fd).size;
+    },
+    read(offset, length) {
+      return readFully(
+        length,
+        (data, filled) =>
+          fs.readSync(fd, data, filled, length - filled, offset + filled),
+      );
+    },
+    write(offset, data) {
+      for (let written = 0; written < data.length;) {
+        written += fs.writeSync(
+          fd,
+          data,
+          written,
+          data.length - written,
+          offset + written,
+        );
+      }
+    },
+    truncate(length) {
+      fs.ftruncateSync(fd, length);
+    },
+  };
+}
+
+/**
+ * Read a buffer like a source. Sources of streamed files are returned as
+ * they are, so helpers taking either only read the parts they need.
+ */
+export function asAudioSource(data: Uint8Array | AudioSource): AudioSource {
+  if (!(data instanceof Uint8Array)) return data;
+  return {
+    size: data.length,
+    read: (offset, length) => data.subarray(offset, offset + length),
+  };
+}
+
+/**
+ * Stream a Blob or File instead of loading it into memory. Blobs can only
+ * be read synchronously in Web Workers, and the source is read-only.
+ *
+ * @param blob - Blob or File to read
+ * @returns Source for `TagLib.open()`
+ * @throws {EnvironmentError} If `FileReaderSync` is not available
+ *
+ * @example
+ * ```typescript
+ * // In a Web Worker
+ * const file = await taglib.open(blobSource(droppedFile));
+ * console.log(file.tag().title);
+ * ```
+ */
+export function blobSource(blob: Blob): AudioSource {
+  const FileReaderSync = (globalThis as any).FileReaderSync;
+  if (typeof FileReaderSync !== "function") {
+    throw new EnvironmentError(
+      "Browser",
+      "cannot read Blobs synchronously outside Web Workers",
+      "FileReaderSync",
+    );
+  }
+
+  const reader = new FileReaderSync();
+  return {
+    size: blob.size,
+    name: (blob as File).name,
+    read: (offset, length) =>
+      new Uint8Array(
+        reader.readAsArrayBuffer(blob.slice(offset, offset + length)),
+      ),
+  };
+}
+
+/**
+ * Wrap an open file of any runtime as an AudioSource.
+ *
+ * @param input - Value passed to `TagLib.open()`
+ * @returns Source, or undefined if the input is a path or a buffer
+ */
+export async function createAudioSource(
+  input: unknown,
+): Promise<AudioSource | undefined> {
+  if (isAudioSource(input)) return input;
+  if (isDenoFsFile(input)) return fromDenoFsFile(input);
+  if (isNodeFileHandle(input)) return await fromNodeFileHandle(input);
+  return undefined;
+}
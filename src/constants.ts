@@ -1,3 +1,5 @@
+import { MetadataError } from "./errors.ts";
+
 /**
  * Comprehensive property definitions with metadata for all supported audio metadata fields.
  * This is the single source of truth for all property information including descriptions,
@@ -13,9 +15,9 @@
  * console.log(titleProp.type);        // "string"
  * console.log(titleProp.supportedFormats); // ["ID3v2", "MP4", "Vorbis", "WAV"]
  *
- * // Use with typed methods
- * const title = file.getProperty('TITLE'); // TypeScript knows this returns string | undefined
- * file.setProperty('TRACK_NUMBER', 5);     // TypeScript knows this expects number
+ * // Use with typed accessors
+ * const title = file.get("TITLE"); // TypeScript knows this returns string | undefined
+ * file.set("TRACKNUMBER", 5);      // TypeScript knows this expects number
  * ```
  */
 export const PROPERTIES = {
@@ -71,7 +73,7 @@ export const PROPERTIES = {
   TRACKNUMBER: {
     key: "TRACKNUMBER",
     description: "The track number within the album",
-    type: "string" as const,
+    type: "number" as const,
     supportedFormats: ["ID3v2", "MP4", "Vorbis", "WAV"] as const,
     mappings: {
       id3v2: { frame: "TRCK" },
@@ -149,7 +151,7 @@ export const PROPERTIES = {
   DISCNUMBER: {
     key: "DISCNUMBER",
     description: "The disc number for multi-disc sets",
-    type: "string" as const,
+    type: "number" as const,
     supportedFormats: ["ID3v2", "MP4", "Vorbis"] as const,
     mappings: {
       id3v2: { frame: "TPOS" },
@@ -160,7 +162,7 @@ export const PROPERTIES = {
   BPM: {
     key: "BPM",
     description: "Beats per minute",
-    type: "string" as const,
+    type: "number" as const,
     supportedFormats: ["ID3v2", "MP4", "Vorbis"] as const,
     mappings: {
       id3v2: { frame: "TBPM" },
@@ -168,6 +170,17 @@ export const PROPERTIES = {
       mp4: "tmpo",
     },
   },
+  COMPILATION: {
+    key: "COMPILATION",
+    description: "Whether the track is part of a compilation",
+    type: "boolean" as const,
+    supportedFormats: ["ID3v2", "MP4", "Vorbis"] as const,
+    mappings: {
+      id3v2: { frame: "TCMP" },
+      vorbis: "COMPILATION",
+      mp4: "cpil",
+    },
+  },
 
   // Sorting Properties
   TITLESORT: {
@@ -417,11 +430,14 @@ export const PROPERTIES = {
   },
   LYRICS: {
     key: "LYRICS",
-    description: "Lyrics content",
+    description:
+      "Lyrics content (LRC text for synced lyrics in Vorbis and MP4)",
     type: "string" as const,
-    supportedFormats: ["Vorbis"] as const,
+    supportedFormats: ["ID3v2", "MP4", "Vorbis"] as const,
     mappings: {
+      id3v2: { frame: "USLT" },
       vorbis: "LYRICS",
+      mp4: "©lyr",
     },
   },
   ISRC: {
@@ -544,7 +560,8 @@ export type PropertyKey = keyof typeof PROPERTIES;
 
 /**
  * Type representing the property value type based on the property definition.
- * Currently all properties are strings, but this allows for future expansion.
+ * Numeric properties (e.g., BPM, TRACKNUMBER) map to `number` and flags
+ * (e.g., COMPILATION) map to `boolean`; everything else is a `string`.
  */
 export type PropertyValue<K extends PropertyKey> =
   typeof PROPERTIES[K]["type"] extends "string" ? string
@@ -572,6 +589,103 @@ export function getPropertyMetadata<K extends PropertyKey>(key: K) {
   return PROPERTIES[key];
 }
 
+/**
+ * Parse a raw property string into the type declared for the property.
+ *
+ * Numeric values are non-negative integers; values stored as "N/TOTAL"
+ * (e.g., "5/12" for TRACKNUMBER) yield the leading number.
+ *
+ * @param key - Property key from PROPERTIES
+ * @param raw - Raw string value as stored in the file
+ * @returns Parsed value
+ * @throws {MetadataError} If the stored value cannot be parsed
+ */
+export function parsePropertyValue<K extends PropertyKey>(
+  key: K,
+  raw: string,
+): PropertyValue<K> {
+  const type = PROPERTIES[key].type;
+
+  if (type === "number") {
+    const match = /^(\d+)(?:\/\d+)?$/.exec(raw.trim());
+    const value = match ? Number(match[1]) : NaN;
+    if (!Number.isSafeInteger(value)) {
+      throw new MetadataError(
+        "read",
+        `Stored value "${raw}" is not a valid number`,
+        key,
+      );
+    }
+    return value as PropertyValue<K>;
+  }
+
+  if (type === "boolean") {
+    const normalized = raw.trim().toLowerCase();
+    if (["1", "true", "yes"].includes(normalized)) {
+      return true as PropertyValue<K>;
+    }
+    if (["0", "false", "no", ""].includes(normalized)) {
+      return false as PropertyValue<K>;
+    }
+    throw new MetadataError(
+      "read",
+      `Stored value "${raw}" is not a valid boolean`,
+      key,
+    );
+  }
+
+  return raw as PropertyValue<K>;
+}
+
+/**
+ * Serialize a typed property value into the string stored in the file.
+ *
+ * @param key - Property key from PROPERTIES
+ * @param value - Value matching the type declared for the property
+ * @param current - Current raw value; a "/TOTAL" suffix on numeric values is kept
+ * @returns String representation to store
+ * @throws {MetadataError} If the value does not match the declared type
+ */
+export function formatPropertyValue<K extends PropertyKey>(
+  key: K,
+  value: PropertyValue<K>,
+  current?: string,
+): string {
+  const type = PROPERTIES[key].type;
+
+  if (type === "number") {
+    if (!Number.isSafeInteger(value) || (value as number) < 0) {
+      throw new MetadataError(
+        "write",
+        `Expected a non-negative integer, got ${String(value)}`,
+        key,
+      );
+    }
+    const slash = current?.indexOf("/") ?? -1;
+    return slash >= 0 ? `${value}${current!.slice(slash)}` : String(value);
+  }
+
+  if (type === "boolean") {
+    if (typeof value !== "boolean") {
+      throw new MetadataError(
+        "write",
+        `Expected a boolean, got ${String(value)}`,
+        key,
+      );
+    }
+    return value ? "1" : "0";
+  }
+
+  if (typeof value !== "string") {
+    throw new MetadataError(
+      "write",
+      `Expected a string, got ${String(value)}`,
+      key,
+    );
+  }
+  return value;
+}
+
 /**
  * Get all available property keys as an array
  */
@@ -672,3 +786,121 @@ export const FormatMappings = {
     riff: "ITRK",
   },
 } as const;
+
+/**
+ * iTunes MP4 atom names for items that have no property mapping, for use
+ * with `AudioFile.getMP4TypedItem()` and `setMP4TypedItem()`.
+ *
+ * @example
+ * ```typescript
+ * file.setMP4TypedItem({ key: MP4_ATOMS.tvShow, kind: "text", value: ["Show"] });
+ * file.setMP4TypedItem({ key: MP4_ATOMS.tvEpisode, kind: "uint", value: 3 });
+ * ```
+ */
+export const MP4_ATOMS = {
+  /** Media kind (byte, see MP4MediaKind) */
+  mediaKind: "stik",
+  /** Gapless playback (bool) */
+  gapless: "pgap",
+  /** Content advisory (byte, see MP4ContentRating) */
+  contentRating: "rtng",
+  /** Compilation (bool) */
+  compilation: "cpil",
+  /** Podcast flag (bool) */
+  podcast: "pcst",
+  /** Track number and total (intPair) */
+  track: "trkn",
+  /** Disc number and total (intPair) */
+  disc: "disk",
+  /** Tempo in BPM (int) */
+  tempo: "tmpo",
+  /** Cover art (covers) */
+  coverArt: "covr",
+  /** TV show name (text) */
+  tvShow: "tvsh",
+  /** TV network (text) */
+  tvNetwork: "tvnn",
+  /** TV episode ID, e.g. "S01E03" (text) */
+  tvEpisodeId: "tven",
+  /** TV season number (uint) */
+  tvSeason: "tvsn",
+  /** TV episode number (uint) */
+  tvEpisode: "tves",
+  /** Description (text) */
+  description: "desc",
+  /** Long description (text) */
+  longDescription: "ldes",
+  /** iTunes Store account type (byte) */
+  accountKind: "akID",
+  /** iTunes Store content ID (uint) */
+  contentId: "cnID",
+  /** iTunes Store artist ID (uint) */
+  artistId: "atID",
+  /** iTunes Store playlist ID (longlong) */
+  playlistId: "plID",
+  /** iTunes Store genre ID (uint) */
+  genreId: "geID",
+  /** iTunes Store country ID (uint) */
+  storefrontId: "sfID",
+  /** HD video flag (int) */
+  hdVideo: "hdvd",
+} as const;
+
+/**
+ * Build the key of an MP4 freeform (`----`) atom.
+ *
+ * @param name - Atom name, e.g. "MusicBrainz Track Id"
+ * @param mean - Reverse-DNS namespace of the atom
+ * @returns Key of the form `----:<mean>:<name>`
+ *
+ * @example
+ * ```typescript
+ * mp4FreeformKey("iTunSMPB"); // "----:com.apple.iTunes:iTunSMPB"
+ * mp4FreeformKey("CATALOG", "org.example"); // "----:org.example:CATALOG"
+ * ```
+ */
+export function mp4FreeformKey(
+  name: string,
+  mean: string = "com.apple.iTunes",
+): string {
+  return `----:${mean}:${name}`;
+}
+
+/**
+ * RIFF `LIST/INFO` chunk IDs of WAV files, for use with
+ * `AudioFile.riff().getInfo()` and `setInfo()`. The IDs follow TagLib's
+ * property mapping, so most of them are also reachable as properties.
+ *
+ * @example
+ * ```typescript
+ * file.riff().setInfo(RIFF_INFO_IDS.engineer, "J. Smith");
+ * file.riff().setInfo(RIFF_INFO_IDS.software, "My DAW 2.1");
+ * ```
+ */
+export const RIFF_INFO_IDS = {
+  title: "INAM",
+  artist: "IART",
+  album: "IPRD",
+  comment: "ICMT",
+  genre: "IGNR",
+  date: "ICRD",
+  trackNumber: "IPRT",
+  composer: "IMUS",
+  lyricist: "IWRI",
+  copyright: "ICOP",
+  /** Mapped to ARRANGER by TagLib */
+  engineer: "IENG",
+  /** Mapped to ENCODEDBY by TagLib */
+  technician: "ITCH",
+  /** Mapped to ENCODING by TagLib */
+  software: "ISFT",
+  isrc: "ISRC",
+  label: "IPUB",
+  language: "ILNG",
+  medium: "IMED",
+  performer: "ISTR",
+  subject: "ISBJ",
+  keywords: "IKEY",
+  commissioned: "ICMS",
+  archivalLocation: "IARL",
+} as const;
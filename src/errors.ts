@@ -11,7 +11,23 @@ export const SUPPORTED_FORMATS = [
   "M4A",
   "FLAC",
   "OGG",
+  "OPUS",
+  "SPEEX",
+  "OGGFLAC",
   "WAV",
+  "AIFF",
+  "ASF",
+  "APE",
+  "WAVPACK",
+  "MPC",
+  "TTA",
+  "DSF",
+  "DSDIFF",
+  "SHORTEN",
+  "MOD",
+  "IT",
+  "S3M",
+  "XM",
 ] as const;
 
 /**
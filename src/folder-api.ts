@@ -96,18 +96,35 @@ export interface FolderScanResult {
  */
 const DEFAULT_AUDIO_EXTENSIONS = [
   ".mp3",
+  ".mp2",
+  ".aac",
   ".m4a",
+  ".m4b",
+  ".m4p",
+  ".m4r",
   ".mp4",
   ".flac",
   ".ogg",
   ".oga",
   ".opus",
+  ".spx",
   ".wav",
+  ".aif",
+  ".aiff",
+  ".aifc",
+  ".wma",
+  ".asf",
   ".wv",
   ".ape",
   ".mpc",
   ".tta",
-  ".wma",
+  ".dsf",
+  ".dff",
+  ".shn",
+  ".mod",
+  ".it",
+  ".s3m",
+  ".xm",
 ];
 
 /**
@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Gapless playback information
+ *
+ * Encoders add silence before (encoder delay) and after (padding) the audio
+ * of MP3 and AAC streams. The amounts are stored in the LAME tag of the
+ * first MP3 frame and in the iTunes `iTunSMPB` value, which is an ID3v2
+ * comment in MP3 files and a freeform atom in MP4 files.
+ *
+ * All values are counted in decoded samples per channel. LAME tags store
+ * the delay without the 529 samples added by every Layer III decoder; these
+ * helpers include them, so both sources report the same numbers.
+ */
+
+import type { AudioSource, GaplessInfo } from "./types.ts";
+import { MetadataError } from "./errors.ts";
+
+/** Freeform MP4 key of the iTunes gapless value */
+export const ITUNSMPB_MP4_KEY = "----:com.apple.iTunes:iTunSMPB";
+
+/** ID3v2 comment description of the iTunes gapless value */
+export const ITUNSMPB_DESCRIPTION = "iTunSMPB";
+
+/** Samples of delay added by MPEG Layer III decoders */
+export const MP3_DECODER_DELAY = 529;
+
+/** Largest delay or padding a LAME tag can hold (12 bits) */
+const LAME_MAX_SAMPLES = 0xfff;
+
+/** Bytes after the ID3v2 tag read from streamed files to find the LAME tag */
+const LAME_SEARCH_LENGTH = 4096;
+
+/** Encoder strings that start a LAME-compatible tag */
+const LAME_ENCODERS = ["LAME", "Lavc", "Lavf"];
+
+interface LAMETag {
+  /** Offset of the first MPEG frame */
+  frameOffset: number;
+  /** Offset of the LAME tag within the buffer */
+  tagOffset: number;
+  /** Number of audio frames from the Xing header */
+  frames: number;
+  samplesPerFrame: number;
+}
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function uint32(data: Uint8Array, offset: number): number {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength)
+    .getUint32(offset);
+}
+
+/** CRC-16 with polynomial 0x8005, reflected, as used by the LAME tag */
+function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc;
+}
+
+/** End of a leading ID3v2 tag, or 0 if the file starts without one */
+function id3v2End(data: Uint8Array): number {
+  if (data.length < 10 || ascii(data, 0, 3) !== "ID3") return 0;
+  const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+  return 10 + size + (data[5] & 0x10 ? 10 : 0);
+}
+
+/**
+ * Locate the LAME tag in the Xing/Info header of the first MPEG Layer III
+ * frame, skipping a leading ID3v2 tag.
+ */
+function locateLAMETag(data: Uint8Array): LAMETag | undefined {
+  let offset = id3v2End(data);
+
+  // The Xing header sits in the first frame, which directly follows the tag
+  while (
+    offset + 4 <= data.length &&
+    !(data[offset] === 0xff && (data[offset + 1] & 0xe0) === 0xe0)
+  ) {
+    offset++;
+  }
+  if (offset + 4 > data.length) return undefined;
+
+  const version = (data[offset + 1] >> 3) & 3; // 3 = MPEG-1
+  const layer = (data[offset + 1] >> 1) & 3; // 1 = Layer III
+  const mono = data[offset + 3] >> 6 === 3;
+  if (layer !== 1 || version === 1) return undefined;
+
+  const sideInfo = version === 3 ? (mono ? 17 : 32) : (mono ? 9 : 17);
+  const xing = offset + 4 + sideInfo;
+  if (xing + 8 > data.length) return undefined;
+  const id = ascii(data, xing, 4);
+  if (id !== "Xing" && id !== "Info") return undefined;
+
+  const flags = uint32(data, xing + 4);
+  if (!(flags & 1)) return undefined;
+  const frames = uint32(data, xing + 8);
+  const tagOffset = xing + 12 + (flags & 2 ? 4 : 0) + (flags & 4 ? 100 : 0) +
+    (flags & 8 ? 4 : 0);
+  if (
+    tagOffset + 36 > data.length ||
+    !LAME_ENCODERS.includes(ascii(data, tagOffset, 4))
+  ) {
+    return undefined;
+  }
+
+  return {
+    frameOffset: offset,
+    tagOffset,
+    frames,
+    samplesPerFrame: version === 3 ? 1152 : 576,
+  };
+}
+
+/**
+ * Read the start of a streamed MP3 file: the ID3v2 tag and enough of the
+ * audio data to hold the LAME tag. The helpers below accept the result in
+ * place of the complete file buffer.
+ *
+ * @param source - Source of the MP3 file
+ * @returns The first bytes of the file
+ */
+export function readMP3Head(source: AudioSource): Uint8Array {
+  const end = id3v2End(source.read(0, Math.min(10, source.size))) +
+    LAME_SEARCH_LENGTH;
+  return source.read(0, Math.min(end, source.size));
+}
+
+/**
+ * Read gapless information from the LAME tag of an MP3 file.
+ *
+ * @param data - MP3 file buffer
+ * @returns Gapless information, or undefined if the file has no LAME tag
+ */
+export function readLAMEGapless(data: Uint8Array): GaplessInfo | undefined {
+  const lame = locateLAMETag(data);
+  if (!lame) return undefined;
+
+  const offset = lame.tagOffset + 21;
+  const delay = (data[offset] << 4) | (data[offset + 1] >> 4);
+  const padding = ((data[offset + 1] & 0x0f) << 8) | data[offset + 2];
+
+  const encoderDelay = delay + MP3_DECODER_DELAY;
+  const encoderPadding = Math.max(0, padding - MP3_DECODER_DELAY);
+  return {
+    encoderDelay,
+    encoderPadding,
+    validSamples: Math.max(
+      0,
+      lame.frames * lame.samplesPerFrame - encoderDelay - encoderPadding,
+    ),
+  };
+}
+
+/**
+ * Store encoder delay and padding in the LAME tag of an MP3 file and update
+ * the tag checksum. The number of valid samples follows from the frame
+ * count and is not written.
+ *
+ * @param data - MP3 file buffer
+ * @param info - Gapless information to store
+ * @returns New file buffer, or undefined if the file has no LAME tag
+ * @throws {MetadataError} If the values do not fit the LAME tag
+ */
+export function writeLAMEGapless(
+  data: Uint8Array,
+  info: GaplessInfo,
+): Uint8Array | undefined {
+  const lame = locateLAMETag(data);
+  if (!lame) return undefined;
+
+  for (const field of ["encoderDelay", "encoderPadding"] as const) {
+    if (!Number.isSafeInteger(info[field])) {
+      throw new MetadataError(
+        "write",
+        `Invalid ${field} ${info[field]}; expected a whole sample count`,
+        "gapless",
+      );
+    }
+  }
+
+  const delay = info.encoderDelay - MP3_DECODER_DELAY;
+  const padding = info.encoderPadding + MP3_DECODER_DELAY;
+  if (delay < 0 || delay > LAME_MAX_SAMPLES || padding > LAME_MAX_SAMPLES) {
+    throw new MetadataError(
+      "write",
+      `LAME tags hold an encoder delay of ${MP3_DECODER_DELAY}-${
+        LAME_MAX_SAMPLES + MP3_DECODER_DELAY
+      } and padding of 0-${
+        LAME_MAX_SAMPLES - MP3_DECODER_DELAY
+      } samples, got ${info.encoderDelay} and ${info.encoderPadding}`,
+      "gapless",
+    );
+  }
+
+  const out = data.slice();
+  const offset = lame.tagOffset + 21;
+  out[offset] = delay >> 4;
+  out[offset + 1] = ((delay & 0x0f) << 4) | (padding >> 8);
+  out[offset + 2] = padding & 0xff;
+
+  const crc = crc16(out.subarray(lame.frameOffset, lame.tagOffset + 34));
+  out[lame.tagOffset + 34] = crc >> 8;
+  out[lame.tagOffset + 35] = crc & 0xff;
+  return out;
+}
+
+/**
+ * Parse an iTunes `iTunSMPB` value: a list of hexadecimal fields of which
+ * the second to fourth hold delay, padding and the valid sample count.
+ *
+ * @param text - Stored value, e.g. " 00000000 00000840 000001C0 ..."
+ * @returns Gapless information, or undefined if the value is malformed
+ */
+export function parseITunSMPB(text: string): GaplessInfo | undefined {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length < 4 || !fields.every((f) => /^[0-9a-f]+$/i.test(f))) {
+    return undefined;
+  }
+  return {
+    encoderDelay: Number.parseInt(fields[1], 16),
+    encoderPadding: Number.parseInt(fields[2], 16),
+    validSamples: Number.parseInt(fields[3], 16),
+  };
+}
+
+/**
+ * Format gapless information as an iTunes `iTunSMPB` value.
+ *
+ * @param info - Gapless information to store
+ * @returns Value in the layout iTunes writes
+ * @throws {MetadataError} If a value is not a non-negative integer
+ */
+export function formatITunSMPB(info: GaplessInfo): string {
+  for (const [field, value] of Object.entries(info)) {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new MetadataError(
+        "write",
+        `Invalid ${field} ${value}; expected a non-negative sample count`,
+        "gapless",
+      );
+    }
+  }
+
+  const hex = (value: number, digits: number) =>
+    value.toString(16).toUpperCase().padStart(digits, "0");
+  return [
+    "",
+    hex(0, 8),
+    hex(info.encoderDelay, 8),
+    hex(info.encoderPadding, 8),
+    hex(info.validSamples, 16),
+    ...Array(8).fill(hex(0, 8)),
+  ].join(" ");
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Synchronized lyrics helpers
+ *
+ * Converts between the {@link SyncedLyrics} model and the LRC text format.
+ * LRC is used to store synced lyrics in Vorbis `LYRICS` comments and the MP4
+ * `©lyr` atom; ID3v2 files use SYLT frames instead.
+ *
+ * @example
+ * ```typescript
+ * const lyrics = parseLRC("[00:12.00]First line\n[00:17.20]Second line");
+ * console.log(lyrics.lines[1]); // { time: 17200, text: "Second line" }
+ *
+ * const lrc = formatLRC(lyrics);
+ * ```
+ */
+
+import type { SyncedLyrics, SyncedLyricsLine } from "./types.ts";
+
+const TIMESTAMP = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const LEADING_TIMESTAMPS = /^(?:\[\d+:\d{1,2}(?:[.:]\d{1,3})?\])+/;
+const METADATA_TAG = /^\[([a-z]+):(.*)\]$/i;
+
+function parseFraction(fraction: string | undefined): number {
+  if (!fraction) return 0;
+  // ".5" = 500ms, ".05" = 50ms, ".005" = 5ms
+  return Math.round(Number(fraction) * Math.pow(10, 3 - fraction.length));
+}
+
+/**
+ * Check whether text contains LRC timestamps.
+ *
+ * @param text - Lyrics text
+ * @returns true if at least one line starts with a `[mm:ss.xx]` timestamp
+ */
+export function isLRC(text: string): boolean {
+  return text.split(/\r?\n/).some((line) =>
+    LEADING_TIMESTAMPS.test(line.trim())
+  );
+}
+
+/**
+ * Parse LRC text into synchronized lyrics.
+ *
+ * Lines with several timestamps (`[00:12.00][01:30.00]Chorus`) produce one
+ * entry per timestamp. The `[offset:]` tag is applied to every timestamp and
+ * `[la:]` is used as the language. Lines are returned sorted by time.
+ *
+ * @param text - LRC formatted text
+ * @returns Parsed lyrics
+ */
+export function parseLRC(text: string): SyncedLyrics {
+  const lines: SyncedLyricsLine[] = [];
+  let offset = 0;
+  let language: string | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const leading = LEADING_TIMESTAMPS.exec(line);
+    if (!leading) {
+      const tag = METADATA_TAG.exec(line);
+      if (tag) {
+        const [, name, value] = tag;
+        if (name.toLowerCase() === "offset") {
+          offset = Number.parseInt(value.trim(), 10) || 0;
+        } else if (name.toLowerCase() === "la") {
+          language = value.trim();
+        }
+      }
+      continue;
+    }
+
+    const lyric = line.slice(leading[0].length).trim();
+
+    const timestamps = leading[0].matchAll(TIMESTAMP);
+    for (const [, minutes, seconds, fraction] of timestamps) {
+      lines.push({
+        time: Number(minutes) * 60000 + Number(seconds) * 1000 +
+          parseFraction(fraction),
+        text: lyric,
+      });
+    }
+  }
+
+  // A positive offset makes lyrics appear sooner
+  for (const line of lines) {
+    line.time = Math.max(0, line.time - offset);
+  }
+  lines.sort((a, b) => a.time - b.time);
+
+  return language ? { language, lines } : { lines };
+}
+
+function formatTimestamp(time: number): string {
+  const centiseconds = Math.round(time / 10);
+  const minutes = Math.floor(centiseconds / 6000);
+  const seconds = Math.floor(centiseconds / 100) % 60;
+  const fraction = centiseconds % 100;
+  return `[${String(minutes).padStart(2, "0")}:${
+    String(seconds).padStart(2, "0")
+  }.${String(fraction).padStart(2, "0")}]`;
+}
+
+/**
+ * Format synchronized lyrics as LRC text.
+ *
+ * @param lyrics - Lyrics to format
+ * @returns LRC text with one `[mm:ss.xx]` line per entry
+ */
+export function formatLRC(lyrics: SyncedLyrics): string {
+  const header = lyrics.language ? [`[la:${lyrics.language}]`] : [];
+  const lines = [...lyrics.lines]
+    .sort((a, b) => a.time - b.time)
+    .map((line) => `${formatTimestamp(line.time)}${line.text}`);
+  return [...header, ...lines].join("\n");
+}
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview JSON encoding of metadata snapshots
+ *
+ * Snapshots hold the complete metadata of a file as a JSON-compatible
+ * document. Byte arrays are stored as base64 so a snapshot survives
+ * `JSON.stringify()` and `JSON.parse()` unchanged.
+ */
+
+import type { MetadataSnapshot, SnapshotValue } from "./types.ts";
+import { MetadataError } from "./errors.ts";
+
+/** Version written by exportMetadata() */
+export const METADATA_SNAPSHOT_VERSION = 1;
+
+/** Bytes encoded per String.fromCharCode() call */
+const BASE64_CHUNK_SIZE = 0x8000;
+
+/**
+ * Encode bytes as base64.
+ *
+ * @param data - Bytes to encode
+ * @returns Base64 text
+ */
+export function encodeBase64(data: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < data.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...data.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 text.
+ *
+ * @param text - Base64 text
+ * @returns Decoded bytes
+ * @throws {MetadataError} If the text is not valid base64
+ */
+export function decodeBase64(text: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(text);
+  } catch {
+    throw new MetadataError("read", "Invalid base64 data in metadata snapshot");
+  }
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+  return data;
+}
+
+/**
+ * Convert a value to its snapshot form, encoding byte arrays as base64.
+ *
+ * @param value - Item, frame or attribute
+ * @returns JSON-compatible copy
+ */
+export function toSnapshotValue<T>(value: T): SnapshotValue<T> {
+  if (value instanceof Uint8Array) {
+    return { $base64: encodeBase64(value) } as SnapshotValue<T>;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toSnapshotValue) as SnapshotValue<T>;
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) result[key] = toSnapshotValue(entry);
+    }
+    return result as SnapshotValue<T>;
+  }
+  return value as SnapshotValue<T>;
+}
+
+/**
+ * Convert a value from its snapshot form, decoding base64 byte arrays.
+ *
+ * @param value - Value read from a snapshot
+ * @returns Value with byte arrays restored
+ */
+export function fromSnapshotValue<T>(value: SnapshotValue<T>): T {
+  if (Array.isArray(value)) {
+    return value.map(fromSnapshotValue) as T;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value);
+    if (
+      entries.length === 1 && entries[0][0] === "$base64" &&
+      typeof entries[0][1] === "string"
+    ) {
+      return decodeBase64(entries[0][1]) as T;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of entries) {
+      result[key] = fromSnapshotValue(entry);
+    }
+    return result as T;
+  }
+  return value as T;
+}
+
+/**
+ * Check that a parsed document is a snapshot this version can import.
+ *
+ * @param doc - Parsed snapshot
+ * @throws {MetadataError} If the document is not a supported snapshot
+ */
+export function validateSnapshot(doc: MetadataSnapshot): void {
+  if (!doc || typeof doc !== "object") {
+    throw new MetadataError("read", "Metadata snapshot must be an object");
+  }
+  if (doc.version !== METADATA_SNAPSHOT_VERSION) {
+    throw new MetadataError(
+      "read",
+      `Unsupported metadata snapshot version ${doc.version}; expected ${METADATA_SNAPSHOT_VERSION}`,
+      "version",
+    );
+  }
+  if (
+    !doc.properties || typeof doc.properties !== "object" ||
+    !Array.isArray(doc.pictures)
+  ) {
+    throw new MetadataError(
+      "read",
+      "Metadata snapshot needs properties and pictures",
+    );
+  }
+}
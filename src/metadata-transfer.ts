@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Copy metadata between files of different formats
+ *
+ * Metadata moves through TagLib's property interface, which maps each key to
+ * the native field of the destination format: MusicBrainz IDs become UFID
+ * and TXXX frames in ID3v2 and freeform atoms in MP4, for example. Opus
+ * files use R128 gain values relative to -23 LUFS instead of ReplayGain,
+ * which refers to roughly -18 LUFS, so gains are converted between the two.
+ */
+
+import type { AudioFile } from "./taglib.ts";
+import type {
+  MetadataTransferReport,
+  PropertyMap,
+  TransferMetadataOptions,
+} from "./types.ts";
+
+/** Offset between the ReplayGain and R128 reference levels in dB */
+const R128_OFFSET_DB = 5;
+
+/** ReplayGain keys and the Opus keys that replace them */
+const R128_KEYS: Record<string, string> = {
+  REPLAYGAIN_TRACK_GAIN: "R128_TRACK_GAIN",
+  REPLAYGAIN_ALBUM_GAIN: "R128_ALBUM_GAIN",
+};
+
+const REPLAYGAIN_KEYS: Record<string, string> = Object.fromEntries(
+  Object.entries(R128_KEYS).map(([replayGain, r128]) => [r128, replayGain]),
+);
+
+/**
+ * Convert a ReplayGain value such as "-6.54 dB" to an Opus R128 gain,
+ * a Q7.8 fixed-point number of dB.
+ *
+ * @param gain - ReplayGain value
+ * @returns R128 value, or undefined if the gain is not a number
+ */
+export function replayGainToR128(gain: string): string | undefined {
+  const db = Number.parseFloat(gain);
+  if (!Number.isFinite(db)) return undefined;
+  const value = Math.round((db - R128_OFFSET_DB) * 256);
+  return String(Math.max(-32768, Math.min(32767, value)));
+}
+
+/**
+ * Convert an Opus R128 gain to a ReplayGain value.
+ *
+ * @param gain - R128 value in Q7.8 fixed-point dB
+ * @returns ReplayGain value such as "-6.54 dB", or undefined if the gain
+ *   is not an integer
+ */
+export function r128ToReplayGain(gain: string): string | undefined {
+  if (!/^\s*-?\d+\s*$/.test(gain)) return undefined;
+  const db = Number.parseInt(gain, 10) / 256 + R128_OFFSET_DB;
+  return `${db.toFixed(2)} dB`;
+}
+
+function sameValues(a: string[] | undefined, b: string[]): boolean {
+  return !!a && a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/**
+ * Copy properties and pictures from one file to another, typically after
+ * transcoding. Properties the source has replace those of the destination;
+ * other destination properties are kept. The destination is not saved.
+ *
+ * @param source - File to copy from
+ * @param dest - File to copy to
+ * @param options - Pictures and keys to leave out
+ * @returns Which properties were transferred, converted or could not be
+ *   stored
+ *
+ * @example
+ * ```typescript
+ * const flac = await taglib.open("album/01.flac");
+ * const opus = await taglib.open("out/01.opus");
+ * const report = transferMetadata(flac, opus, { exclude: ["ENCODER"] });
+ * console.log(report.unmapped);
+ * opus.save();
+ * ```
+ */
+export function transferMetadata(
+  source: AudioFile,
+  dest: AudioFile,
+  options: TransferMetadataOptions = {},
+): MetadataTransferReport {
+  const exclude = new Set(options.exclude?.map((key) => key.toUpperCase()));
+  const toOpus = dest.getFormat() === "OPUS";
+  const fromOpus = source.getFormat() === "OPUS";
+
+  const properties = source.properties();
+  const wanted: PropertyMap = {};
+  const origin: Record<string, string> = {}; // destination key -> source key
+  const unmapped: PropertyMap = {};
+  for (const [key, values] of Object.entries(properties)) {
+    if (exclude.has(key)) continue;
+
+    let target = key;
+    let value: string | undefined;
+    if (toOpus && !fromOpus && key.startsWith("REPLAYGAIN_")) {
+      // Opus players ignore ReplayGain; peaks have no R128 equivalent
+      target = R128_KEYS[key];
+      value = target && replayGainToR128(values[0] ?? "");
+    } else if (fromOpus && !toOpus && REPLAYGAIN_KEYS[key]) {
+      target = REPLAYGAIN_KEYS[key];
+      value = r128ToReplayGain(values[0] ?? "");
+    }
+
+    if (target !== key && value === undefined) {
+      unmapped[key] = values;
+    } else {
+      wanted[target] = value === undefined ? values : [value];
+      origin[target] = key;
+    }
+  }
+
+  dest.setProperties({ ...dest.properties(), ...wanted });
+
+  // Compare with what the destination kept, as formats drop or rewrite keys
+  const stored = dest.properties();
+  const transferred: string[] = [];
+  const converted: Record<string, string> = {};
+  for (const [key, values] of Object.entries(wanted)) {
+    const sourceKey = origin[key];
+    if (!sameValues(stored[key], values)) {
+      unmapped[sourceKey] = properties[sourceKey];
+    } else if (sourceKey === key) {
+      transferred.push(key);
+    } else {
+      converted[sourceKey] = key;
+    }
+  }
+
+  let pictures = 0;
+  if (options.pictures !== false) {
+    const sourcePictures = source.getPictures();
+    if (sourcePictures.length > 0) {
+      dest.setPictures(sourcePictures);
+      pictures = dest.getPictures().length;
+    }
+  }
+
+  return { transferred, converted, unmapped, pictures };
+}
@@ -0,0 +1,897 @@
+/**
+ * @fileoverview MP4 chapter reading and writing
+ *
+ * TagLib only exposes the `ilst` metadata items of MP4 files, so chapters are
+ * read from and written to the file buffer directly. Two representations are
+ * supported:
+ *
+ * - Nero chapters: a `chpl` atom in `moov/udta`
+ * - QuickTime chapters: a text track referenced by the audio track through a
+ *   `tref/chap` atom, as used by audiobooks (.m4b) and Apple Podcasts
+ *
+ * Both are written on save. When reading, the QuickTime track wins because it
+ * carries exact end times.
+ */
+
+import type { AudioSource, Chapter } from "./types.ts";
+import { MetadataError } from "./errors.ts";
+import { asAudioSource } from "./audio-source.ts";
+
+/** Atoms whose payload is a plain list of child atoms */
+const CONTAINER_ATOMS = new Set([
+  "moov",
+  "trak",
+  "mdia",
+  "minf",
+  "stbl",
+  "udta",
+  "tref",
+  "edts",
+  "dinf",
+]);
+
+/** Timescale used for the chapter text track (milliseconds) */
+const CHAPTER_TIMESCALE = 1000;
+
+/** Nero chapter start times are stored in 100-nanosecond units */
+const NERO_UNITS_PER_MS = 10000;
+
+export interface AtomNode {
+  type: string;
+  /** Child atoms for containers */
+  children?: AtomNode[];
+  /** Payload (without the atom header) for leaf atoms */
+  payload?: Uint8Array;
+  /** Bytes after the last child, e.g. the 4-byte QuickTime udta terminator */
+  trailer?: Uint8Array;
+}
+
+export interface AtomLocation {
+  type: string;
+  offset: number;
+  size: number;
+  headerSize: number;
+}
+
+const encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder("utf-8");
+const utf16Decoder = new TextDecoder("utf-16be");
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function fourcc(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+export function locateAtoms(
+  data: Uint8Array,
+  start: number,
+  end: number,
+): AtomLocation[] | null {
+  const dv = view(data);
+  const atoms: AtomLocation[] = [];
+  let offset = start;
+
+  while (offset < end) {
+    if (offset + 8 > end) return null;
+
+    let size = dv.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) return null;
+      size = Number(dv.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) return null;
+
+    atoms.push({ type: fourcc(data, offset + 4), offset, size, headerSize });
+    offset += size;
+  }
+
+  return atoms;
+}
+
+export function parseAtom(data: Uint8Array, location: AtomLocation): AtomNode {
+  const start = location.offset + location.headerSize;
+  const end = location.offset + location.size;
+
+  if (CONTAINER_ATOMS.has(location.type)) {
+    // QuickTime may end a udta with a 32-bit zero terminator; containers
+    // with any other trailing garbage are kept verbatim
+    let childEnd = end;
+    let children = locateAtoms(data, start, end);
+    if (!children && end - start >= 4 && !view(data).getUint32(end - 4)) {
+      childEnd = end - 4;
+      children = locateAtoms(data, start, childEnd);
+    }
+    if (children) {
+      return {
+        type: location.type,
+        children: children.map((child) => parseAtom(data, child)),
+        ...(childEnd < end && { trailer: data.slice(childEnd, end) }),
+      };
+    }
+  }
+
+  return { type: location.type, payload: data.slice(start, end) };
+}
+
+export function atomSize(node: AtomNode): number {
+  let payloadSize = node.children
+    ? node.children.reduce((sum, child) => sum + atomSize(child), 0)
+    : node.payload!.length;
+  payloadSize += node.trailer?.length ?? 0;
+  return payloadSize + 8 > 0xFFFFFFFF ? payloadSize + 16 : payloadSize + 8;
+}
+
+export function serializeAtom(
+  node: AtomNode,
+  out: Uint8Array,
+  offset: number,
+): number {
+  const size = atomSize(node);
+  const dv = view(out);
+  let position = offset;
+
+  if (size > 0xFFFFFFFF) {
+    dv.setUint32(position, 1);
+    out.set(encoder.encode(node.type), position + 4);
+    dv.setBigUint64(position + 8, BigInt(size));
+    position += 16;
+  } else {
+    dv.setUint32(position, size);
+    out.set(encoder.encode(node.type), position + 4);
+    position += 8;
+  }
+
+  if (node.children) {
+    for (const child of node.children) {
+      position = serializeAtom(child, out, position);
+    }
+  } else {
+    out.set(node.payload!, position);
+    position += node.payload!.length;
+  }
+  if (node.trailer) {
+    out.set(node.trailer, position);
+    position += node.trailer.length;
+  }
+
+  return position;
+}
+
+function serialize(node: AtomNode): Uint8Array {
+  const out = new Uint8Array(atomSize(node));
+  serializeAtom(node, out, 0);
+  return out;
+}
+
+function leaf(type: string, payload: Uint8Array): AtomNode {
+  return { type, payload };
+}
+
+function container(type: string, children: AtomNode[]): AtomNode {
+  return { type, children };
+}
+
+export function child(
+  node: AtomNode | undefined,
+  type: string,
+): AtomNode | undefined {
+  return node?.children?.find((c) => c.type === type);
+}
+
+function path(node: AtomNode | undefined, ...types: string[]) {
+  return types.reduce<AtomNode | undefined>((n, type) => child(n, type), node);
+}
+
+function bytes(...parts: Array<number[] | Uint8Array>): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function u16(value: number): number[] {
+  return [(value >>> 8) & 0xff, value & 0xff];
+}
+
+function u32(value: number): number[] {
+  return [
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+function u64(value: number): number[] {
+  return [...u32(Math.floor(value / 0x100000000)), ...u32(value >>> 0)];
+}
+
+/** Read the timescale and duration of an `mvhd` or `mdhd` atom */
+function readHeaderTiming(
+  header: AtomNode | undefined,
+): { timescale: number; duration: number } | null {
+  if (!header?.payload || header.payload.length < 20) return null;
+  const dv = view(header.payload);
+  if (header.payload[0] === 1) {
+    return {
+      timescale: dv.getUint32(20),
+      duration: Number(dv.getBigUint64(24)),
+    };
+  }
+  return { timescale: dv.getUint32(12), duration: dv.getUint32(16) };
+}
+
+function trackId(trak: AtomNode): number | undefined {
+  const tkhd = child(trak, "tkhd")?.payload;
+  if (!tkhd || tkhd.length < 24) return undefined;
+  return view(tkhd).getUint32(tkhd[0] === 1 ? 20 : 12);
+}
+
+function handlerType(trak: AtomNode): string | undefined {
+  const hdlr = path(trak, "mdia", "hdlr")?.payload;
+  return hdlr && hdlr.length >= 12 ? fourcc(hdlr, 8) : undefined;
+}
+
+function chapterTrackIds(audioTrak: AtomNode): number[] {
+  const chap = path(audioTrak, "tref", "chap")?.payload;
+  if (!chap) return [];
+  const dv = view(chap);
+  const ids: number[] = [];
+  for (let i = 0; i + 4 <= chap.length; i += 4) {
+    ids.push(dv.getUint32(i));
+  }
+  return ids;
+}
+
+function findAudioTrak(moov: AtomNode): AtomNode | undefined {
+  return moov.children!.find((c) =>
+    c.type === "trak" && handlerType(c) === "soun"
+  );
+}
+
+/** Parse the `moov` atom, reading only the top-level atom headers and moov */
+function readMoov(file: AudioSource): AtomNode | null {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = file.read(offset, Math.min(16, file.size - offset));
+    const dv = view(header);
+
+    let size = dv.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      if (header.length < 16) return null;
+      size = Number(dv.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize || offset + size > file.size) return null;
+
+    if (fourcc(header, 4) === "moov") {
+      const data = file.read(offset, size);
+      return parseAtom(data, { type: "moov", offset: 0, size, headerSize });
+    }
+    offset += size;
+  }
+  return null;
+}
+
+function decodeSampleText(sample: Uint8Array): string {
+  if (sample.length < 2) return "";
+  const length = Math.min((sample[0] << 8) | sample[1], sample.length - 2);
+  const text = sample.subarray(2, 2 + length);
+  if (text.length >= 2 && text[0] === 0xfe && text[1] === 0xff) {
+    return utf16Decoder.decode(text.subarray(2));
+  }
+  return utf8Decoder.decode(text);
+}
+
+/** The text track referenced by the audio track's `tref/chap` atom */
+function findChapterTrak(moov: AtomNode): AtomNode | undefined {
+  const audioTrak = findAudioTrak(moov);
+  if (!audioTrak) return undefined;
+
+  const [chapterId] = chapterTrackIds(audioTrak);
+  return moov.children!.find((c) =>
+    c.type === "trak" && trackId(c) === chapterId
+  );
+}
+
+interface SampleTable {
+  timescale: number;
+  durations: number[];
+  sizes: number[];
+  /** File offset of each sample */
+  offsets: number[];
+}
+
+function readSampleTable(trak: AtomNode): SampleTable | null {
+  const timing = readHeaderTiming(path(trak, "mdia", "mdhd"));
+  const stbl = path(trak, "mdia", "minf", "stbl");
+  const stts = child(stbl, "stts")?.payload;
+  const stsz = child(stbl, "stsz")?.payload;
+  const stsc = child(stbl, "stsc")?.payload;
+  const stco = child(stbl, "stco")?.payload;
+  const co64 = child(stbl, "co64")?.payload;
+  if (!timing?.timescale || !stts || !stsz || !stsc || !(stco || co64)) {
+    return null;
+  }
+
+  // Sample durations
+  const durations: number[] = [];
+  const sttsView = view(stts);
+  for (let i = 0, n = sttsView.getUint32(4); i < n; i++) {
+    const count = sttsView.getUint32(8 + i * 8);
+    const delta = sttsView.getUint32(12 + i * 8);
+    for (let j = 0; j < count; j++) durations.push(delta);
+  }
+
+  // Sample sizes
+  const stszView = view(stsz);
+  const fixedSize = stszView.getUint32(4);
+  const sampleCount = stszView.getUint32(8);
+  const sizes: number[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    sizes.push(fixedSize || stszView.getUint32(12 + i * 4));
+  }
+
+  // Chunk offsets
+  const chunkOffsets: number[] = [];
+  if (co64) {
+    const dv = view(co64);
+    for (let i = 0, n = dv.getUint32(4); i < n; i++) {
+      chunkOffsets.push(Number(dv.getBigUint64(8 + i * 8)));
+    }
+  } else {
+    const dv = view(stco!);
+    for (let i = 0, n = dv.getUint32(4); i < n; i++) {
+      chunkOffsets.push(dv.getUint32(8 + i * 4));
+    }
+  }
+
+  // Map samples to chunks
+  const stscView = view(stsc);
+  const stscEntries: Array<{ firstChunk: number; perChunk: number }> = [];
+  for (let i = 0, n = stscView.getUint32(4); i < n; i++) {
+    stscEntries.push({
+      firstChunk: stscView.getUint32(8 + i * 12),
+      perChunk: stscView.getUint32(12 + i * 12),
+    });
+  }
+
+  const sampleOffsets: number[] = [];
+  for (let chunk = 0; chunk < chunkOffsets.length; chunk++) {
+    let perChunk = 0;
+    for (const entry of stscEntries) {
+      if (entry.firstChunk <= chunk + 1) perChunk = entry.perChunk;
+    }
+    let offset = chunkOffsets[chunk];
+    for (let i = 0; i < perChunk; i++) {
+      if (sampleOffsets.length >= sizes.length) break;
+      sampleOffsets.push(offset);
+      offset += sizes[sampleOffsets.length - 1];
+    }
+  }
+
+  return {
+    timescale: timing.timescale,
+    durations,
+    sizes,
+    offsets: sampleOffsets,
+  };
+}
+
+/** Read chapters from a QuickTime chapter text track */
+function readTextTrackChapters(
+  file: AudioSource,
+  moov: AtomNode,
+): Chapter[] | null {
+  const textTrak = findChapterTrak(moov);
+  const table = textTrak && readSampleTable(textTrak);
+  if (!table) return null;
+
+  const { timescale, durations, sizes, offsets } = table;
+  const chapters: Chapter[] = [];
+  let time = 0;
+  for (let i = 0; i < offsets.length && i < durations.length; i++) {
+    const sample = offsets[i] < file.size
+      ? file.read(offsets[i], Math.min(sizes[i], file.size - offsets[i]))
+      : new Uint8Array(0);
+    const startTime = Math.round(time * 1000 / timescale);
+    time += durations[i];
+    chapters.push({
+      startTime,
+      endTime: Math.round(time * 1000 / timescale),
+      title: decodeSampleText(sample),
+    });
+  }
+
+  return chapters;
+}
+
+/** Read chapters from a Nero `chpl` atom */
+function readNeroChapters(moov: AtomNode): Chapter[] | null {
+  const chpl = path(moov, "udta", "chpl")?.payload;
+  if (!chpl || chpl.length < 5) return null;
+
+  const dv = view(chpl);
+  let position = chpl[0] === 1 ? 8 : 4;
+  const count = chpl[position++];
+  const starts: Array<{ startTime: number; title: string }> = [];
+
+  for (let i = 0; i < count && position + 9 <= chpl.length; i++) {
+    const start = Number(dv.getBigUint64(position));
+    const titleLength = chpl[position + 8];
+    position += 9;
+    starts.push({
+      startTime: Math.round(start / NERO_UNITS_PER_MS),
+      title: utf8Decoder.decode(
+        chpl.subarray(position, position + titleLength),
+      ),
+    });
+    position += titleLength;
+  }
+
+  const movie = readHeaderTiming(child(moov, "mvhd"));
+  const movieEnd = movie?.timescale
+    ? Math.round(movie.duration * 1000 / movie.timescale)
+    : 0;
+
+  return starts.map((chapter, i) => ({
+    ...chapter,
+    endTime: i + 1 < starts.length
+      ? starts[i + 1].startTime
+      : Math.max(movieEnd, chapter.startTime),
+  }));
+}
+
+/**
+ * Read the chapters of an MP4 file.
+ *
+ * @param data - Complete MP4 file data, or the source of a streamed file
+ * @returns Chapters sorted by start time, or an empty array if none
+ */
+export function readMP4Chapters(data: Uint8Array | AudioSource): Chapter[] {
+  const file = asAudioSource(data);
+  const moov = readMoov(file);
+  if (!moov?.children) return [];
+
+  const nero = readNeroChapters(moov);
+  const chapters = readTextTrackChapters(file, moov);
+  if (!chapters) return nero ?? [];
+
+  // The text track starts at zero; an untitled first sample only fills the
+  // gap before the first chapter when the Nero chapters start later
+  const [gap, first] = chapters;
+  if (
+    first && !gap.title && nero?.length === chapters.length - 1 &&
+    nero[0].startTime === first.startTime
+  ) {
+    chapters.shift();
+  }
+  return chapters;
+}
+
+/** UTF-8 encode, truncated to at most `maxBytes` without splitting characters */
+function encodeLimited(text: string, maxBytes: number): Uint8Array {
+  let encoded = encoder.encode(text);
+  while (encoded.length > maxBytes) {
+    text = text.slice(0, -1);
+    encoded = encoder.encode(text);
+  }
+  return encoded;
+}
+
+function buildNeroChapters(chapters: Chapter[]): AtomNode {
+  const entries = chapters.slice(0, 255).map((chapter) => {
+    const title = encodeLimited(chapter.title ?? "", 255);
+    return bytes(
+      u64(chapter.startTime * NERO_UNITS_PER_MS),
+      [title.length],
+      title,
+    );
+  });
+  return leaf(
+    "chpl",
+    bytes([1, 0, 0, 0], u32(0), [entries.length], ...entries),
+  );
+}
+
+/** 3GPP timed text (tx3g) sample description used for chapter titles */
+function buildTextSampleEntry(): AtomNode {
+  return leaf(
+    "tx3g",
+    bytes(
+      [0, 0, 0, 0, 0, 0], // reserved
+      u16(1), // data reference index
+      u32(0), // display flags
+      [0, 0], // horizontal/vertical justification
+      [0, 0, 0, 0], // background colour
+      [0, 0, 0, 0, 0, 0, 0, 0], // default text box
+      [0, 0, 0, 0], // style record: start/end char
+      u16(1), // font ID
+      [0, 0], // font style flags, font size
+      [0, 0, 0, 0], // foreground colour
+      u32(13),
+      encoder.encode("ftab"),
+      u16(1), // font entry count
+      u16(1), // font ID
+      [0], // font name length
+    ),
+  );
+}
+
+const IDENTITY_MATRIX = [
+  ...u32(0x00010000),
+  ...u32(0),
+  ...u32(0),
+  ...u32(0),
+  ...u32(0x00010000),
+  ...u32(0),
+  ...u32(0),
+  ...u32(0),
+  ...u32(0x40000000),
+];
+
+/** Build the generic media header QuickTime expects for text tracks */
+function buildGmhd(): AtomNode {
+  return container("gmhd", [
+    leaf(
+      "gmin",
+      bytes(
+        u32(0),
+        u16(0x40),
+        u16(0x8000),
+        u16(0x8000),
+        u16(0x8000),
+        u16(0),
+        u16(0),
+      ),
+    ),
+    leaf("text", new Uint8Array(IDENTITY_MATRIX)),
+  ]);
+}
+
+function buildTextTrack(
+  id: number,
+  chapters: Chapter[],
+  movieTimescale: number,
+  samples: Uint8Array[],
+  useCo64: boolean,
+): AtomNode {
+  const end = chapters[chapters.length - 1].endTime;
+  const movieDuration = Math.round(end * movieTimescale / CHAPTER_TIMESCALE);
+
+  const durations = chapters.map((chapter, i) =>
+    (i + 1 < chapters.length ? chapters[i + 1].startTime : chapter.endTime) -
+    chapter.startTime
+  );
+
+  const stsz = bytes(
+    u32(0),
+    u32(0),
+    u32(samples.length),
+    ...samples.map((sample) => u32(sample.length)),
+  );
+
+  return container("trak", [
+    leaf(
+      "tkhd",
+      bytes(
+        u32(0), // version 0, flags 0: chapter tracks are not enabled
+        u32(0),
+        u32(0),
+        u32(id),
+        u32(0),
+        u32(movieDuration),
+        u32(0),
+        u32(0),
+        u16(0), // layer
+        u16(0), // alternate group
+        u16(0), // volume
+        u16(0),
+        IDENTITY_MATRIX,
+        u32(0), // width
+        u32(0), // height
+      ),
+    ),
+    container("mdia", [
+      leaf(
+        "mdhd",
+        bytes(
+          u32(0),
+          u32(0),
+          u32(0),
+          u32(CHAPTER_TIMESCALE),
+          u32(durations.reduce((sum, d) => sum + d, 0)),
+          u16(0x55c4), // language "und"
+          u16(0),
+        ),
+      ),
+      leaf(
+        "hdlr",
+        bytes(
+          u32(0),
+          u32(0),
+          encoder.encode("text"),
+          new Uint8Array(12),
+          encoder.encode("Chapters\0"),
+        ),
+      ),
+      container("minf", [
+        buildGmhd(),
+        container("dinf", [
+          leaf(
+            "dref",
+            bytes(u32(0), u32(1), u32(12), encoder.encode("url "), u32(1)),
+          ),
+        ]),
+        container("stbl", [
+          leaf(
+            "stsd",
+            bytes(u32(0), u32(1), serialize(buildTextSampleEntry())),
+          ),
+          leaf(
+            "stts",
+            bytes(
+              u32(0),
+              u32(durations.length),
+              ...durations.map((d) => [...u32(1), ...u32(d)]),
+            ),
+          ),
+          leaf(
+            "stsc",
+            bytes(u32(0), u32(1), u32(1), u32(samples.length), u32(1)),
+          ),
+          leaf("stsz", stsz),
+          // Offset is patched once the position of the sample data is known
+          useCo64
+            ? leaf("co64", bytes(u32(0), u32(1), u64(0)))
+            : leaf("stco", bytes(u32(0), u32(1), u32(0))),
+        ]),
+      ]),
+    ]),
+  ]);
+}
+
+/**
+ * Remove existing chapters from the movie.
+ * @returns The audio track and whether anything was removed
+ */
+function removeChapters(
+  moov: AtomNode,
+): { audioTrak?: AtomNode; removed: boolean } {
+  const audioTrak = findAudioTrak(moov);
+  const sizeBefore = atomSize(moov);
+
+  if (audioTrak) {
+    const ids = chapterTrackIds(audioTrak);
+    moov.children = moov.children!.filter((c) =>
+      c.type !== "trak" || !ids.includes(trackId(c) ?? -1)
+    );
+
+    const tref = child(audioTrak, "tref");
+    if (tref?.children) {
+      tref.children = tref.children.filter((c) => c.type !== "chap");
+      if (tref.children.length === 0) {
+        audioTrak.children = audioTrak.children!.filter((c) => c !== tref);
+      }
+    }
+  }
+
+  const udta = child(moov, "udta");
+  if (udta?.children) {
+    udta.children = udta.children.filter((c) => c.type !== "chpl");
+  }
+
+  return { audioTrak, removed: atomSize(moov) !== sizeBefore };
+}
+
+/** Shift every stco/co64 chunk offset that points past `threshold` */
+export function shiftChunkOffsets(
+  node: AtomNode,
+  threshold: number,
+  delta: number,
+  field = "chapters",
+) {
+  if (delta === 0) return;
+
+  for (const c of node.children ?? []) {
+    if (c.children) {
+      shiftChunkOffsets(c, threshold, delta, field);
+    } else if (c.type === "stco" || c.type === "co64") {
+      const dv = view(c.payload!);
+      const count = dv.getUint32(4);
+      for (let i = 0; i < count; i++) {
+        if (c.type === "co64") {
+          const value = Number(dv.getBigUint64(8 + i * 8));
+          if (value >= threshold) {
+            dv.setBigUint64(8 + i * 8, BigInt(value + delta));
+          }
+        } else {
+          const value = dv.getUint32(8 + i * 4);
+          if (value >= threshold) {
+            if (value + delta > 0xFFFFFFFF) {
+              throw new MetadataError(
+                "write",
+                `Chunk offsets exceed 32 bits after adding ${field}`,
+                field,
+              );
+            }
+            dv.setUint32(8 + i * 4, value + delta);
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Locate the `mdat` atom holding nothing but the samples of the current
+ * chapter text track. Only the last atom of the file is considered, which is
+ * where `writeMP4Chapters` appends it.
+ */
+function findChapterMdat(
+  topLevel: AtomLocation[],
+  moov: AtomNode,
+): AtomLocation | undefined {
+  const last = topLevel[topLevel.length - 1];
+  const textTrak = findChapterTrak(moov);
+  const table = textTrak && readSampleTable(textTrak);
+  if (last?.type !== "mdat" || !table?.offsets.length) return undefined;
+
+  const start = Math.min(...table.offsets);
+  const end = Math.max(...table.offsets.map((o, i) => o + table.sizes[i]));
+  const total = table.sizes.reduce((sum, size) => sum + size, 0);
+  return start === last.offset + last.headerSize &&
+      end === last.offset + last.size && end - start === total
+    ? last
+    : undefined;
+}
+
+function childrenOf(node: AtomNode): AtomNode[] {
+  if (!node.children) {
+    throw new MetadataError(
+      "write",
+      `MP4 ${node.type} atom is malformed`,
+      "chapters",
+    );
+  }
+  return node.children;
+}
+
+/**
+ * Replace the chapters of an MP4 file.
+ *
+ * Writes a Nero `chpl` atom and a QuickTime chapter text track. The text
+ * track samples are stored in a new `mdat` atom at the end of the file, which
+ * replaces the one written for the previous chapter track.
+ *
+ * @param data - Complete MP4 file data
+ * @param chapters - Chapters to write; an empty array removes all chapters
+ * @returns New file data
+ * @throws {MetadataError} If the file has no `moov` atom
+ */
+export function writeMP4Chapters(
+  data: Uint8Array,
+  chapters: Chapter[],
+): Uint8Array {
+  const topLevel = locateAtoms(data, 0, data.length);
+  const moovLocation = topLevel?.find((atom) => atom.type === "moov");
+  if (!topLevel || !moovLocation) {
+    throw new MetadataError("write", "MP4 file has no moov atom", "chapters");
+  }
+
+  const moov = parseAtom(data, moovLocation);
+  if (!moov.children) {
+    throw new MetadataError("write", "MP4 moov atom is malformed", "chapters");
+  }
+
+  // Samples of the previous chapter track are dropped with their mdat
+  const oldMdat = findChapterMdat(topLevel, moov);
+  const base = oldMdat ? data.subarray(0, oldMdat.offset) : data;
+
+  const { audioTrak, removed } = removeChapters(moov);
+  if (chapters.length === 0 && !removed) return data;
+
+  const sorted = [...chapters].sort((a, b) => a.startTime - b.startTime);
+
+  let samples: Uint8Array[] = [];
+  let textTrak: AtomNode | undefined;
+
+  if (sorted.length > 0) {
+    let udta = child(moov, "udta");
+    if (!udta) {
+      udta = container("udta", []);
+      moov.children.push(udta);
+    }
+    childrenOf(udta).push(buildNeroChapters(sorted));
+
+    const mvhd = child(moov, "mvhd")?.payload;
+    const movie = readHeaderTiming(child(moov, "mvhd"));
+    if (audioTrak && mvhd && movie) {
+      // Allocate the next free track ID from mvhd
+      const mvhdView = view(mvhd);
+      const id = mvhdView.getUint32(mvhd.length - 4);
+      mvhdView.setUint32(mvhd.length - 4, id + 1);
+
+      // The track starts at zero, so an untitled sample fills any gap before
+      // the first chapter
+      const track = sorted[0].startTime > 0
+        ? [{ startTime: 0, endTime: sorted[0].startTime }, ...sorted]
+        : sorted;
+      samples = track.map((chapter) => {
+        const title = encodeLimited(chapter.title ?? "", 0xffff);
+        return bytes(u16(title.length), title);
+      });
+
+      const sampleBytes = samples.reduce((sum, s) => sum + s.length, 0);
+      const useCo64 = base.length + sampleBytes + 0x10000 > 0xFFFFFFFF;
+      textTrak = buildTextTrack(id, track, movie.timescale, samples, useCo64);
+
+      // Insert the chapter track right after the last existing track
+      let lastTrak = -1;
+      moov.children.forEach((c, i) => {
+        if (c.type === "trak") lastTrak = i;
+      });
+      moov.children.splice(lastTrak + 1, 0, textTrak);
+
+      let tref = child(audioTrak, "tref");
+      if (!tref) {
+        tref = container("tref", []);
+        audioTrak.children!.push(tref);
+      }
+      childrenOf(tref).push(leaf("chap", new Uint8Array(u32(id))));
+    }
+  }
+
+  // Drop an empty udta left behind by chapter removal
+  const udta = child(moov, "udta");
+  if (udta?.children?.length === 0) {
+    moov.children = moov.children.filter((c) => c !== udta);
+  }
+
+  const moovEnd = moovLocation.offset + moovLocation.size;
+  const delta = atomSize(moov) - moovLocation.size;
+
+  // Media data stored after moov moves by the change in moov size
+  for (const trak of moov.children) {
+    if (trak !== textTrak) shiftChunkOffsets(trak, moovEnd, delta);
+  }
+
+  const mdat = samples.length > 0 ? leaf("mdat", bytes(...samples)) : undefined;
+
+  if (textTrak && mdat) {
+    const sampleOffset = base.length + delta + 8;
+    const stbl = path(textTrak, "mdia", "minf", "stbl")!;
+    const offsets = (child(stbl, "stco") ?? child(stbl, "co64"))!;
+    const dv = view(offsets.payload!);
+    if (offsets.type === "co64") {
+      dv.setBigUint64(8, BigInt(sampleOffset));
+    } else {
+      dv.setUint32(8, sampleOffset);
+    }
+  }
+
+  const moovSize = atomSize(moov);
+  const out = new Uint8Array(
+    base.length + delta + (mdat ? atomSize(mdat) : 0),
+  );
+  out.set(base.subarray(0, moovLocation.offset), 0);
+  serializeAtom(moov, out, moovLocation.offset);
+  out.set(base.subarray(moovEnd), moovLocation.offset + moovSize);
+  if (mdat) serializeAtom(mdat, out, base.length + delta);
+
+  return out;
+}
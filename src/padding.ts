@@ -0,0 +1,611 @@
+/**
+ * @fileoverview Tag padding
+ *
+ * Formats reserve space after their tags so that later edits can grow a
+ * tag without moving the audio data:
+ *
+ * - MP3: zero bytes after the last frame of the leading ID3v2 tag
+ * - FLAC: PADDING metadata blocks
+ * - MP4: a `free` atom following the `ilst` atom in `moov/udta/meta`
+ * - Ogg Vorbis and Opus: zero bytes after the comment list of the comment
+ *   packet; the header pages are paginated again when its size changes
+ *
+ * TagLib chooses the amount of padding itself, so it is adjusted in the
+ * buffer after saving.
+ */
+
+import type { FileType, SaveOptions } from "./types.ts";
+import { MetadataError } from "./errors.ts";
+import {
+  type AtomNode,
+  atomSize,
+  child,
+  locateAtoms,
+  parseAtom,
+  serializeAtom,
+  shiftChunkOffsets,
+} from "./mp4-chapters.ts";
+
+/** Padding of a file and where its tag region ends */
+export interface PaddingLayout {
+  /** Padding bytes, excluding the headers of padding blocks and atoms */
+  padding: number;
+  /** Offset at which the tags, including their padding, end */
+  end: number;
+}
+
+interface PaddingHandler {
+  locate(data: Uint8Array): PaddingLayout | undefined;
+  /** Replace the padding; undefined if the file cannot be handled */
+  write(data: Uint8Array, padding: number): Uint8Array | undefined;
+}
+
+/** Largest FLAC metadata block payload (24-bit length) */
+const FLAC_MAX_BLOCK_SIZE = 0xffffff;
+
+/** Largest ID3v2 tag size (28-bit synchsafe integer) */
+const ID3V2_MAX_SIZE = 0x0fffffff;
+
+const FLAC_PADDING = 1;
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function synchsafe(data: Uint8Array, offset: number): number {
+  return ((data[offset] & 0x7f) << 21) | ((data[offset + 1] & 0x7f) << 14) |
+    ((data[offset + 2] & 0x7f) << 7) | (data[offset + 3] & 0x7f);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function tooLarge(padding: number, format: string): never {
+  throw new MetadataError(
+    "write",
+    `Padding of ${padding} bytes is too large for ${format}`,
+    "padding",
+  );
+}
+
+// ID3v2
+
+/**
+ * Locate the frames of a leading ID3v2.3 or 2.4 tag. Tags with an extended
+ * header (which records the padding size in v2.3), a footer (which rules
+ * out padding) or whole-tag unsynchronisation are left alone.
+ */
+function locateID3v2(
+  data: Uint8Array,
+): { framesEnd: number; end: number } | undefined {
+  if (data.length < 10 || ascii(data, 0, 3) !== "ID3") return undefined;
+  const version = data[3];
+  const flags = data[5];
+  if ((version !== 3 && version !== 4) || flags & 0xd0) return undefined;
+
+  const end = 10 + synchsafe(data, 6);
+  if (end > data.length) return undefined;
+
+  let offset = 10;
+  while (offset + 10 <= end && data[offset] !== 0) {
+    const size = version === 4
+      ? synchsafe(data, offset + 4)
+      : view(data).getUint32(offset + 4);
+    offset += 10 + size;
+  }
+  return offset <= end ? { framesEnd: offset, end } : undefined;
+}
+
+const id3v2: PaddingHandler = {
+  locate(data) {
+    const tag = locateID3v2(data);
+    return tag && { padding: tag.end - tag.framesEnd, end: tag.end };
+  },
+
+  write(data, padding) {
+    const tag = locateID3v2(data);
+    if (!tag) return undefined;
+
+    const size = tag.framesEnd - 10 + padding;
+    if (size > ID3V2_MAX_SIZE) tooLarge(padding, "an ID3v2 tag");
+
+    const out = new Uint8Array(tag.framesEnd + padding + data.length - tag.end);
+    out.set(data.subarray(0, tag.framesEnd));
+    out.set([
+      (size >>> 21) & 0x7f,
+      (size >>> 14) & 0x7f,
+      (size >>> 7) & 0x7f,
+      size & 0x7f,
+    ], 6);
+    out.set(data.subarray(tag.end), tag.framesEnd + padding);
+    return out;
+  },
+};
+
+// FLAC
+
+interface FLACLayout {
+  /** Offset of the first metadata block */
+  start: number;
+  /** Metadata blocks other than padding, as [start, end] offsets */
+  blocks: Array<[number, number]>;
+  padding: number;
+  /** Offset of the first audio frame */
+  end: number;
+}
+
+function locateFLAC(data: Uint8Array): FLACLayout | undefined {
+  // TagLib keeps an ID3v2 tag some encoders put in front of the stream
+  let start = 0;
+  if (data.length >= 10 && ascii(data, 0, 3) === "ID3") {
+    start = 10 + synchsafe(data, 6) + (data[5] & 0x10 ? 10 : 0);
+  }
+  if (ascii(data, start, 4) !== "fLaC") return undefined;
+  start += 4;
+
+  const blocks: Array<[number, number]> = [];
+  let padding = 0;
+  let offset = start;
+  let last = false;
+  while (!last) {
+    if (offset + 4 > data.length) return undefined;
+    last = (data[offset] & 0x80) !== 0;
+    const type = data[offset] & 0x7f;
+    const length = (data[offset + 1] << 16) | (data[offset + 2] << 8) |
+      data[offset + 3];
+    const blockEnd = offset + 4 + length;
+    if (blockEnd > data.length) return undefined;
+
+    if (type === FLAC_PADDING) {
+      padding += length;
+    } else {
+      blocks.push([offset, blockEnd]);
+    }
+    offset = blockEnd;
+  }
+
+  return { start, blocks, padding, end: offset };
+}
+
+const flac: PaddingHandler = {
+  locate(data) {
+    const layout = locateFLAC(data);
+    return layout && { padding: layout.padding, end: layout.end };
+  },
+
+  write(data, padding) {
+    const layout = locateFLAC(data);
+    if (!layout || layout.blocks.length === 0) return undefined;
+    if (padding > FLAC_MAX_BLOCK_SIZE) tooLarge(padding, "a FLAC block");
+
+    // Padding blocks are merged into one after all other blocks
+    const blocks = layout.blocks.map(([start, end]) => {
+      const block = data.slice(start, end);
+      block[0] &= 0x7f;
+      return block;
+    });
+    if (padding > 0) {
+      const block = new Uint8Array(4 + padding);
+      block.set([
+        FLAC_PADDING,
+        padding >>> 16,
+        (padding >>> 8) & 0xff,
+        padding & 0xff,
+      ]);
+      blocks.push(block);
+    }
+    blocks[blocks.length - 1][0] |= 0x80;
+
+    return concat([
+      data.subarray(0, layout.start),
+      ...blocks,
+      data.subarray(layout.end),
+    ]);
+  },
+};
+
+// MP4
+
+interface MP4Layout {
+  moovOffset: number;
+  moovSize: number;
+  moov: AtomNode;
+  meta: AtomNode;
+  /** Atoms of the meta payload after its version and flags */
+  atoms: Uint8Array[];
+  /** Index of the atom following `ilst` */
+  afterIlst: number;
+  /** Number of `free` atoms following `ilst` */
+  freeCount: number;
+  padding: number;
+}
+
+function locateMP4(data: Uint8Array): MP4Layout | undefined {
+  const moovLocation = locateAtoms(data, 0, data.length)?.find((atom) =>
+    atom.type === "moov"
+  );
+  if (!moovLocation) return undefined;
+
+  const moov = parseAtom(data, moovLocation);
+  const meta = child(child(moov, "udta"), "meta");
+  const payload = meta?.payload;
+  if (!meta || !payload || payload.length < 4) return undefined;
+
+  // meta is a full atom: version and flags precede the child atoms
+  const locations = locateAtoms(payload, 4, payload.length);
+  const ilst = locations?.findIndex((atom) => atom.type === "ilst") ?? -1;
+  if (!locations || ilst < 0) return undefined;
+
+  let freeCount = 0;
+  let padding = 0;
+  for (const atom of locations.slice(ilst + 1)) {
+    if (atom.type !== "free") break;
+    freeCount++;
+    padding += atom.size - atom.headerSize;
+  }
+
+  return {
+    moovOffset: moovLocation.offset,
+    moovSize: moovLocation.size,
+    moov,
+    meta,
+    atoms: locations.map((atom) =>
+      payload.subarray(atom.offset, atom.offset + atom.size)
+    ),
+    afterIlst: ilst + 1,
+    freeCount,
+    padding,
+  };
+}
+
+const mp4: PaddingHandler = {
+  locate(data) {
+    const layout = locateMP4(data);
+    return layout && {
+      padding: layout.padding,
+      end: layout.moovOffset + layout.moovSize,
+    };
+  },
+
+  write(data, padding) {
+    const layout = locateMP4(data);
+    if (!layout) return undefined;
+    if (padding > 0xffffffff - 8) tooLarge(padding, "an MP4 free atom");
+
+    const { moov, meta, atoms, afterIlst } = layout;
+    const free = new Uint8Array(8 + padding);
+    view(free).setUint32(0, free.length);
+    free.set([0x66, 0x72, 0x65, 0x65], 4); // "free"
+
+    meta.payload = concat([
+      meta.payload!.subarray(0, 4),
+      ...atoms.slice(0, afterIlst),
+      ...(padding > 0 ? [free] : []),
+      ...atoms.slice(afterIlst + layout.freeCount),
+    ]);
+
+    // Media data stored after moov moves by the change in moov size
+    const moovEnd = layout.moovOffset + layout.moovSize;
+    const delta = atomSize(moov) - layout.moovSize;
+    shiftChunkOffsets(moov, moovEnd, delta, "padding");
+
+    const out = new Uint8Array(data.length + delta);
+    out.set(data.subarray(0, layout.moovOffset));
+    serializeAtom(moov, out, layout.moovOffset);
+    out.set(data.subarray(moovEnd), moovEnd + delta);
+    return out;
+  },
+};
+
+// Ogg
+
+interface OggPage {
+  offset: number;
+  size: number;
+  serial: number;
+  sequence: number;
+  /** Lacing values */
+  segments: Uint8Array;
+  dataOffset: number;
+}
+
+interface OggHeaders {
+  serial: number;
+  /** Offset of the second page, which starts the comment packet */
+  start: number;
+  /** Offset of the first page after the header packets */
+  end: number;
+  /** Number of pages holding the comment and any later header packets */
+  pageCount: number;
+  /** Comment packet followed by the remaining header packets */
+  packets: Uint8Array[];
+  /** Length of the comment packet without its padding */
+  commentEnd: number;
+}
+
+const OGG_CODECS: Record<string, { magic: string; packets: number }> = {
+  OGG: { magic: "\x03vorbis", packets: 3 },
+  OPUS: { magic: "OpusTags", packets: 2 },
+};
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+/** Set the checksum of a page, computed with its checksum field zeroed */
+function setOggChecksum(page: Uint8Array) {
+  view(page).setUint32(22, 0);
+  let crc = 0;
+  for (const byte of page) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  view(page).setUint32(22, crc, true);
+}
+
+function readOggPage(data: Uint8Array, offset: number): OggPage | undefined {
+  if (offset + 27 > data.length || ascii(data, offset, 4) !== "OggS") {
+    return undefined;
+  }
+  const count = data[offset + 26];
+  const dataOffset = offset + 27 + count;
+  if (dataOffset > data.length) return undefined;
+
+  const segments = data.subarray(offset + 27, dataOffset);
+  const size = 27 + count + segments.reduce((sum, s) => sum + s, 0);
+  if (offset + size > data.length) return undefined;
+
+  const dv = view(data);
+  return {
+    offset,
+    size,
+    serial: dv.getUint32(offset + 14, true),
+    sequence: dv.getUint32(offset + 18, true),
+    segments,
+    dataOffset,
+  };
+}
+
+/** Length of a Vorbis comment packet up to the end of its comment list */
+function commentListEnd(packet: Uint8Array, magic: string): number | undefined {
+  if (ascii(packet, 0, magic.length) !== magic) return undefined;
+  const dv = view(packet);
+  let offset = magic.length;
+  if (offset + 4 > packet.length) return undefined;
+  offset += 4 + dv.getUint32(offset, true); // vendor string
+  if (offset + 4 > packet.length) return undefined;
+  const count = dv.getUint32(offset, true);
+  offset += 4;
+  for (let i = 0; i < count; i++) {
+    if (offset + 4 > packet.length) return undefined;
+    offset += 4 + dv.getUint32(offset, true);
+  }
+  // Vorbis ends the header with a framing bit
+  if (magic === OGG_CODECS.OGG.magic) offset += 1;
+  return offset <= packet.length ? offset : undefined;
+}
+
+function locateOggHeaders(
+  data: Uint8Array,
+  format: string,
+): OggHeaders | undefined {
+  const codec = OGG_CODECS[format];
+  const first = readOggPage(data, 0);
+  if (!codec || !first) return undefined;
+
+  // The identification header fills the first page on its own
+  const start = first.size;
+  const packets: Uint8Array[] = [];
+  let packet: Uint8Array[] = [];
+  let offset = start;
+  let pageCount = 0;
+  while (packets.length < codec.packets - 1) {
+    const page = readOggPage(data, offset);
+    if (!page || page.serial !== first.serial) return undefined;
+
+    let position = page.dataOffset;
+    for (const lacing of page.segments) {
+      // Audio packets must start on a new page
+      if (packets.length === codec.packets - 1) return undefined;
+      packet.push(data.subarray(position, position + lacing));
+      position += lacing;
+      if (lacing < 255) {
+        packets.push(concat(packet));
+        packet = [];
+      }
+    }
+    offset += page.size;
+    pageCount++;
+  }
+
+  const commentEnd = commentListEnd(packets[0], codec.magic);
+  if (commentEnd === undefined) return undefined;
+  return {
+    serial: first.serial,
+    start,
+    end: offset,
+    pageCount,
+    packets,
+    commentEnd,
+  };
+}
+
+/** Split packets into pages of at most 255 segments */
+function paginate(
+  packets: Uint8Array[],
+  serial: number,
+  sequence: number,
+): Uint8Array[] {
+  const segments: Array<{ data: Uint8Array; last: boolean; first: boolean }> =
+    [];
+  for (const packet of packets) {
+    for (let offset = 0;; offset += 255) {
+      const data = packet.subarray(offset, offset + 255);
+      segments.push({ data, first: offset === 0, last: data.length < 255 });
+      if (data.length < 255) break;
+    }
+  }
+
+  const pages: Uint8Array[] = [];
+  for (let i = 0; i < segments.length; i += 255) {
+    const pageSegments = segments.slice(i, i + 255);
+    const body = concat(pageSegments.map((s) => s.data));
+    const page = new Uint8Array(27 + pageSegments.length + body.length);
+    const dv = view(page);
+    page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+    page[5] = pageSegments[0].first ? 0 : 0x01; // continued packet
+    // Pages on which no packet ends have no granule position
+    const granule = pageSegments.some((s) => s.last) ? 0n : -1n;
+    dv.setBigInt64(6, granule, true);
+    dv.setUint32(14, serial, true);
+    dv.setUint32(18, sequence + pages.length, true);
+    page[26] = pageSegments.length;
+    page.set(pageSegments.map((s) => s.data.length), 27);
+    page.set(body, 27 + pageSegments.length);
+    setOggChecksum(page);
+    pages.push(page);
+  }
+  return pages;
+}
+
+function oggHandler(format: string): PaddingHandler {
+  return {
+    locate(data) {
+      const headers = locateOggHeaders(data, format);
+      return headers && {
+        padding: headers.packets[0].length - headers.commentEnd,
+        end: headers.end,
+      };
+    },
+
+    write(data, padding) {
+      const headers = locateOggHeaders(data, format);
+      if (!headers) return undefined;
+
+      const [comment, ...rest] = headers.packets;
+      const padded = new Uint8Array(headers.commentEnd + padding);
+      padded.set(comment.subarray(0, headers.commentEnd));
+      const pages = paginate([padded, ...rest], headers.serial, 1);
+
+      // Later pages of the stream are numbered again if the count changed
+      const tail = data.slice(headers.end);
+      const shift = pages.length - headers.pageCount;
+      for (let offset = 0; shift !== 0 && offset < tail.length;) {
+        const page = readOggPage(tail, offset);
+        if (!page) break;
+        if (page.serial === headers.serial) {
+          view(tail).setUint32(offset + 18, page.sequence + shift, true);
+          setOggChecksum(tail.subarray(offset, offset + page.size));
+        }
+        offset += page.size;
+      }
+
+      return concat([data.subarray(0, headers.start), ...pages, tail]);
+    },
+  };
+}
+
+const HANDLERS: Partial<Record<FileType, PaddingHandler>> = {
+  MP3: id3v2,
+  FLAC: flac,
+  MP4: mp4,
+  OGG: oggHandler("OGG"),
+  OPUS: oggHandler("OPUS"),
+};
+
+/**
+ * Check a padding option before anything is saved.
+ * @throws {MetadataError} If the padding is not a non-negative integer
+ */
+export function checkPadding(padding: SaveOptions["padding"]): void {
+  if (
+    typeof padding === "number" &&
+    !(Number.isSafeInteger(padding) && padding >= 0)
+  ) {
+    throw new MetadataError(
+      "write",
+      `Padding must be a non-negative integer, got ${padding}`,
+      "padding",
+    );
+  }
+}
+
+/**
+ * Find the padding of a file.
+ *
+ * @param data - Complete file data
+ * @param format - Format of the file
+ * @returns Padding and the end of the tag region, or undefined if the
+ *   format or the file's tag layout is not supported
+ */
+export function locatePadding(
+  data: Uint8Array,
+  format: FileType,
+): PaddingLayout | undefined {
+  return HANDLERS[format]?.locate(data);
+}
+
+/**
+ * Resize the padding of a saved file.
+ *
+ * With "preserve", the padding is chosen so the tag region ends at
+ * `reservedEnd`, where it ended before saving; if the tags no longer fit,
+ * TagLib's choice is kept as with "auto".
+ *
+ * @param data - Complete file data as saved by TagLib
+ * @param format - Format of the file
+ * @param padding - Padding bytes, "preserve" or "auto"
+ * @param reservedEnd - End of the tag region before saving, for "preserve"
+ * @returns New file data, or `data` if nothing changed
+ * @throws {MetadataError} If the padding is invalid or too large for the
+ *   format
+ */
+export function applyPadding(
+  data: Uint8Array,
+  format: FileType,
+  padding: NonNullable<SaveOptions["padding"]>,
+  reservedEnd?: number,
+): Uint8Array {
+  checkPadding(padding);
+  const handler = HANDLERS[format];
+  if (!handler || padding === "auto") return data;
+
+  const layout = handler.locate(data);
+  if (!layout) return data;
+  if (typeof padding === "number") {
+    return layout.padding === padding
+      ? data
+      : handler.write(data, padding) ?? data;
+  }
+
+  if (reservedEnd === undefined || layout.end === reservedEnd) return data;
+
+  // Block headers and Ogg page overhead can make the first guess miss
+  let size = layout.padding + reservedEnd - layout.end;
+  for (let attempt = 0; attempt < 4 && size >= 0; attempt++) {
+    const out = handler.write(data, size);
+    const end = out && handler.locate(out)?.end;
+    if (end === undefined) return data;
+    if (end === reservedEnd) return out!;
+    size -= end - reservedEnd;
+  }
+  return data;
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Rating and play counter conversions
+ *
+ * Every format stores ratings on its own scale. The public API uses a
+ * rating normalized to 0.0-1.0; these helpers convert to and from the
+ * per-format representations.
+ *
+ * - ID3v2 `POPM`: 1-255, where 0 means unrated
+ * - Vorbis `FMPS_RATING`: 0.0-1.0; `RATING`: 0-100
+ * - MP4 `rate`: 0-100
+ * - ASF `WM/SharedUserRating`: 0-99
+ */
+
+/** Largest rating value of an ID3v2 POPM frame */
+export const POPM_MAX_RATING = 255;
+
+/** Largest rating value of percent-based fields (MP4 `rate`, Vorbis `RATING`) */
+export const PERCENT_MAX_RATING = 100;
+
+/** Largest rating value of the ASF `WM/SharedUserRating` attribute */
+export const ASF_MAX_RATING = 99;
+
+/** ASF attribute holding the shared user rating */
+export const ASF_RATING_ATTRIBUTE = "WM/SharedUserRating";
+
+/** ASF attribute holding the FMPS play count */
+export const ASF_PLAYCOUNT_ATTRIBUTE = "FMPS/Playcount";
+
+/**
+ * Convert a normalized rating to a format-specific integer scale.
+ *
+ * @param rating - Rating between 0.0 and 1.0
+ * @param max - Largest value of the target scale
+ * @returns Rounded rating on the target scale
+ */
+export function toRatingScale(rating: number, max: number): number {
+  return Math.round(rating * max);
+}
+
+/**
+ * Convert a format-specific rating to the normalized 0.0-1.0 range.
+ *
+ * @param value - Rating on the source scale
+ * @param max - Largest value of the source scale
+ * @returns Normalized rating, clamped to 0.0-1.0
+ */
+export function fromRatingScale(value: number, max: number): number {
+  return Math.min(1, Math.max(0, value / max));
+}
+
+/**
+ * Parse a textual rating as written by common taggers.
+ *
+ * `FMPS_RATING` is always 0.0-1.0. The older `RATING` field has no agreed
+ * scale, so values up to 5 are read as stars and larger values as percent.
+ *
+ * @param text - Stored rating text
+ * @param normalized - true if the value is known to be 0.0-1.0
+ * @returns Normalized rating, or undefined if the text is not a number
+ */
+export function parseRatingText(
+  text: string,
+  normalized: boolean,
+): number | undefined {
+  const value = Number.parseFloat(text);
+  if (!Number.isFinite(value) || value < 0) return undefined;
+  if (normalized) return fromRatingScale(value, 1);
+  return fromRatingScale(value, value <= 5 ? 5 : PERCENT_MAX_RATING);
+}
+
+/**
+ * Decode the big-endian counter of an ID3v2 PCNT frame.
+ *
+ * @param data - Frame body (at least 4 bytes)
+ * @returns Play count
+ */
+export function decodePlayCounter(data: Uint8Array): number {
+  let count = 0;
+  for (const byte of data) {
+    count = count * 256 + byte;
+  }
+  return count;
+}
+
+/**
+ * Encode a play count as an ID3v2 PCNT frame body.
+ * The counter is 4 bytes long and grows when the value does not fit.
+ *
+ * @param count - Play count
+ * @returns Frame body
+ */
+export function encodePlayCounter(count: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let rest = count; rest > 0 || bytes.length < 4;) {
+    bytes.unshift(rest % 256);
+    rest = Math.floor(rest / 256);
+  }
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,348 @@
+/**
+ * @fileoverview RIFF chunk reading and writing for WAV files
+ *
+ * TagLib handles the `LIST/INFO` and `ID3 ` chunks of WAV files but not the
+ * Broadcast Wave `bext` chunk (EBU Tech 3285) or `iXML`. These chunks are
+ * read from the file buffer directly, and the top-level chunk list is
+ * rewritten on save.
+ */
+
+import type { AudioSource, BroadcastExtension } from "./types.ts";
+import { MetadataError } from "./errors.ts";
+import { asAudioSource } from "./audio-source.ts";
+
+/** Size of the fixed part of a bext chunk, before the coding history */
+const BEXT_FIXED_SIZE = 602;
+
+/** Stored value of a bext loudness field that is not set */
+const BEXT_LOUDNESS_UNSET = 0x7fff;
+
+/** New chunks with these IDs are placed before the audio data */
+const CHUNKS_BEFORE_DATA = new Set(["bext"]);
+
+/** Fixed-size bext text fields: [name, offset, length] */
+const BEXT_TEXT_FIELDS = [
+  ["description", 0, 256],
+  ["originator", 256, 32],
+  ["originatorReference", 288, 32],
+  ["originationDate", 320, 10],
+  ["originationTime", 330, 8],
+] as const;
+
+/** bext loudness fields (version 2), stored as value * 100 */
+const BEXT_LOUDNESS_FIELDS = [
+  ["loudnessValue", 412],
+  ["loudnessRange", 414],
+  ["maxTruePeakLevel", 416],
+  ["maxMomentaryLoudness", 418],
+  ["maxShortTermLoudness", 420],
+] as const;
+
+const BEXT_TIME_REFERENCE_OFFSET = 338;
+const BEXT_VERSION_OFFSET = 346;
+const BEXT_UMID_OFFSET = 348;
+const BEXT_UMID_SIZE = 64;
+
+interface ChunkLocation {
+  id: string;
+  offset: number;
+  size: number;
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function fourcc(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+/**
+ * List the top-level chunks of a RIFF WAVE file. A truncated last chunk,
+ * as in partially loaded files, ends the list.
+ */
+function locateChunks(file: AudioSource): ChunkLocation[] {
+  const header = file.read(0, Math.min(12, file.size));
+  if (
+    header.length < 12 || fourcc(header, 0) !== "RIFF" ||
+    fourcc(header, 8) !== "WAVE"
+  ) {
+    throw new MetadataError("read", "Not a RIFF WAVE file", "RIFF");
+  }
+
+  const end = Math.min(file.size, 8 + view(header).getUint32(4, true));
+  const chunks: ChunkLocation[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= end) {
+    const chunk = file.read(offset, 8);
+    const size = view(chunk).getUint32(4, true);
+    if (offset + 8 + size > file.size) break;
+    chunks.push({ id: fourcc(chunk, 0), offset, size });
+    offset += 8 + size + (size & 1);
+  }
+
+  return chunks;
+}
+
+function encodeChunk(id: string, payload: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + payload.length + (payload.length & 1));
+  for (let i = 0; i < 4; i++) {
+    out[i] = id.charCodeAt(i);
+  }
+  view(out).setUint32(4, payload.length, true);
+  out.set(payload, 8);
+  return out;
+}
+
+/**
+ * Read the payload of the first top-level chunk with the given ID.
+ *
+ * @param data - WAV file buffer, or the source of a streamed file
+ * @param id - Four-character chunk ID, e.g. "bext"
+ * @returns Chunk payload, or undefined if the chunk does not exist
+ */
+export function readRIFFChunk(
+  data: Uint8Array | AudioSource,
+  id: string,
+): Uint8Array | undefined {
+  const file = asAudioSource(data);
+  const chunk = locateChunks(file).find((c) => c.id === id);
+  return chunk && file.read(chunk.offset + 8, chunk.size).slice();
+}
+
+/**
+ * Replace, add or remove top-level chunks and fix the RIFF size.
+ * Existing chunks keep their position; duplicates of a replaced chunk are
+ * dropped. New `bext` chunks go before the audio data, others at the end.
+ *
+ * @param data - Complete WAV file buffer
+ * @param changes - New payload per chunk ID, or null to remove the chunk
+ * @returns New file buffer
+ * @throws {MetadataError} If the chunk list is malformed or truncated
+ */
+export function writeRIFFChunks(
+  data: Uint8Array,
+  changes: ReadonlyMap<string, Uint8Array | null>,
+): Uint8Array {
+  const chunks = locateChunks(asAudioSource(data));
+  const last = chunks[chunks.length - 1];
+  const riffEnd = Math.min(data.length, 8 + view(data).getUint32(4, true));
+  if (!last || last.offset + 8 + last.size < riffEnd - 1) {
+    throw new MetadataError("write", "RIFF chunk list is malformed", "RIFF");
+  }
+
+  const parts: Uint8Array[] = [data.subarray(0, 12)];
+  const written = new Set<string>();
+  const addNew = (before: boolean) => {
+    for (const [id, payload] of changes) {
+      if (written.has(id) || CHUNKS_BEFORE_DATA.has(id) !== before) continue;
+      written.add(id);
+      if (payload) parts.push(encodeChunk(id, payload));
+    }
+  };
+
+  for (const chunk of chunks) {
+    if (chunk.id === "data") addNew(true);
+
+    if (changes.has(chunk.id)) {
+      if (written.has(chunk.id)) continue;
+      written.add(chunk.id);
+      const payload = changes.get(chunk.id);
+      if (payload) parts.push(encodeChunk(chunk.id, payload));
+      continue;
+    }
+
+    parts.push(data.subarray(chunk.offset, chunk.offset + 8 + chunk.size));
+    if (chunk.size & 1) parts.push(new Uint8Array(1));
+  }
+  addNew(true);
+  addNew(false);
+
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  view(out).setUint32(4, length - 8, true);
+  return out;
+}
+
+function decodeText(data: Uint8Array): string {
+  const end = data.indexOf(0);
+  return String.fromCharCode(...(end < 0 ? data : data.subarray(0, end)));
+}
+
+function encodeText(text: string, maxLength: number, field: string) {
+  if (text.length > maxLength) {
+    throw new MetadataError(
+      "write",
+      `${field} is longer than ${maxLength} characters`,
+      field,
+    );
+  }
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code > 0xff) {
+      throw new MetadataError(
+        "write",
+        `${field} contains characters outside ISO-8859-1`,
+        field,
+      );
+    }
+    bytes[i] = code;
+  }
+  return bytes;
+}
+
+/**
+ * Decode a Broadcast Wave `bext` chunk.
+ *
+ * @param data - Chunk payload
+ * @returns Decoded fields; loudness values only for version 2 and later
+ */
+export function parseBroadcastExtension(data: Uint8Array): BroadcastExtension {
+  const fixed = new Uint8Array(BEXT_FIXED_SIZE);
+  fixed.set(data.subarray(0, BEXT_FIXED_SIZE));
+  const dv = view(fixed);
+
+  const text = (offset: number, length: number) =>
+    decodeText(fixed.subarray(offset, offset + length));
+  const version = dv.getUint16(BEXT_VERSION_OFFSET, true);
+
+  const bext: BroadcastExtension = {
+    description: text(0, 256),
+    originator: text(256, 32),
+    originatorReference: text(288, 32),
+    originationDate: text(320, 10),
+    originationTime: text(330, 8),
+    timeReference: dv.getUint32(BEXT_TIME_REFERENCE_OFFSET + 4, true) *
+        0x100000000 + dv.getUint32(BEXT_TIME_REFERENCE_OFFSET, true),
+    version,
+  };
+
+  const umid = fixed.slice(BEXT_UMID_OFFSET, BEXT_UMID_OFFSET + BEXT_UMID_SIZE);
+  if (version >= 1 && umid.some((byte) => byte !== 0)) {
+    bext.umid = umid;
+  }
+
+  if (version >= 2) {
+    for (const [field, offset] of BEXT_LOUDNESS_FIELDS) {
+      const value = dv.getInt16(offset, true);
+      if (value !== BEXT_LOUDNESS_UNSET) bext[field] = value / 100;
+    }
+  }
+
+  const history = decodeText(data.subarray(BEXT_FIXED_SIZE));
+  if (history) bext.codingHistory = history;
+
+  return bext;
+}
+
+/**
+ * Encode a Broadcast Wave `bext` chunk.
+ *
+ * @param bext - Fields to write
+ * @returns Chunk payload
+ * @throws {MetadataError} If a field does not fit its slot
+ */
+export function formatBroadcastExtension(
+  bext: BroadcastExtension,
+): Uint8Array {
+  if (
+    bext.originationDate &&
+    !/^\d{4}[-_:. ]\d{2}[-_:. ]\d{2}$/.test(bext.originationDate)
+  ) {
+    throw new MetadataError(
+      "write",
+      `Invalid origination date "${bext.originationDate}"; expected yyyy-mm-dd`,
+      "originationDate",
+    );
+  }
+  if (
+    bext.originationTime &&
+    !/^\d{2}[-_:. ]\d{2}[-_:. ]\d{2}$/.test(bext.originationTime)
+  ) {
+    throw new MetadataError(
+      "write",
+      `Invalid origination time "${bext.originationTime}"; expected hh:mm:ss`,
+      "originationTime",
+    );
+  }
+  if (!(Number.isSafeInteger(bext.timeReference) && bext.timeReference >= 0)) {
+    throw new MetadataError(
+      "write",
+      `Invalid time reference ${bext.timeReference}; expected a sample count`,
+      "timeReference",
+    );
+  }
+  if (bext.umid && bext.umid.length !== 32 && bext.umid.length !== 64) {
+    throw new MetadataError(
+      "write",
+      `UMID must be 32 or 64 bytes, got ${bext.umid.length}`,
+      "umid",
+    );
+  }
+
+  const history = encodeText(
+    bext.codingHistory ?? "",
+    Number.MAX_SAFE_INTEGER,
+    "codingHistory",
+  );
+  const out = new Uint8Array(BEXT_FIXED_SIZE + history.length);
+  const dv = view(out);
+
+  for (const [field, offset, length] of BEXT_TEXT_FIELDS) {
+    out.set(encodeText(bext[field], length, field), offset);
+  }
+
+  dv.setUint32(BEXT_TIME_REFERENCE_OFFSET, bext.timeReference >>> 0, true);
+  dv.setUint32(
+    BEXT_TIME_REFERENCE_OFFSET + 4,
+    Math.floor(bext.timeReference / 0x100000000),
+    true,
+  );
+  dv.setUint16(BEXT_VERSION_OFFSET, bext.version ?? 2, true);
+  if (bext.umid) out.set(bext.umid, BEXT_UMID_OFFSET);
+
+  for (const [field, offset] of BEXT_LOUDNESS_FIELDS) {
+    const value = bext[field];
+    if (value === undefined) {
+      dv.setInt16(offset, BEXT_LOUDNESS_UNSET, true);
+    } else if (value > -327.68 && value < 327.67) {
+      dv.setInt16(offset, Math.round(value * 100), true);
+    } else {
+      throw new MetadataError(
+        "write",
+        `${field} ${value} is outside -327.67..327.66`,
+        field,
+      );
+    }
+  }
+
+  out.set(history, BEXT_FIXED_SIZE);
+  return out;
+}
+
+/**
+ * Decode an `iXML` chunk.
+ *
+ * @param data - Chunk payload
+ * @returns XML document text without trailing padding
+ */
+export function parseIXML(data: Uint8Array): string {
+  return new TextDecoder("utf-8").decode(data).replace(/\0+$/, "");
+}
+
+/**
+ * Encode an `iXML` chunk.
+ *
+ * @param xml - XML document text
+ * @returns Chunk payload
+ */
+export function formatIXML(xml: string): Uint8Array {
+  return new TextEncoder().encode(xml);
+}
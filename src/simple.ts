@@ -31,7 +31,15 @@
  */
 
 import type { TagLib } from "./taglib.ts";
-import type { AudioProperties, Picture, Tag } from "./types.ts";
+import type {
+  AudioProperties,
+  ExtendedTag,
+  Picture,
+  SaveOptions,
+  SaveResult,
+  SaveToFileOptions,
+  Tag,
+} from "./types.ts";
 import { PictureType } from "./types.ts";
 import {
   FileOperationError,
@@ -39,7 +47,6 @@ import {
   MetadataError,
 } from "./errors.ts";
 import type { readFileData } from "./utils/file.ts";
-import { writeFileData } from "./utils/write.ts";
 
 // Cached TagLib instance for auto-initialization
 let cachedTagLib: TagLib | null = null;
@@ -97,8 +104,9 @@ export async function readTags(
  * the modified file as a buffer. The original file is not modified.
  *
  * @param file - File path, Uint8Array buffer, ArrayBuffer, or File object
- * @param tags - Object containing tags to apply (undefined values are ignored)
- * @param options - Write options (currently unused, for go-taglib compatibility)
+ * @param tags - Basic and extended tags to apply (undefined values are ignored)
+ * @param options - Save options such as the ID3v2 version to write. Numeric
+ *   go-taglib write flags are accepted for compatibility and ignored.
  * @returns Modified file buffer with new tags applied
  *
  * @example
@@ -114,8 +122,8 @@ export async function readTags(
  */
 export async function applyTags(
   file: string | Uint8Array | ArrayBuffer | File,
-  tags: Partial<Tag>,
-  options?: number,
+  tags: Partial<ExtendedTag>,
+  options?: SaveOptions | number,
 ): Promise<Uint8Array> {
   const taglib = await getTagLib();
   const audioFile = await taglib.open(file);
@@ -126,18 +134,11 @@ export async function applyTags(
       );
     }
 
-    // Get the tag object and write each tag if defined
-    const tag = audioFile.tag();
-    if (tags.title !== undefined) tag.setTitle(tags.title);
-    if (tags.artist !== undefined) tag.setArtist(tags.artist);
-    if (tags.album !== undefined) tag.setAlbum(tags.album);
-    if (tags.comment !== undefined) tag.setComment(tags.comment);
-    if (tags.genre !== undefined) tag.setGenre(tags.genre);
-    if (tags.year !== undefined) tag.setYear(tags.year);
-    if (tags.track !== undefined) tag.setTrack(tags.track);
+    audioFile.setExtendedTag(tags);
 
     // Save changes to in-memory buffer
-    if (!audioFile.save()) {
+    const saveOptions = typeof options === "object" ? options : undefined;
+    if (!audioFile.save(saveOptions)) {
       throw new FileOperationError(
         "save",
         "Failed to save metadata changes. The file may be read-only or corrupted.",
@@ -158,11 +159,14 @@ export async function applyTags(
  * and writing the changes back to the original file path.
  *
  * @param file - File path as a string (required for disk operations)
- * @param tags - Object containing tags to write (undefined values are ignored)
- * @param options - Write options (currently unused, for go-taglib compatibility)
+ * @param tags - Basic and extended tags to write (undefined values are ignored)
+ * @param options - Save options such as the ID3v2 version to write, and how
+ *   to write the file, as for saveToFile(). Numeric go-taglib write flags
+ *   are accepted for compatibility and ignored.
  * @throws {InvalidInputError} If file is not a string
  * @throws {FileOperationError} If file write fails
- * @returns Promise that resolves when the file has been updated on disk
+ * @returns How the file was written: only the changed blocks are patched
+ *   when the file keeps its size, unless `inPlace` is false
  *
  * @example
  * ```typescript
@@ -172,24 +176,48 @@ export async function applyTags(
  *   artist: "New Artist"
  * });
  * // File on disk now has updated tags
+ *
+ * // Write ID3v2.3 without an ID3v1 tag
+ * await updateTags("song.mp3", { title: "New Title" }, {
+ *   id3v2Version: 3,
+ *   writeId3v1: false,
+ * });
+ *
+ * // Keep the audio in place so only the tag is written
+ * await updateTags("song.flac", { genre: "Jazz" }, { padding: "preserve" });
+ *
+ * // Always replace the whole file atomically
+ * await updateTags("song.flac", { genre: "Jazz" }, { inPlace: false });
  * ```
  *
  * @see applyTags - For getting a modified buffer without writing to disk
  */
 export async function updateTags(
   file: string,
-  tags: Partial<Tag>,
-  options?: number,
-): Promise<void> {
+  tags: Partial<ExtendedTag>,
+  options?: SaveToFileOptions | number,
+): Promise<SaveResult> {
   if (typeof file !== "string") {
     throw new Error("updateTags requires a file path string to save changes");
   }
 
-  // Get the modified buffer
-  const modifiedBuffer = await applyTags(file, tags, options);
+  const taglib = await getTagLib();
+  const audioFile = await taglib.open(file);
+  try {
+    if (!audioFile.isValid()) {
+      throw new InvalidFormatError(
+        "File may be corrupted or in an unsupported format",
+      );
+    }
 
-  // Write the buffer back to the file
-  await writeFileData(file, modifiedBuffer);
+    audioFile.setExtendedTag(tags);
+
+    // Write the changes back to the file, patching it in place if possible
+    const saveOptions = typeof options === "object" ? options : undefined;
+    return await audioFile.saveToFile(undefined, saveOptions);
+  } finally {
+    audioFile.dispose();
+  }
 }
 
 /**
@@ -232,6 +260,87 @@ export async function readProperties(
   }
 }
 
+/**
+ * Read every value of a metadata property from an audio file
+ *
+ * Unlike `readTags()`, which reports only the first value of each field,
+ * this returns all values stored for the key (e.g., several artists or genres).
+ *
+ * @param file - File path, Uint8Array buffer, ArrayBuffer, or File object
+ * @param key - Property name (e.g., "ARTIST", "GENRE", "PERFORMER")
+ * @returns All values for the key, or an empty array if it is not set
+ *
+ * @example
+ * ```typescript
+ * const artists = await readPropertyValues("song.flac", "ARTIST");
+ * console.log(artists); // ["Artist One", "Artist Two"]
+ * ```
+ */
+export async function readPropertyValues(
+  file: string | Uint8Array | ArrayBuffer | File,
+  key: string,
+): Promise<string[]> {
+  const taglib = await getTagLib();
+  const audioFile = await taglib.open(file);
+  try {
+    if (!audioFile.isValid()) {
+      throw new InvalidFormatError(
+        "File may be corrupted or in an unsupported format",
+      );
+    }
+
+    return audioFile.getPropertyValues(key);
+  } finally {
+    audioFile.dispose();
+  }
+}
+
+/**
+ * Replace every value of a metadata property and return the modified buffer
+ *
+ * @param file - File path, Uint8Array buffer, ArrayBuffer, or File object
+ * @param key - Property name (e.g., "ARTIST", "GENRE", "PERFORMER")
+ * @param values - Values to store (an empty array removes the property)
+ * @returns Modified file buffer with the new values applied
+ *
+ * @example
+ * ```typescript
+ * const modifiedBuffer = await applyPropertyValues("song.flac", "GENRE", [
+ *   "Rock",
+ *   "Blues",
+ * ]);
+ * ```
+ */
+export async function applyPropertyValues(
+  file: string | Uint8Array | ArrayBuffer | File,
+  key: string,
+  values: string[],
+): Promise<Uint8Array> {
+  const taglib = await getTagLib();
+  const audioFile = await taglib.open(file);
+  try {
+    if (!audioFile.isValid()) {
+      throw new InvalidFormatError(
+        "File may be corrupted or in an unsupported format",
+      );
+    }
+
+    audioFile.setPropertyValues(key, values);
+
+    // Save changes to in-memory buffer
+    if (!audioFile.save()) {
+      throw new FileOperationError(
+        "save",
+        "Failed to save metadata changes. The file may be read-only or corrupted.",
+      );
+    }
+
+    return audioFile.getFileBuffer();
+  } finally {
+    audioFile.dispose();
+  }
+}
+
 /**
  * Tag field constants for go-taglib compatibility.
  * These match the constants used in go-taglib for consistent API.
@@ -1,12 +1,43 @@
 import type { TagLibModule, WasmModule } from "./wasm.ts";
-import type {
-  AudioProperties,
-  FileType,
-  OpenOptions,
-  Picture,
-  PropertyMap,
-  Tag as BasicTag,
+import {
+  type APEItem,
+  type ASFAttribute,
+  type AudioProperties,
+  type AudioSource,
+  type BroadcastExtension,
+  type Chapter,
+  type ExtendedTag,
+  type FileType,
+  type GaplessInfo,
+  type ID3v2Frame,
+  type ID3v2PopularimeterFrame,
+  ID3v2TimestampFormat,
+  type ImportMetadataOptions,
+  METADATA_MAPPINGS,
+  type MetadataChanges,
+  type MetadataSnapshot,
+  type MP4Item,
+  type OpenOptions,
+  type Picture,
+  type PropertyMap,
+  type RatingOptions,
+  type RIFFTagPlacement,
+  type SaveOptions,
+  type SaveResult,
+  type SaveToFileOptions,
+  type SyncedLyrics,
+  type Tag as BasicTag,
+  type TagContainer,
+  type TagType,
+  type UnsavedEdit,
+  type WriteOptions,
 } from "./types.ts";
+import {
+  formatPropertyValue,
+  parsePropertyValue,
+  type PropertyKey,
+  type PropertyValue,
+} from "./constants.ts";
 import {
   InvalidFormatError,
   MetadataError,
@@ -18,7 +49,48 @@ import {
   readFileData,
   readPartialFileData,
 } from "./utils/file.ts";
-import { writeFileData } from "./utils/write.ts";
+import { diffFileData, patchFileData, writeFileData } from "./utils/write.ts";
+import { type AudioSourceInput, createAudioSource } from "./audio-source.ts";
+import { readMP4Chapters, writeMP4Chapters } from "./mp4-chapters.ts";
+import { applyPadding, checkPadding, locatePadding } from "./padding.ts";
+import { formatLRC, isLRC, parseLRC } from "./lyrics.ts";
+import {
+  decodeBase64,
+  encodeBase64,
+  fromSnapshotValue,
+  METADATA_SNAPSHOT_VERSION,
+  toSnapshotValue,
+  validateSnapshot,
+} from "./metadata-snapshot.ts";
+import {
+  formatITunSMPB,
+  ITUNSMPB_DESCRIPTION,
+  ITUNSMPB_MP4_KEY,
+  parseITunSMPB,
+  readLAMEGapless,
+  readMP3Head,
+  writeLAMEGapless,
+} from "./gapless.ts";
+import {
+  formatBroadcastExtension,
+  formatIXML,
+  parseBroadcastExtension,
+  parseIXML,
+  readRIFFChunk,
+  writeRIFFChunks,
+} from "./riff.ts";
+import {
+  ASF_MAX_RATING,
+  ASF_PLAYCOUNT_ATTRIBUTE,
+  ASF_RATING_ATTRIBUTE,
+  decodePlayCounter,
+  encodePlayCounter,
+  fromRatingScale,
+  parseRatingText,
+  PERCENT_MAX_RATING,
+  POPM_MAX_RATING,
+  toRatingScale,
+} from "./rating.ts";
 
 /**
  * Extended Tag interface with read/write capabilities for audio metadata.
@@ -55,6 +127,130 @@ export interface Tag extends BasicTag {
   setTrack(value: number): void;
 }
 
+/**
+ * Raw access to the frames of an ID3v2 tag.
+ * Exposes frames that the PropertyMap abstraction hides, such as
+ * POPM, PRIV, UFID or GEOB.
+ *
+ * @example
+ * ```typescript
+ * const id3 = file.id3v2();
+ * console.log(id3.listFrames().map((f) => f.id));
+ *
+ * id3.removeFrames("PRIV");
+ * id3.addFrame({
+ *   kind: "popularimeter",
+ *   id: "POPM",
+ *   email: "user@example.com",
+ *   rating: 196,
+ *   counter: 12,
+ * });
+ * file.save();
+ * ```
+ */
+export interface ID3v2Frames {
+  /** Get every frame in tag order */
+  listFrames(): ID3v2Frame[];
+  /** Get all frames with the given four-character frame ID */
+  getFrames(id: string): ID3v2Frame[];
+  /** Add a frame, creating the ID3v2 tag if the file has none */
+  addFrame(frame: ID3v2Frame): void;
+  /** Remove all frames with the given four-character frame ID */
+  removeFrames(id: string): void;
+}
+
+/**
+ * Typed access to the attributes of an ASF (WMA) tag.
+ * Attributes not covered by the PropertyMap, such as `WM/SharedUserRating`
+ * or `WM/MediaClassPrimaryID`, are available here. Title, artist, copyright,
+ * comment and rating live in the content description and are read through
+ * tag() instead.
+ *
+ * @example
+ * ```typescript
+ * const asf = file.asf();
+ * console.log(asf.getAttributes("WM/Genre").map((a) => a.value));
+ *
+ * asf.removeAttributes("WM/Genre");
+ * asf.addAttribute({ name: "WM/Genre", kind: "string", value: "Jazz" });
+ * file.save();
+ * ```
+ */
+export interface ASFAttributes {
+  /** Get every attribute */
+  listAttributes(): ASFAttribute[];
+  /** Get all attributes with the given name */
+  getAttributes(name: string): ASFAttribute[];
+  /** Add an attribute, keeping existing attributes with the same name */
+  addAttribute(attribute: ASFAttribute): void;
+  /** Remove all attributes with the given name */
+  removeAttributes(name: string): void;
+}
+
+/**
+ * Typed access to the items of an APEv2 tag, including binary and external
+ * locator items. Keys are case-insensitive.
+ *
+ * @example
+ * ```typescript
+ * const ape = file.ape();
+ * const cover = ape.getItem("Cover Art (Front)");
+ * if (cover?.kind === "binary") {
+ *   console.log(`Cover item: ${cover.value.length} bytes`);
+ * }
+ *
+ * ape.setItem({ key: "Catalog", kind: "text", value: ["CAT-001"] });
+ * file.save();
+ * ```
+ */
+export interface APEItems {
+  /** Get every item */
+  listItems(): APEItem[];
+  /** Get the item with the given key */
+  getItem(key: string): APEItem | undefined;
+  /** Set an item, replacing any item with the same key */
+  setItem(item: APEItem): void;
+  /** Remove the item with the given key */
+  removeItem(key: string): void;
+}
+
+/**
+ * Access to the RIFF chunks of a WAV file: tag placement, `LIST/INFO`
+ * fields, the Broadcast Wave `bext` chunk and `iXML`.
+ * Changes are written by the next save(). `bext` and `iXML` cannot be
+ * changed on streamed files.
+ *
+ * @example
+ * ```typescript
+ * const riff = file.riff();
+ * riff.setTagPlacement("both");
+ * riff.setInfo("IENG", "J. Smith");
+ * riff.setBroadcastExtension({
+ *   ...riff.getBroadcastExtension()!,
+ *   description: "Scene 12, take 3",
+ * });
+ * file.save();
+ * ```
+ */
+export interface RIFFChunks {
+  /** Get where tags are written on save (default "both") */
+  getTagPlacement(): RIFFTagPlacement;
+  /** Write tags to the INFO chunk, the ID3 chunk or both on save */
+  setTagPlacement(placement: RIFFTagPlacement): void;
+  /** Get all INFO fields by chunk ID, e.g. `{ INAM: "Title" }` */
+  getInfo(): Record<string, string>;
+  /** Set an INFO field by chunk ID; null removes it */
+  setInfo(id: string, value: string | null): void;
+  /** Get the `bext` chunk */
+  getBroadcastExtension(): BroadcastExtension | undefined;
+  /** Replace the `bext` chunk; null removes it */
+  setBroadcastExtension(bext: BroadcastExtension | null): void;
+  /** Get the `iXML` document */
+  getIXML(): string | undefined;
+  /** Replace the `iXML` document; null removes it */
+  setIXML(xml: string | null): void;
+}
+
 /**
  * Represents an audio file with metadata and audio properties.
  * Provides methods for reading and writing metadata, accessing audio properties,
@@ -98,6 +294,28 @@ export interface AudioFile {
    */
   tag(): Tag;
 
+  /**
+   * Get the basic tag plus the extended fields of `METADATA_MAPPINGS`
+   * (album artist, disc and total numbers, sort names, MusicBrainz IDs,
+   * ReplayGain, rating and so on), read from the native fields of the format.
+   * Fields the file does not contain are undefined.
+   * @returns Extended tag values
+   */
+  extendedTag(): ExtendedTag;
+
+  /**
+   * Set extended tag fields. Undefined fields are left unchanged; empty
+   * strings and zero numbers remove a field. A rating or play count of 0 is
+   * stored as such; null removes them.
+   * @param tag - Fields to update
+   * @throws {MetadataError} If a rating or play count is out of range
+   */
+  setExtendedTag(
+    tag:
+      & Partial<Omit<ExtendedTag, "rating" | "playCount">>
+      & { rating?: number | null; playCount?: number | null },
+  ): void;
+
   /**
    * Get audio properties (duration, bitrate, sample rate, etc.).
    * @returns Audio properties or null if unavailable
@@ -118,37 +336,63 @@ export interface AudioFile {
   setProperties(properties: PropertyMap): void;
 
   /**
-   * Get a single property value by key (typed version).
-   * @param key - Property key from PROPERTIES constant
-   * @returns Property value with correct type or undefined if not found
-   */
-  getProperty<K extends import("./constants.ts").PropertyKey>(
-    key: K,
-  ): import("./constants.ts").PropertyValue<K> | undefined;
-
-  /**
-   * Get a single property value by key (string version for backward compatibility).
+   * Get a single raw property value by key.
+   * Use get() for values parsed according to their PROPERTIES type.
    * @param key - Property name (e.g., "ALBUMARTIST", "ACOUSTID_ID")
    * @returns Property value or undefined if not found
    */
   getProperty(key: string): string | undefined;
 
   /**
-   * Set a single property value (typed version).
+   * Set a single raw property value.
+   * Use set() for type-checked values.
+   * @param key - Property name
+   * @param value - Property value
+   */
+  setProperty(key: string, value: string): void;
+
+  /**
+   * Get a property value parsed according to its PROPERTIES type.
+   * @param key - Property key from PROPERTIES constant
+   * @returns Typed value (e.g., number for "BPM") or undefined if not set
+   * @throws {MetadataError} If the stored value cannot be parsed as the declared type
+   *
+   * @example
+   * ```typescript
+   * const bpm = file.get("BPM"); // number | undefined
+   * const compilation = file.get("COMPILATION"); // boolean | undefined
+   * ```
+   */
+  get<K extends PropertyKey>(key: K): PropertyValue<K> | undefined;
+
+  /**
+   * Set a property value, serializing it according to its PROPERTIES type.
    * @param key - Property key from PROPERTIES constant
-   * @param value - Property value with correct type
+   * @param value - Value matching the declared type
+   * @throws {MetadataError} If the value does not match the declared type
+   *
+   * @example
+   * ```typescript
+   * file.set("TRACKNUMBER", 5);
+   * file.set("COMPILATION", true);
+   * ```
    */
-  setProperty<K extends import("./constants.ts").PropertyKey>(
-    key: K,
-    value: import("./constants.ts").PropertyValue<K>,
-  ): void;
+  set<K extends PropertyKey>(key: K, value: PropertyValue<K>): void;
 
   /**
-   * Set a single property value (string version for backward compatibility).
+   * Get every value stored for a property key.
+   * Use this for keys that commonly hold several values (ARTIST, GENRE, PERFORMER).
+   * @param key - Property name (e.g., "ARTIST", "GENRE")
+   * @returns All values in file order, or an empty array if the key is not set
+   */
+  getPropertyValues(key: string): string[];
+
+  /**
+   * Replace all values of a property key.
    * @param key - Property name
-   * @param value - Property value
+   * @param values - Values to store; an empty array removes the key
    */
-  setProperty(key: string, value: string): void;
+  setPropertyValues(key: string, values: string[]): void;
 
   /**
    * Check if this is an MP4/M4A file.
@@ -179,17 +423,232 @@ export interface AudioFile {
    */
   removeMP4Item(key: string): void;
 
+  /**
+   * List every MP4 metadata item with its stored type.
+   * @returns Items in file order
+   * @throws {UnsupportedFormatError} If not an MP4 file
+   */
+  listMP4Items(): MP4Item[];
+
+  /**
+   * Get an MP4 metadata item with its stored type.
+   * @param key - Atom name (e.g., "stik") or freeform key
+   *   (e.g., "----:com.apple.iTunes:iTunSMPB")
+   * @returns Item, or undefined if not present
+   * @throws {UnsupportedFormatError} If not an MP4 file
+   */
+  getMP4TypedItem(key: string): MP4Item | undefined;
+
+  /**
+   * Set an MP4 metadata item, replacing any existing item with the same key.
+   * Use the `kind` TagLib expects for the atom (see `MP4_ATOMS`); freeform
+   * atoms accept `text` and `binary`.
+   * @param item - Item to write
+   * @throws {UnsupportedFormatError} If not an MP4 file
+   * @throws {MetadataError} If the value does not fit the item kind
+   */
+  setMP4TypedItem(item: MP4Item): void;
+
+  /**
+   * Get raw access to the ID3v2 frames of the file.
+   * Available for MP3, WAV and AIFF files.
+   * @returns Frame accessor bound to this file
+   * @throws {UnsupportedFormatError} If the format cannot carry an ID3v2 tag
+   */
+  id3v2(): ID3v2Frames;
+
+  /**
+   * Get typed access to the attributes of an ASF (WMA) file.
+   * @returns Attribute accessor bound to this file
+   * @throws {UnsupportedFormatError} If the file is not ASF
+   */
+  asf(): ASFAttributes;
+
+  /**
+   * Get typed access to the APEv2 tag of an MP3, Monkey's Audio, WavPack or
+   * Musepack file. Setting an item creates the tag if necessary.
+   * @returns Item accessor bound to this file
+   * @throws {UnsupportedFormatError} If the format cannot carry an APE tag
+   */
+  ape(): APEItems;
+
+  /**
+   * Get access to the RIFF chunks of a WAV file.
+   * @returns Chunk accessor bound to this file
+   * @throws {UnsupportedFormatError} If the file is not WAV
+   */
+  riff(): RIFFChunks;
+
+  /**
+   * Get the chapter markers of the file, in playback order.
+   * Available for MP3, WAV and AIFF files (ID3v2 CHAP/CTOC frames) and
+   * MP4 files (QuickTime chapter track or Nero `chpl` atom).
+   * @returns Chapters, or an empty array if the file has none
+   * @throws {UnsupportedFormatError} If the format does not support chapters
+   */
+  getChapters(): Chapter[];
+
+  /**
+   * Replace all chapter markers. Pass an empty array to remove chapters.
+   * ID3v2 files get a top-level CTOC frame so readers keep the given order.
+   * MP4 files get both a QuickTime chapter track and a Nero `chpl` atom;
+   * only titles and times are stored, and the change is applied on save().
+   * @param chapters - Chapters in playback order
+   * @throws {UnsupportedFormatError} If the format does not support chapters
+   * @throws {MetadataError} If a chapter has invalid times or a duplicate ID,
+   *   or if the file is a streamed MP4 file
+   */
+  setChapters(chapters: Chapter[]): void;
+
+  /**
+   * Get synchronized lyrics.
+   * Read from the first millisecond-based SYLT frame for ID3v2 formats, and
+   * from LRC text in the `LYRICS` property (Vorbis `LYRICS`, MP4 `©lyr`)
+   * for other formats.
+   * @returns Lyrics, or undefined if the file has no synced lyrics
+   */
+  getSyncedLyrics(): SyncedLyrics | undefined;
+
+  /**
+   * Replace synchronized lyrics. ID3v2 formats get a single SYLT frame with
+   * millisecond timestamps; other formats store LRC text in `LYRICS`.
+   *
+   * On ID3v2, only SYLT lyrics frames in the same language are replaced and
+   * other timed text is kept; null removes the lyrics frames of all languages.
+   * Elsewhere, null only clears `LYRICS` if it holds LRC text.
+   * @param lyrics - Lyrics to write, or null to remove them
+   * @throws {MetadataError} If a line has an invalid time
+   */
+  setSyncedLyrics(lyrics: SyncedLyrics | null): void;
+
+  /**
+   * Get the rating of the file, normalized to 0.0-1.0.
+   * Read from the ID3v2 POPM frame (1-255), Vorbis `FMPS_RATING` or
+   * `RATING`, or the MP4 `rate` item (0-100).
+   * @param options - Rating owner for ID3v2 files
+   * @returns Rating, or undefined if the file is unrated
+   */
+  getRating(options?: RatingOptions): number | undefined;
+
+  /**
+   * Set the rating of the file.
+   * ID3v2 POPM frames reserve 0 for "unrated", so a rating of 0 reads back
+   * as undefined for MP3, WAV and AIFF files.
+   * @param rating - Rating between 0.0 and 1.0, or null to remove it
+   * @param options - Rating owner for ID3v2 files
+   * @throws {MetadataError} If the rating is out of range
+   */
+  setRating(rating: number | null, options?: RatingOptions): void;
+
+  /**
+   * Get the play count of the file.
+   * Read from the ID3v2 PCNT frame (falling back to the POPM counter) or the
+   * `FMPS_PLAYCOUNT` field for other formats.
+   * @returns Play count, or undefined if not set
+   */
+  getPlayCount(): number | undefined;
+
+  /**
+   * Set the play count of the file.
+   * @param count - Play count, or null to remove it
+   * @throws {MetadataError} If the count is not a non-negative integer
+   */
+  setPlayCount(count: number | null): void;
+
+  /**
+   * Get the encoder delay and padding for gapless playback.
+   * Read from the iTunes `iTunSMPB` value (an ID3v2 comment in MP3 files, a
+   * freeform atom in MP4 files), falling back to the LAME tag of MP3 files.
+   * @returns Gapless information, or undefined if the file has none
+   */
+  getGaplessInfo(): GaplessInfo | undefined;
+
+  /**
+   * Set the encoder delay and padding for gapless playback.
+   * Writes the iTunes `iTunSMPB` value; MP3 files with a LAME tag also get
+   * the delay and padding in that tag when saved. Removing the information
+   * leaves the LAME tag unchanged.
+   * @param info - Gapless information, or null to remove the `iTunSMPB` value
+   * @throws {UnsupportedFormatError} If the file is not MP3 or MP4
+   * @throws {MetadataError} If a value is negative or does not fit the LAME tag
+   */
+  setGaplessInfo(info: GaplessInfo | null): void;
+
+  /**
+   * List the tag containers present in the file, in the order TagLib reads
+   * them. Reflects the file as last loaded or saved.
+   * @returns Containers such as `{ type: "ID3v2", version: 4 }`
+   */
+  tagTypes(): TagContainer[];
+
+  /**
+   * Remove whole tag containers from the file. Pending changes are saved
+   * first and the result is written to the in-memory buffer, as with save().
+   * Types the format does not have are ignored.
+   * @param types - Containers to remove, e.g. `["APE", "ID3v1"]`
+   * @throws {MetadataError} If the tags could not be removed
+   */
+  stripTags(types: TagType[]): void;
+
   /**
    * Save all changes to the in-memory buffer.
    * Note: This does not write to disk, but updates the internal buffer.
    * Use getFileBuffer() to retrieve the modified data.
+   * Streamed files are written to their source instead; read-only sources
+   * cannot be saved.
+   * @param options - Tag types and ID3v2 version to write
    * @returns true if save was successful
    */
-  save(): boolean;
+  save(options?: SaveOptions): boolean;
+
+  /**
+   * Check whether the file has edits that save() has not written yet.
+   * Covers tags, properties, pictures, format-specific frames and items,
+   * and pending chapter, chunk and gapless changes.
+   * @returns true if saving would change the file
+   */
+  hasUnsavedChanges(): boolean;
+
+  /**
+   * Compare tags, properties and pictures with the file as last opened or
+   * saved. Edits made only through format-specific accessors such as
+   * id3v2(), and pending chapter, chunk and gapless changes, are listed
+   * by kind in `other`.
+   * @returns Fields with their saved and edited values
+   * @throws {MetadataError} If the saved state cannot be read
+   */
+  changes(): MetadataChanges;
+
+  /**
+   * Discard all unsaved edits and return to the file as last opened or
+   * saved. Accessors such as id3v2() obtained before must be requested again.
+   * @throws {MetadataError} If the saved state cannot be reloaded
+   */
+  revert(): void;
+
+  /**
+   * Export all metadata as a versioned JSON-compatible document: every
+   * property with all values, every picture, format-specific frames and
+   * items, and the audio properties. Unsaved edits are included.
+   * @returns Snapshot that can be passed to importMetadata()
+   */
+  exportMetadata(): MetadataSnapshot;
+
+  /**
+   * Apply a snapshot created by exportMetadata(). Format-specific items are
+   * applied if this file supports their container; audio properties are
+   * ignored. Call save() to write the result.
+   * @param doc - Snapshot, e.g. parsed from JSON
+   * @param options - Whether to merge with or replace the existing metadata
+   * @throws {MetadataError} If the snapshot version is unsupported or an
+   *   item cannot be written
+   */
+  importMetadata(doc: MetadataSnapshot, options?: ImportMetadataOptions): void;
 
   /**
    * Get the current file data as a buffer, including any modifications.
    * Call this after save() to get the updated file data.
+   * Streamed files are read from their source in full.
    * @returns Uint8Array containing the complete file data
    */
   getFileBuffer(): Uint8Array;
@@ -197,10 +656,18 @@ export interface AudioFile {
   /**
    * Save all changes to a file on disk.
    * This first saves changes to the in-memory buffer, then writes to the specified path.
+   * When saving back to the file it was opened from and the file keeps its
+   * size, only the changed blocks are written; these patches are not
+   * atomic. Otherwise, or with `inPlace: false`, the whole file is replaced
+   * atomically. Streamed files are saved to their source, and copied to
+   * `path` if given.
    * @param path - Optional file path. If not provided, saves to the original path (if opened from a file).
+   * @param options - Tags to write, and how to write the file: in place or
+   *   atomically, with a backup, keeping owner and times
+   * @returns How the file was written
    * @throws {Error} If no path is available or write fails
    */
-  saveToFile(path?: string): Promise<void>;
+  saveToFile(path?: string, options?: SaveToFileOptions): Promise<SaveResult>;
 
   /**
    * Check if the file was loaded successfully and is valid.
@@ -360,6 +827,131 @@ export interface AudioFile {
   setAppleSoundCheck(data: string): void;
 }
 
+/** Value ranges of MP4 integer item kinds, as stored in the atom */
+const MP4_INTEGER_RANGES = {
+  int: [-0x80000000, 0x7fffffff],
+  byte: [0, 0xff],
+  uint: [0, 0xffffffff],
+  longlong: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+} as const;
+
+/** Value range of each ASF integer attribute kind */
+const ASF_INTEGER_RANGES = {
+  word: [0, 0xffff],
+  dword: [0, 0xffffffff],
+  qword: [0, Number.MAX_SAFE_INTEGER],
+} as const;
+
+/** Formats that can carry an APEv2 tag */
+const APE_FORMATS: FileType[] = ["MP3", "APE", "WAVPACK", "MPC"];
+
+/** Check whether an APE item key holds cover art, e.g. "Cover Art (Front)" */
+function isAPECoverKey(key: string): boolean {
+  return key.toLowerCase().startsWith("cover art (");
+}
+
+/**
+ * Identity of an ID3v2 frame when merging snapshots. Frames that may occur
+ * several times are told apart by their description, language or owner.
+ */
+function id3v2FrameKey(frame: ID3v2Frame): string {
+  switch (frame.kind) {
+    case "userText":
+    case "userUrl":
+    case "object":
+      return `${frame.id}:${frame.description}`;
+    case "comment":
+    case "lyrics":
+    case "syncedLyrics":
+      return `${frame.id}:${frame.language}:${frame.description}`;
+    case "popularimeter":
+      return `${frame.id}:${frame.email}`;
+    case "private":
+    case "uniqueFileIdentifier":
+      return `${frame.id}:${frame.owner}`;
+    default:
+      return frame.id;
+  }
+}
+
+/** Basic tag fields compared by changes() */
+const BASIC_TAG_FIELDS = [
+  "title",
+  "artist",
+  "album",
+  "comment",
+  "genre",
+  "year",
+  "track",
+] as const;
+
+/** Extended tag fields read and written by code of their own */
+const EXTENDED_TAG_SPECIAL_FIELDS = new Set<string>([
+  ...BASIC_TAG_FIELDS,
+  "discNumber",
+  "totalTracks",
+  "totalDiscs",
+  "bpm",
+  "compilation",
+  "appleSoundCheck",
+  "rating",
+  "playCount",
+]);
+
+/** Formats whose Vorbis comments keep track and disc totals apart */
+const XIPH_FORMATS: FileType[] = ["FLAC", "OGG", "OPUS", "SPEEX", "OGGFLAC"];
+
+/** Parse a positive count, e.g. "12" */
+function parseCount(value: string | undefined): number | undefined {
+  const count = Number.parseInt(value ?? "", 10);
+  return count > 0 ? count : undefined;
+}
+
+/** Split a position such as "3/12" into number and total */
+function parsePosition(
+  value: string | undefined,
+): [number | undefined, number | undefined] {
+  const [number, total] = (value ?? "").split("/");
+  return [parseCount(number), parseCount(total)];
+}
+
+/** Format a position as "3/12", or "3" without a total */
+function formatPosition(number = 0, total = 0): string[] {
+  if (number <= 0 && total <= 0) return [];
+  return [total > 0 ? `${number}/${total}` : String(number)];
+}
+
+/** Metadata of a file handle, as compared by changes() */
+interface MetadataState {
+  tags: BasicTag;
+  properties: PropertyMap;
+  pictures: Picture[];
+  /** Format-specific frames and items */
+  native: unknown[];
+}
+
+/** Structural equality for metadata values, including byte arrays. */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isSameValue(v, b[i]));
+  }
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every((key) =>
+        isSameValue(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+        )
+      );
+  }
+  return false;
+}
+
 /**
  * Implementation of AudioFile interface using Embind API.
  * Wraps the native TagLib C++ FileHandle object.
@@ -375,6 +967,17 @@ export class AudioFileImpl implements AudioFile {
   private originalSource?: string | File | ArrayBuffer | Uint8Array;
   private isPartiallyLoaded: boolean = false;
   private partialLoadOptions?: OpenOptions;
+  private pendingMP4Chapters?: Chapter[];
+  private pendingRIFFChunks = new Map<string, Uint8Array | null>();
+  private pendingLAMEGapless?: GaplessInfo;
+  private riffTagPlacement?: RIFFTagPlacement;
+  /** Whether the tag placement changed since the last save */
+  private riffTagPlacementChanged = false;
+  /** Metadata as last opened or saved, read by the first comparison */
+  private savedState?: MetadataState;
+  /** Whether the buffer still holds what is on disk at sourcePath */
+  private bufferOnDisk: boolean;
+  private streamSource?: AudioSource;
 
   constructor(
     private module: TagLibModule,
@@ -383,12 +986,15 @@ export class AudioFileImpl implements AudioFile {
     originalSource?: string | File | ArrayBuffer | Uint8Array,
     isPartiallyLoaded: boolean = false,
     partialLoadOptions?: OpenOptions,
+    streamSource?: AudioSource,
   ) {
     this.fileHandle = fileHandle;
     this.sourcePath = sourcePath;
     this.originalSource = originalSource;
     this.isPartiallyLoaded = isPartiallyLoaded;
     this.partialLoadOptions = partialLoadOptions;
+    this.bufferOnDisk = !!sourcePath;
+    this.streamSource = streamSource;
   }
 
   /** @inheritdoc */
@@ -425,6 +1031,115 @@ export class AudioFileImpl implements AudioFile {
     };
   }
 
+  /** @inheritdoc */
+  extendedTag(): ExtendedTag {
+    const tag = this.tag();
+    const properties = this.properties();
+    const first = (key?: string) => key ? properties[key]?.[0] : undefined;
+
+    const result: ExtendedTag = {
+      title: tag.title,
+      artist: tag.artist,
+      album: tag.album,
+      comment: tag.comment,
+      genre: tag.genre,
+      year: tag.year,
+      track: tag.track,
+    };
+    const fields = result as Record<string, unknown>;
+    for (const [field, mapping] of Object.entries(METADATA_MAPPINGS)) {
+      if (EXTENDED_TAG_SPECIAL_FIELDS.has(field)) continue;
+      const value = first(mapping.vorbis);
+      if (value) fields[field] = value;
+    }
+
+    // Formats other than Vorbis comments store totals as "3/12"
+    const [, trackTotal] = parsePosition(first("TRACKNUMBER"));
+    const [disc, discTotal] = parsePosition(first("DISCNUMBER"));
+    const compilation = first("COMPILATION");
+    const special: Partial<ExtendedTag> = {
+      discNumber: disc,
+      totalTracks: parseCount(first("TRACKTOTAL")) ?? trackTotal,
+      totalDiscs: parseCount(first("DISCTOTAL")) ?? discTotal,
+      bpm: parseCount(first("BPM")),
+      compilation: compilation ? compilation === "1" : undefined,
+      appleSoundCheck: this.getAppleSoundCheck(),
+      rating: this.getRating(),
+      playCount: this.getPlayCount(),
+    };
+    for (const [field, value] of Object.entries(special)) {
+      if (value !== undefined) fields[field] = value;
+    }
+    return result;
+  }
+
+  /** @inheritdoc */
+  setExtendedTag(
+    tag:
+      & Partial<Omit<ExtendedTag, "rating" | "playCount">>
+      & { rating?: number | null; playCount?: number | null },
+  ): void {
+    const basic = this.tag();
+    if (tag.title !== undefined) basic.setTitle(tag.title);
+    if (tag.artist !== undefined) basic.setArtist(tag.artist);
+    if (tag.album !== undefined) basic.setAlbum(tag.album);
+    if (tag.comment !== undefined) basic.setComment(tag.comment);
+    if (tag.genre !== undefined) basic.setGenre(tag.genre);
+    if (tag.year !== undefined) basic.setYear(tag.year);
+    if (tag.track !== undefined) basic.setTrack(tag.track);
+
+    for (const [field, mapping] of Object.entries(METADATA_MAPPINGS)) {
+      const value = tag[field as keyof ExtendedTag];
+      if (
+        value === undefined || EXTENDED_TAG_SPECIAL_FIELDS.has(field) ||
+        !mapping.vorbis
+      ) {
+        continue;
+      }
+      this.setPropertyValues(mapping.vorbis, value ? [String(value)] : []);
+    }
+
+    if (
+      tag.totalTracks !== undefined || tag.discNumber !== undefined ||
+      tag.totalDiscs !== undefined
+    ) {
+      const current = this.extendedTag();
+      const track = tag.track ?? current.track;
+      const totalTracks = tag.totalTracks ?? current.totalTracks;
+      const disc = tag.discNumber ?? current.discNumber;
+      const totalDiscs = tag.totalDiscs ?? current.totalDiscs;
+
+      if (XIPH_FORMATS.includes(this.getFormat())) {
+        const count = (value?: number) => value ? [String(value)] : [];
+        this.setPropertyValues("TRACKTOTAL", count(totalTracks));
+        this.setPropertyValues("DISCNUMBER", count(disc));
+        this.setPropertyValues("DISCTOTAL", count(totalDiscs));
+      } else {
+        this.setPropertyValues(
+          "TRACKNUMBER",
+          formatPosition(track, totalTracks),
+        );
+        this.setPropertyValues("DISCNUMBER", formatPosition(disc, totalDiscs));
+      }
+    }
+
+    if (tag.bpm !== undefined) {
+      this.setPropertyValues("BPM", tag.bpm ? [String(tag.bpm)] : []);
+    }
+    if (tag.compilation !== undefined) {
+      this.setPropertyValues("COMPILATION", tag.compilation ? ["1"] : []);
+    }
+    if (tag.appleSoundCheck !== undefined) {
+      this.setAppleSoundCheck(tag.appleSoundCheck);
+    }
+    if (tag.rating !== undefined) {
+      this.setRating(tag.rating);
+    }
+    if (tag.playCount !== undefined) {
+      this.setPlayCount(tag.playCount);
+    }
+  }
+
   /** @inheritdoc */
   audioProperties(): AudioProperties | null {
     if (!this.cachedAudioProperties) {
@@ -433,8 +1148,16 @@ export class AudioFileImpl implements AudioFile {
         return null;
       }
 
+      // Wasm builds that predate these bindings only report whole seconds
+      const length = propsWrapper.lengthInSeconds();
       this.cachedAudioProperties = {
-        length: propsWrapper.lengthInSeconds(),
+        length,
+        lengthMs: typeof propsWrapper.lengthInMilliseconds === "function"
+          ? propsWrapper.lengthInMilliseconds()
+          : length * 1000,
+        totalSamples: typeof propsWrapper.totalSamples === "function"
+          ? propsWrapper.totalSamples() || undefined
+          : undefined,
         bitrate: propsWrapper.bitrate(),
         sampleRate: propsWrapper.sampleRate(),
         channels: propsWrapper.channels(),
@@ -442,6 +1165,9 @@ export class AudioFileImpl implements AudioFile {
         codec: propsWrapper.codec(),
         containerFormat: propsWrapper.containerFormat(),
         isLossless: propsWrapper.isLossless(),
+        details: typeof propsWrapper.details === "function"
+          ? propsWrapper.details()
+          : undefined,
       };
     }
 
@@ -478,6 +1204,31 @@ export class AudioFileImpl implements AudioFile {
     this.fileHandle.setProperty(key, value);
   }
 
+  /** @inheritdoc */
+  get<K extends PropertyKey>(key: K): PropertyValue<K> | undefined {
+    const raw = this.getProperty(key);
+    return raw === undefined ? undefined : parsePropertyValue(key, raw);
+  }
+
+  /** @inheritdoc */
+  set<K extends PropertyKey>(key: K, value: PropertyValue<K>): void {
+    this.setProperty(
+      key,
+      formatPropertyValue(key, value, this.getProperty(key)),
+    );
+  }
+
+  /** @inheritdoc */
+  getPropertyValues(key: string): string[] {
+    const values = this.fileHandle.getPropertyValues(key);
+    return Array.from(values as ArrayLike<string>);
+  }
+
+  /** @inheritdoc */
+  setPropertyValues(key: string, values: string[]): void {
+    this.fileHandle.setPropertyValues(key, [...values]);
+  }
+
   /** @inheritdoc */
   isMP4(): boolean {
     return this.fileHandle.isMP4();
@@ -521,50 +1272,1258 @@ export class AudioFileImpl implements AudioFile {
   }
 
   /** @inheritdoc */
-  save(): boolean {
-    // If partially loaded, we need to load the full file first
-    if (this.isPartiallyLoaded && this.originalSource) {
-      throw new Error(
-        "Cannot save partially loaded file directly. Use saveToFile() instead, which will automatically load the full file.",
+  listMP4Items(): MP4Item[] {
+    this.assertMP4Support();
+    return Array.from(this.fileHandle.getMP4Items("") as ArrayLike<MP4Item>);
+  }
+
+  /** @inheritdoc */
+  getMP4TypedItem(key: string): MP4Item | undefined {
+    this.assertMP4Support();
+    const [item] = Array.from(
+      this.fileHandle.getMP4Items(key) as ArrayLike<MP4Item>,
+    );
+    return item;
+  }
+
+  /** @inheritdoc */
+  setMP4TypedItem(item: MP4Item): void {
+    this.assertMP4Support();
+
+    const invalid = (reason: string) =>
+      new MetadataError(
+        "write",
+        `Invalid MP4 item "${item.key}": ${reason}`,
+        item.key,
       );
+
+    if (item.key.startsWith("----")) {
+      if (!/^----:[^:]+:.+$/.test(item.key)) {
+        throw invalid("freeform keys must look like ----:<mean>:<name>");
+      }
+    } else if (item.key.length !== 4) {
+      throw invalid("atom names must be 4 characters long");
     }
 
-    // Clear caches since values may have changed
-    this.cachedTag = null;
-    this.cachedAudioProperties = null;
+    if (
+      item.kind === "int" || item.kind === "byte" || item.kind === "uint" ||
+      item.kind === "longlong"
+    ) {
+      const [min, max] = MP4_INTEGER_RANGES[item.kind];
+      if (
+        !Number.isInteger(item.value) || item.value < min || item.value > max
+      ) {
+        throw invalid(
+          `${item.kind} value must be an integer in ${min}..${max}`,
+        );
+      }
+    } else if (
+      item.kind === "intPair" &&
+      !item.value.every((n) => Number.isInteger(n) && n >= 0 && n <= 0xffff)
+    ) {
+      throw invalid("intPair values must be integers in 0..65535");
+    }
 
-    return this.fileHandle.save();
+    if (!this.fileHandle.setMP4TypedItem(item)) {
+      throw invalid(`unsupported kind "${item.kind}"`);
+    }
   }
 
   /** @inheritdoc */
-  getFileBuffer(): Uint8Array {
-    const buffer = this.fileHandle.getBuffer();
-    if (!buffer) {
-      return new Uint8Array(0);
-    }
+  id3v2(): ID3v2Frames {
+    this.assertID3v2Support();
 
-    // The buffer is already a Uint8Array from the C++ side
-    return buffer;
+    const handle = this.fileHandle;
+    const toArray = (frames: ArrayLike<ID3v2Frame>) => Array.from(frames);
+
+    return {
+      listFrames: () => toArray(handle.getID3v2Frames("")),
+      getFrames: (id: string) => toArray(handle.getID3v2Frames(id)),
+      addFrame: (frame: ID3v2Frame) => {
+        if (!/^[A-Z0-9]{4}$/.test(frame.id)) {
+          throw new MetadataError(
+            "write",
+            `Invalid ID3v2 frame ID "${frame.id}"`,
+            frame.id,
+          );
+        }
+        if (!handle.addID3v2Frame(frame)) {
+          throw new MetadataError(
+            "write",
+            `Failed to add ID3v2 ${frame.id} frame`,
+            frame.id,
+          );
+        }
+      },
+      removeFrames: (id: string) => handle.removeID3v2Frames(id),
+    };
   }
 
   /** @inheritdoc */
-  async saveToFile(path?: string): Promise<void> {
-    // Determine the target path
-    const targetPath = path || this.sourcePath;
-    if (!targetPath) {
-      throw new Error(
-        "No file path available. Either provide a path or open the file from a path.",
-      );
+  asf(): ASFAttributes {
+    if (this.getFormat() !== "ASF") {
+      throw new UnsupportedFormatError(this.getFormat(), ["ASF"]);
     }
 
-    // If partially loaded, we need to load the full file first
-    if (this.isPartiallyLoaded && this.originalSource) {
-      // Load the full file
-      const fullData = await readFileData(this.originalSource);
+    const handle = this.fileHandle;
+    const toArray = (attributes: ArrayLike<ASFAttribute>) =>
+      Array.from(attributes);
 
-      // Create a new file handle with the full data
-      const fullFileHandle = this.module.createFileHandle();
-      const success = fullFileHandle.loadFromBuffer(fullData);
+    return {
+      listAttributes: () => toArray(handle.getASFAttributes("")),
+      getAttributes: (name: string) => toArray(handle.getASFAttributes(name)),
+      addAttribute: (attribute: ASFAttribute) => {
+        if (attribute.kind === "guid") {
+          throw new MetadataError(
+            "write",
+            "GUID attributes cannot be written",
+            attribute.name,
+          );
+        }
+        if (
+          attribute.kind === "word" || attribute.kind === "dword" ||
+          attribute.kind === "qword"
+        ) {
+          const [min, max] = ASF_INTEGER_RANGES[attribute.kind];
+          if (
+            !Number.isInteger(attribute.value) || attribute.value < min ||
+            attribute.value > max
+          ) {
+            throw new MetadataError(
+              "write",
+              `${attribute.kind} value must be an integer in ${min}..${max}`,
+              attribute.name,
+            );
+          }
+        }
+        const value = attribute.kind === "picture"
+          ? {
+            ...attribute,
+            value: {
+              ...attribute.value,
+              description: attribute.value.description || "",
+            },
+          }
+          : attribute;
+        if (!attribute.name || !handle.addASFAttribute(value)) {
+          throw new MetadataError(
+            "write",
+            `Failed to add ASF attribute "${attribute.name}"`,
+            attribute.name,
+          );
+        }
+      },
+      removeAttributes: (name: string) => handle.removeASFAttributes(name),
+    };
+  }
+
+  /** @inheritdoc */
+  ape(): APEItems {
+    if (!APE_FORMATS.includes(this.getFormat())) {
+      throw new UnsupportedFormatError(this.getFormat(), APE_FORMATS);
+    }
+
+    const handle = this.fileHandle;
+
+    return {
+      listItems: () => Array.from(handle.getAPEItems("") as APEItem[]),
+      getItem: (key: string) =>
+        key ? (handle.getAPEItems(key) as APEItem[])[0] : undefined,
+      setItem: (item: APEItem) => {
+        if (!handle.setAPEItem(item)) {
+          throw new MetadataError(
+            "write",
+            `Invalid APE item "${item.key}"; keys must be 2-255 ASCII characters`,
+            item.key,
+          );
+        }
+      },
+      removeItem: (key: string) => handle.removeAPEItem(key),
+    };
+  }
+
+  /** @inheritdoc */
+  riff(): RIFFChunks {
+    if (this.getFormat() !== "WAV") {
+      throw new UnsupportedFormatError(this.getFormat(), ["WAV"]);
+    }
+
+    // save() may replace the file handle, so always go through `this`
+    return {
+      getTagPlacement: () => this.riffTagPlacement ?? "both",
+      setTagPlacement: (placement: RIFFTagPlacement) => {
+        if (placement !== (this.riffTagPlacement ?? "both")) {
+          this.riffTagPlacementChanged = true;
+        }
+        this.riffTagPlacement = placement;
+      },
+      getInfo: () => ({ ...this.fileHandle.getRIFFInfo() }),
+      setInfo: (id: string, value: string | null) => {
+        if (!/^[A-Z0-9 ]{4}$/.test(id)) {
+          throw new MetadataError(
+            "write",
+            `Invalid RIFF INFO ID "${id}"`,
+            id,
+          );
+        }
+        this.fileHandle.setRIFFInfoField(id, value ?? "");
+      },
+      getBroadcastExtension: () => {
+        const data = this.readRIFFChunk("bext");
+        return data && parseBroadcastExtension(data);
+      },
+      setBroadcastExtension: (bext: BroadcastExtension | null) => {
+        this.assertBuffered("bext");
+        this.pendingRIFFChunks.set(
+          "bext",
+          bext && formatBroadcastExtension(bext),
+        );
+      },
+      getIXML: () => {
+        const data = this.readRIFFChunk("iXML");
+        return data && parseIXML(data);
+      },
+      setIXML: (xml: string | null) => {
+        this.assertBuffered("iXML");
+        this.pendingRIFFChunks.set(
+          "iXML",
+          xml === null ? null : formatIXML(xml),
+        );
+      },
+    };
+  }
+
+  /** @inheritdoc */
+  getChapters(): Chapter[] {
+    if (this.isMP4()) {
+      return this.pendingMP4Chapters
+        ? this.pendingMP4Chapters.map((chapter) => ({ ...chapter }))
+        : readMP4Chapters(this.streamSource ?? this.getFileBuffer());
+    }
+
+    this.assertID3v2Support(["MP4"]);
+    return Array.from(this.fileHandle.getChapters() as ArrayLike<Chapter>);
+  }
+
+  /** @inheritdoc */
+  setChapters(chapters: Chapter[]): void {
+    const isMP4 = this.isMP4();
+    if (!isMP4) {
+      this.assertID3v2Support(["MP4"]);
+    }
+
+    const ids = new Set<string>();
+    const chaptersArray = chapters.map((chapter, index) => {
+      const id = chapter.id ?? `chp${index}`;
+      if (ids.has(id) || id === "toc") {
+        throw new MetadataError(
+          "write",
+          `Duplicate or reserved chapter ID "${id}"`,
+          "CHAP",
+        );
+      }
+      ids.add(id);
+
+      if (
+        !Number.isInteger(chapter.startTime) ||
+        !Number.isInteger(chapter.endTime) ||
+        chapter.startTime < 0 ||
+        chapter.endTime < chapter.startTime
+      ) {
+        throw new MetadataError(
+          "write",
+          `Chapter "${id}" must have integer times with 0 <= startTime <= endTime`,
+          "CHAP",
+        );
+      }
+
+      return {
+        ...chapter,
+        id,
+        image: chapter.image && {
+          ...chapter.image,
+          description: chapter.image.description || "",
+        },
+      };
+    });
+
+    if (isMP4) {
+      this.assertBuffered("chapters");
+      this.pendingMP4Chapters = chapters.map((chapter) => ({ ...chapter }));
+      return;
+    }
+
+    if (!this.fileHandle.setChapters(chaptersArray)) {
+      throw new MetadataError("write", "Failed to write chapters", "CHAP");
+    }
+  }
+
+  /** @inheritdoc */
+  getSyncedLyrics(): SyncedLyrics | undefined {
+    if (!this.supportsID3v2()) {
+      const text = this.getProperty("LYRICS");
+      return text && isLRC(text) ? parseLRC(text) : undefined;
+    }
+
+    const frames = this.id3v2().getFrames("SYLT").filter((frame) =>
+      frame.kind === "syncedLyrics" &&
+      frame.timestampFormat === ID3v2TimestampFormat.Milliseconds
+    );
+    // Prefer frames marked as lyrics over other timed text
+    const frame =
+      frames.find((f) => f.kind === "syncedLyrics" && f.contentType === 1) ??
+        frames[0];
+    if (!frame || frame.kind !== "syncedLyrics") return undefined;
+
+    return {
+      language: frame.language,
+      description: frame.description,
+      lines: frame.entries
+        .map((entry) => ({ time: entry.time, text: entry.text }))
+        .sort((a, b) => a.time - b.time),
+    };
+  }
+
+  /** @inheritdoc */
+  setSyncedLyrics(lyrics: SyncedLyrics | null): void {
+    for (const line of lyrics?.lines ?? []) {
+      if (!Number.isInteger(line.time) || line.time < 0) {
+        throw new MetadataError(
+          "write",
+          `Invalid lyrics time ${line.time}; expected milliseconds >= 0`,
+          "LYRICS",
+        );
+      }
+    }
+
+    const lines = [...(lyrics?.lines ?? [])].sort((a, b) => a.time - b.time);
+
+    if (!this.supportsID3v2()) {
+      if (lines.length > 0) {
+        this.setPropertyValues("LYRICS", [formatLRC({ ...lyrics, lines })]);
+      } else if (isLRC(this.getProperty("LYRICS") ?? "")) {
+        // Plain unsynchronized lyrics are kept
+        this.setPropertyValues("LYRICS", []);
+      }
+      return;
+    }
+
+    const id3 = this.id3v2();
+    const language = lyrics?.language ?? "XXX";
+    const kept = id3.getFrames("SYLT").filter((frame) =>
+      frame.kind !== "syncedLyrics" || frame.contentType !== 1 ||
+      (lyrics !== null && frame.language !== language)
+    );
+    id3.removeFrames("SYLT");
+    for (const frame of kept) {
+      id3.addFrame(frame);
+    }
+    if (lines.length > 0) {
+      id3.addFrame({
+        kind: "syncedLyrics",
+        id: "SYLT",
+        language,
+        description: lyrics?.description ?? "",
+        timestampFormat: ID3v2TimestampFormat.Milliseconds,
+        contentType: 1,
+        entries: lines,
+      });
+    }
+  }
+
+  /** @inheritdoc */
+  getRating(options: RatingOptions = {}): number | undefined {
+    if (this.supportsID3v2()) {
+      const frame = this.findPopularimeter(
+        this.id3v2().getFrames("POPM"),
+        options.owner,
+      );
+      return frame && frame.rating > 0
+        ? fromRatingScale(frame.rating, POPM_MAX_RATING)
+        : undefined;
+    }
+
+    if (this.isMP4()) {
+      const value = Number.parseInt(this.getMP4Item("rate") ?? "", 10);
+      return Number.isNaN(value)
+        ? undefined
+        : fromRatingScale(value, PERCENT_MAX_RATING);
+    }
+
+    if (this.getFormat() === "ASF") {
+      const [attribute] = this.asf().getAttributes(ASF_RATING_ATTRIBUTE);
+      return attribute && typeof attribute.value === "number"
+        ? fromRatingScale(attribute.value, ASF_MAX_RATING)
+        : undefined;
+    }
+
+    const fmps = this.getProperty("FMPS_RATING");
+    if (fmps) return parseRatingText(fmps, true);
+    const rating = this.getProperty("RATING");
+    return rating ? parseRatingText(rating, false) : undefined;
+  }
+
+  /** @inheritdoc */
+  setRating(rating: number | null, options: RatingOptions = {}): void {
+    if (rating !== null && !(rating >= 0 && rating <= 1)) {
+      throw new MetadataError(
+        "write",
+        `Invalid rating ${rating}; expected a value between 0 and 1`,
+        "RATING",
+      );
+    }
+
+    if (this.supportsID3v2()) {
+      const id3 = this.id3v2();
+      const frames: ID3v2Frame[] = id3.getFrames("POPM");
+      const existing = this.findPopularimeter(frames, options.owner);
+      const counter = existing?.counter ?? 0;
+      const updated: ID3v2PopularimeterFrame | undefined =
+        rating !== null || counter > 0
+          ? {
+            kind: "popularimeter",
+            id: "POPM",
+            email: options.owner ?? existing?.email ?? "",
+            rating: rating === null
+              ? 0
+              : toRatingScale(rating, POPM_MAX_RATING),
+            counter,
+          }
+          : undefined;
+
+      // Rewrite all POPM frames so the updated one keeps its position
+      const index = existing ? frames.indexOf(existing) : frames.length;
+      frames.splice(index, 1, ...(updated ? [updated] : []));
+      id3.removeFrames("POPM");
+      for (const frame of frames) {
+        id3.addFrame(frame);
+      }
+      return;
+    }
+
+    if (this.isMP4()) {
+      if (rating === null) {
+        this.removeMP4Item("rate");
+      } else {
+        this.setMP4Item(
+          "rate",
+          String(toRatingScale(rating, PERCENT_MAX_RATING)),
+        );
+      }
+      return;
+    }
+
+    if (this.getFormat() === "ASF") {
+      const asf = this.asf();
+      asf.removeAttributes(ASF_RATING_ATTRIBUTE);
+      if (rating !== null) {
+        asf.addAttribute({
+          name: ASF_RATING_ATTRIBUTE,
+          kind: "dword",
+          value: toRatingScale(rating, ASF_MAX_RATING),
+        });
+      }
+      return;
+    }
+
+    // Write both fields so players that only know RATING agree
+    if (rating === null) {
+      this.setPropertyValues("FMPS_RATING", []);
+      this.setPropertyValues("RATING", []);
+    } else {
+      this.setPropertyValues("FMPS_RATING", [String(rating)]);
+      this.setPropertyValues("RATING", [
+        String(toRatingScale(rating, PERCENT_MAX_RATING)),
+      ]);
+    }
+  }
+
+  /** @inheritdoc */
+  getPlayCount(): number | undefined {
+    if (!this.supportsID3v2()) {
+      const value = this.getFormat() === "ASF"
+        ? String(
+          this.asf().getAttributes(ASF_PLAYCOUNT_ATTRIBUTE)[0]?.value ?? "",
+        )
+        : this.getProperty("FMPS_PLAYCOUNT") || this.getProperty("PLAYCOUNT");
+      const count = value ? Number.parseInt(value, 10) : NaN;
+      return Number.isNaN(count) ? undefined : count;
+    }
+
+    const [pcnt] = this.id3v2().getFrames("PCNT");
+    if (pcnt?.kind === "unknown") {
+      return decodePlayCounter(pcnt.data);
+    }
+    const popm = this.findPopularimeter(this.id3v2().getFrames("POPM"));
+    return popm && popm.counter > 0 ? popm.counter : undefined;
+  }
+
+  /** @inheritdoc */
+  setPlayCount(count: number | null): void {
+    if (count !== null && !(Number.isSafeInteger(count) && count >= 0)) {
+      throw new MetadataError(
+        "write",
+        `Invalid play count ${count}; expected a non-negative integer`,
+        "PLAYCOUNT",
+      );
+    }
+
+    if (this.getFormat() === "ASF") {
+      // TagLib's ASF property map drops unknown keys
+      const asf = this.asf();
+      asf.removeAttributes(ASF_PLAYCOUNT_ATTRIBUTE);
+      if (count !== null) {
+        asf.addAttribute({
+          name: ASF_PLAYCOUNT_ATTRIBUTE,
+          kind: "string",
+          value: String(count),
+        });
+      }
+      return;
+    }
+
+    if (!this.supportsID3v2()) {
+      this.setPropertyValues(
+        "FMPS_PLAYCOUNT",
+        count === null ? [] : [String(count)],
+      );
+      // getPlayCount() falls back to the legacy key
+      if (count === null) this.setPropertyValues("PLAYCOUNT", []);
+      return;
+    }
+
+    const id3 = this.id3v2();
+    id3.removeFrames("PCNT");
+    if (count !== null) {
+      id3.addFrame({
+        kind: "unknown",
+        id: "PCNT",
+        data: encodePlayCounter(count),
+      });
+      return;
+    }
+
+    // getPlayCount() falls back to the POPM counters, so reset them as well;
+    // frames left without a rating are dropped, as in setRating()
+    const frames = id3.getFrames("POPM");
+    id3.removeFrames("POPM");
+    for (const frame of frames) {
+      if (frame.kind !== "popularimeter") {
+        id3.addFrame(frame);
+      } else if (frame.rating > 0) {
+        id3.addFrame({ ...frame, counter: 0 });
+      }
+    }
+  }
+
+  /** @inheritdoc */
+  getGaplessInfo(): GaplessInfo | undefined {
+    if (this.isMP4()) {
+      const item = this.getMP4TypedItem(ITUNSMPB_MP4_KEY);
+      return item?.kind === "text" && item.value.length > 0
+        ? parseITunSMPB(item.value[0])
+        : undefined;
+    }
+
+    if (this.getFormat() !== "MP3") return undefined;
+
+    const comment = this.findITunSMPBComment();
+    if (comment) {
+      const info = parseITunSMPB(comment);
+      if (info) return info;
+    }
+    return readLAMEGapless(this.readMP3Head());
+  }
+
+  /** @inheritdoc */
+  setGaplessInfo(info: GaplessInfo | null): void {
+    const format = this.getFormat();
+    if (!this.isMP4() && format !== "MP3") {
+      throw new UnsupportedFormatError(format, ["MP3", "MP4"]);
+    }
+
+    const text = info ? formatITunSMPB(info) : undefined;
+
+    if (this.isMP4()) {
+      if (text === undefined) {
+        this.removeMP4Item(ITUNSMPB_MP4_KEY);
+      } else {
+        this.setMP4TypedItem({
+          key: ITUNSMPB_MP4_KEY,
+          kind: "text",
+          value: [text],
+        });
+      }
+      return;
+    }
+
+    // Check the LAME tag range before changing anything
+    if (info) writeLAMEGapless(this.readMP3Head(), info);
+    this.pendingLAMEGapless = info ?? undefined;
+
+    const id3 = this.id3v2();
+    const comments = id3.getFrames("COMM").filter((frame) =>
+      frame.kind !== "comment" || frame.description !== ITUNSMPB_DESCRIPTION
+    );
+    id3.removeFrames("COMM");
+    for (const frame of comments) {
+      id3.addFrame(frame);
+    }
+    if (text !== undefined) {
+      id3.addFrame({
+        kind: "comment",
+        id: "COMM",
+        language: "eng",
+        description: ITUNSMPB_DESCRIPTION,
+        text,
+      });
+    }
+  }
+
+  /** Get the text of the iTunSMPB comment of an ID3v2 tag. */
+  private findITunSMPBComment(): string | undefined {
+    for (const frame of this.id3v2().getFrames("COMM")) {
+      if (
+        frame.kind === "comment" && frame.description === ITUNSMPB_DESCRIPTION
+      ) {
+        return frame.text;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the POPM frame of a rating owner, or the first one if no owner is
+   * given.
+   */
+  private findPopularimeter(
+    frames: ID3v2Frame[],
+    owner?: string,
+  ): ID3v2PopularimeterFrame | undefined {
+    for (const frame of frames) {
+      if (
+        frame.kind === "popularimeter" &&
+        (owner === undefined || frame.email === owner)
+      ) {
+        return frame;
+      }
+    }
+    return undefined;
+  }
+
+  private assertMP4Support(): void {
+    if (!this.isMP4()) {
+      throw new UnsupportedFormatError(this.getFormat(), ["MP4", "M4A"]);
+    }
+  }
+
+  private supportsID3v2(): boolean {
+    const format = this.getFormat();
+    return format === "MP3" || format === "WAV" || format === "AIFF";
+  }
+
+  private assertID3v2Support(alsoSupported: string[] = []): void {
+    if (!this.supportsID3v2()) {
+      throw new UnsupportedFormatError(this.getFormat(), [
+        "MP3",
+        "WAV",
+        "AIFF",
+        ...alsoSupported,
+      ]);
+    }
+  }
+
+  /**
+   * Load the saved state of the file into a temporary handle. TagLib only
+   * writes to its buffer or source on save, so they hold the saved state.
+   */
+  private withSavedHandle<T>(read: (handle: any) => T): T {
+    const handle = this.module.createFileHandle();
+    try {
+      const loaded = this.streamSource
+        ? handle.loadFromSource(this.streamSource)
+        : handle.loadFromBuffer(this.fileHandle.getBuffer());
+      if (!loaded) {
+        throw new MetadataError("read", "Failed to read the saved file state");
+      }
+      return read(handle);
+    } finally {
+      handle.destroy();
+    }
+  }
+
+  /** Read the metadata of the saved file, reusing it until the next save. */
+  private getSavedState(): MetadataState {
+    if (!this.savedState) {
+      this.savedState = this.withSavedHandle((handle) =>
+        this.readMetadataState(handle)
+      );
+    }
+    return this.savedState;
+  }
+
+  /** List the edits that are written by save() only. */
+  private pendingEdits(): UnsavedEdit[] {
+    const edits: UnsavedEdit[] = [];
+    if (this.pendingMP4Chapters) edits.push("chapters");
+    if (this.pendingRIFFChunks.size > 0) edits.push("riffChunks");
+    if (this.pendingLAMEGapless) edits.push("gapless");
+    if (this.riffTagPlacementChanged) edits.push("tagPlacement");
+    return edits;
+  }
+
+  /** Read the metadata compared by changes() from a file handle. */
+  private readMetadataState(handle: any): MetadataState {
+    const tagWrapper = handle.getTag();
+    const tags: BasicTag = {};
+    for (const field of BASIC_TAG_FIELDS) {
+      (tags as Record<string, unknown>)[field] = tagWrapper?.[field]();
+    }
+
+    const properties: PropertyMap = {};
+    const jsObj = handle.getProperties();
+    for (const key of Object.keys(jsObj)) {
+      properties[key] = jsObj[key];
+    }
+
+    const pictures: Picture[] = Array.from(
+      handle.getPictures() as ArrayLike<Picture>,
+      (pic) => ({
+        mimeType: pic.mimeType,
+        data: pic.data,
+        type: pic.type,
+        description: pic.description,
+      }),
+    );
+
+    const format = this.getFormat();
+    const native: unknown[] = [];
+    if (this.supportsID3v2()) native.push(...handle.getID3v2Frames(""));
+    if (this.isMP4()) native.push(...handle.getMP4Items(""));
+    if (format === "ASF") native.push(...handle.getASFAttributes(""));
+    if (APE_FORMATS.includes(format)) {
+      native.push(...handle.getAPEItems(""));
+    }
+
+    return { tags, properties, pictures, native };
+  }
+
+  /**
+   * Replace the file handle with one loaded from the given buffer, or from
+   * the current buffer if none is given. Streamed files are reloaded from
+   * their source.
+   */
+  private reloadFileHandle(buffer?: Uint8Array): boolean {
+    const fileHandle = this.module.createFileHandle();
+    const loaded = this.streamSource
+      ? fileHandle.loadFromSource(this.streamSource)
+      : fileHandle.loadFromBuffer(buffer ?? this.fileHandle.getBuffer());
+    if (!loaded) {
+      fileHandle.destroy();
+      return false;
+    }
+
+    this.fileHandle.destroy();
+    this.fileHandle = fileHandle;
+    this.savedState = undefined;
+    return true;
+  }
+
+  /**
+   * Reject an edit that rewrites the whole file, which would load a streamed
+   * file into memory.
+   */
+  private assertBuffered(field: string): void {
+    if (this.streamSource) {
+      throw new MetadataError(
+        "write",
+        "Streamed files cannot be rewritten as a whole. Open the file from a path or buffer to change this",
+        field,
+      );
+    }
+  }
+
+  /**
+   * The start of an MP3 file, up to the LAME tag. Streamed files are not
+   * read further.
+   */
+  private readMP3Head(): Uint8Array {
+    return this.streamSource
+      ? readMP3Head(this.streamSource)
+      : this.getFileBuffer();
+  }
+
+  /**
+   * Write pending MP4 chapters into the saved buffer and reload the file
+   * handle from the result.
+   */
+  private flushMP4Chapters(): boolean {
+    if (!this.pendingMP4Chapters) return true;
+
+    const buffer = writeMP4Chapters(
+      this.fileHandle.getBuffer(),
+      this.pendingMP4Chapters,
+    );
+    if (!this.reloadFileHandle(buffer)) return false;
+
+    this.pendingMP4Chapters = undefined;
+    return true;
+  }
+
+  /** Read a RIFF chunk, preferring changes not yet saved. */
+  private readRIFFChunk(id: string): Uint8Array | undefined {
+    if (this.pendingRIFFChunks.has(id)) {
+      return this.pendingRIFFChunks.get(id) ?? undefined;
+    }
+    return readRIFFChunk(this.streamSource ?? this.getFileBuffer(), id);
+  }
+
+  /**
+   * Write pending RIFF chunks into the saved buffer and reload the file
+   * handle from the result.
+   */
+  private flushRIFFChunks(): boolean {
+    if (this.pendingRIFFChunks.size === 0) return true;
+
+    const buffer = writeRIFFChunks(
+      this.fileHandle.getBuffer(),
+      this.pendingRIFFChunks,
+    );
+    if (!this.reloadFileHandle(buffer)) return false;
+
+    this.pendingRIFFChunks.clear();
+    return true;
+  }
+
+  /**
+   * Write pending gapless information into the LAME tag of the saved buffer
+   * and reload the file handle from the result.
+   */
+  private flushLAMEGapless(): boolean {
+    if (!this.pendingLAMEGapless) return true;
+
+    // The LAME tag keeps its size, so streamed files are patched in place
+    const source = this.streamSource;
+    if (source) {
+      const head = writeLAMEGapless(
+        readMP3Head(source),
+        this.pendingLAMEGapless,
+      );
+      if (head) {
+        if (!source.write) return false;
+        source.write(0, head);
+        if (!this.reloadFileHandle()) return false;
+      }
+      this.pendingLAMEGapless = undefined;
+      return true;
+    }
+
+    const buffer = writeLAMEGapless(
+      this.fileHandle.getBuffer(),
+      this.pendingLAMEGapless,
+    );
+    if (buffer && !this.reloadFileHandle(buffer)) return false;
+
+    this.pendingLAMEGapless = undefined;
+    return true;
+  }
+
+  /**
+   * Resize the padding of the saved buffer and reload the file handle from
+   * the result.
+   * @param reservedEnd - End of the tag region before saving, for "preserve"
+   */
+  private flushPadding(
+    padding: SaveOptions["padding"],
+    reservedEnd?: number,
+  ): boolean {
+    if (padding === undefined || padding === "auto") return true;
+
+    const buffer = this.fileHandle.getBuffer();
+    const padded = applyPadding(
+      buffer,
+      this.getFormat(),
+      padding,
+      reservedEnd,
+    );
+    return padded === buffer || this.reloadFileHandle(padded);
+  }
+
+  /**
+   * Options for the native handle: the chosen WAV tag placement is added,
+   * and padding, which is applied to the saved buffer, is left out.
+   */
+  private handleSaveOptions(
+    options?: SaveOptions,
+  ): (SaveOptions & { riffTags?: RIFFTagPlacement }) | undefined {
+    const { padding: _padding, ...tagOptions } = options ?? {};
+    const handleOptions = this.riffTagPlacement
+      ? { ...tagOptions, riffTags: this.riffTagPlacement }
+      : tagOptions;
+    return Object.keys(handleOptions).length > 0 ? handleOptions : undefined;
+  }
+
+  /** @inheritdoc */
+  tagTypes(): TagContainer[] {
+    return Array.from(
+      this.fileHandle.getTagTypes() as ArrayLike<TagContainer>,
+    );
+  }
+
+  /** @inheritdoc */
+  stripTags(types: TagType[]): void {
+    if (this.isPartiallyLoaded && this.originalSource) {
+      throw new Error(
+        "Cannot strip tags from a partially loaded file. Open it without the partial option.",
+      );
+    }
+
+    this.cachedTag = null;
+    this.cachedAudioProperties = null;
+    this.bufferOnDisk = false;
+
+    // TagLib keeps stale tag objects after stripping, so start from a fresh
+    // handle on the result
+    if (
+      !this.fileHandle.stripTags([...types]) ||
+      !this.reloadFileHandle()
+    ) {
+      throw new MetadataError(
+        "write",
+        `Failed to strip ${types.join(", ")} tags`,
+      );
+    }
+  }
+
+  /** @inheritdoc */
+  save(options?: SaveOptions): boolean {
+    // If partially loaded, we need to load the full file first
+    if (this.isPartiallyLoaded && this.originalSource) {
+      throw new Error(
+        "Cannot save partially loaded file directly. Use saveToFile() instead, which will automatically load the full file.",
+      );
+    }
+
+    checkPadding(options?.padding);
+    if (options?.padding !== undefined && options.padding !== "auto") {
+      this.assertBuffered("padding");
+    }
+    const reservedEnd = options?.padding === "preserve"
+      ? locatePadding(this.getFileBuffer(), this.getFormat())?.end
+      : undefined;
+
+    // Clear caches since values may have changed
+    this.cachedTag = null;
+    this.cachedAudioProperties = null;
+    this.savedState = undefined;
+    this.bufferOnDisk = false;
+
+    const handleOptions = this.handleSaveOptions(options);
+    const saved = handleOptions
+      ? this.fileHandle.saveWithOptions(handleOptions)
+      : this.fileHandle.save();
+    if (saved) this.riffTagPlacementChanged = false;
+    return saved && this.flushMP4Chapters() && this.flushRIFFChunks() &&
+      this.flushLAMEGapless() &&
+      this.flushPadding(options?.padding, reservedEnd);
+  }
+
+  /** @inheritdoc */
+  hasUnsavedChanges(): boolean {
+    return this.pendingEdits().length > 0 ||
+      !isSameValue(
+        this.getSavedState(),
+        this.readMetadataState(this.fileHandle),
+      );
+  }
+
+  /** @inheritdoc */
+  changes(): MetadataChanges {
+    const before = this.getSavedState();
+    const after = this.readMetadataState(this.fileHandle);
+    const changes: MetadataChanges = { tags: {}, properties: {} };
+
+    for (const field of BASIC_TAG_FIELDS) {
+      if (before.tags[field] !== after.tags[field]) {
+        (changes.tags as Record<string, unknown>)[field] = {
+          before: before.tags[field],
+          after: after.tags[field],
+        };
+      }
+    }
+
+    const keys = new Set([
+      ...Object.keys(before.properties),
+      ...Object.keys(after.properties),
+    ]);
+    for (const key of keys) {
+      // The saved state is reused, so hand out copies of its values
+      const values = {
+        before: [...(before.properties[key] ?? [])],
+        after: after.properties[key] ?? [],
+      };
+      if (!isSameValue(values.before, values.after)) {
+        changes.properties[key] = values;
+      }
+    }
+
+    if (!isSameValue(before.pictures, after.pictures)) {
+      changes.pictures = {
+        before: before.pictures.map((pic) => ({
+          ...pic,
+          data: pic.data.slice(),
+        })),
+        after: after.pictures,
+      };
+    }
+
+    const other = this.pendingEdits();
+    if (!isSameValue(before.native, after.native)) other.unshift("frames");
+    if (other.length > 0) changes.other = other;
+
+    return changes;
+  }
+
+  /** @inheritdoc */
+  revert(): void {
+    this.cachedTag = null;
+    this.cachedAudioProperties = null;
+    this.pendingMP4Chapters = undefined;
+    this.pendingRIFFChunks.clear();
+    this.pendingLAMEGapless = undefined;
+    // The placement is a setting for later saves, not an edit
+    this.riffTagPlacementChanged = false;
+
+    if (!this.reloadFileHandle()) {
+      throw new MetadataError("read", "Failed to reload the saved file state");
+    }
+  }
+
+  /** @inheritdoc */
+  exportMetadata(): MetadataSnapshot {
+    const format = this.getFormat();
+    const doc: MetadataSnapshot = {
+      version: METADATA_SNAPSHOT_VERSION,
+      format,
+      properties: this.properties(),
+      pictures: this.getPictures().map((picture) => ({
+        mimeType: picture.mimeType,
+        data: encodeBase64(picture.data),
+        type: picture.type,
+        description: picture.description,
+      })),
+    };
+
+    // Pictures are exported once, above
+    if (this.supportsID3v2()) {
+      doc.id3v2 = toSnapshotValue(
+        this.id3v2().listFrames().filter((frame) => frame.kind !== "picture"),
+      );
+    }
+    if (this.isMP4()) {
+      doc.mp4 = toSnapshotValue(
+        this.listMP4Items().filter((item) => item.kind !== "covers"),
+      );
+    }
+    if (format === "ASF") {
+      doc.asf = toSnapshotValue(
+        this.asf().listAttributes().filter((a) => a.kind !== "picture"),
+      );
+    }
+    if (APE_FORMATS.includes(format)) {
+      doc.ape = toSnapshotValue(
+        this.ape().listItems().filter((item) => !isAPECoverKey(item.key)),
+      );
+    }
+    if (format === "WAV") {
+      const riff = this.riff();
+      const bext = riff.getBroadcastExtension();
+      doc.riff = {
+        info: riff.getInfo(),
+        bext: bext && toSnapshotValue(bext),
+        ixml: riff.getIXML(),
+      };
+    }
+
+    const audioProperties = this.audioProperties();
+    if (audioProperties) doc.audioProperties = audioProperties;
+    return doc;
+  }
+
+  /** @inheritdoc */
+  importMetadata(
+    doc: MetadataSnapshot,
+    options: ImportMetadataOptions = {},
+  ): void {
+    validateSnapshot(doc);
+    const replace = options.mode === "replace";
+    const format = this.getFormat();
+
+    if (replace) {
+      this.setProperties(doc.properties);
+    } else {
+      for (const [key, values] of Object.entries(doc.properties)) {
+        this.setPropertyValues(key, values);
+      }
+    }
+
+    const pictures = doc.pictures.map((picture) => ({
+      ...picture,
+      data: decodeBase64(picture.data),
+    }));
+    const types = new Set(pictures.map((picture) => picture.type));
+    this.setPictures([
+      ...(replace
+        ? []
+        : this.getPictures().filter((picture) => !types.has(picture.type))),
+      ...pictures,
+    ]);
+
+    // Items are replaced per frame, key or name
+    if (doc.id3v2 && this.supportsID3v2()) {
+      const id3 = this.id3v2();
+      const frames = fromSnapshotValue<ID3v2Frame[]>(doc.id3v2)
+        .filter((frame) => frame.kind !== "picture");
+      const ids = new Set(frames.map((frame) => frame.id));
+      const keys = new Set(frames.map(id3v2FrameKey));
+      // Frames with the same ID but another description, language or owner
+      // are kept when merging
+      const existing = id3.listFrames().filter((frame) => frame.id !== "APIC");
+      const kept = replace
+        ? []
+        : existing.filter((frame) =>
+          ids.has(frame.id) && !keys.has(id3v2FrameKey(frame))
+        );
+      for (const frame of replace ? existing : frames) {
+        id3.removeFrames(frame.id);
+      }
+      for (const frame of [...kept, ...frames]) {
+        id3.addFrame(frame);
+      }
+    }
+
+    if (doc.mp4 && this.isMP4()) {
+      const items = fromSnapshotValue<MP4Item[]>(doc.mp4)
+        .filter((item) => item.kind !== "covers");
+      if (replace) {
+        const keys = new Set(items.map((item) => item.key));
+        for (const item of this.listMP4Items()) {
+          if (item.kind !== "covers" && !keys.has(item.key)) {
+            this.removeMP4Item(item.key);
+          }
+        }
+      }
+      for (const item of items) {
+        this.setMP4TypedItem(item);
+      }
+    }
+
+    if (doc.asf && format === "ASF") {
+      const asf = this.asf();
+      const attributes = fromSnapshotValue<ASFAttribute[]>(doc.asf)
+        .filter((attribute) => attribute.kind !== "picture");
+      const existing = replace
+        ? asf.listAttributes().filter((a) => a.kind !== "picture")
+        : [];
+      for (const { name } of [...existing, ...attributes]) {
+        asf.removeAttributes(name);
+      }
+      for (const attribute of attributes) {
+        asf.addAttribute(attribute);
+      }
+    }
+
+    if (doc.ape && APE_FORMATS.includes(format)) {
+      const ape = this.ape();
+      const items = fromSnapshotValue<APEItem[]>(doc.ape)
+        .filter((item) => !isAPECoverKey(item.key));
+      if (replace) {
+        const keys = new Set(items.map((item) => item.key.toUpperCase()));
+        for (const { key } of ape.listItems()) {
+          if (!isAPECoverKey(key) && !keys.has(key.toUpperCase())) {
+            ape.removeItem(key);
+          }
+        }
+      }
+      for (const item of items) {
+        ape.setItem(item);
+      }
+    }
+
+    if (doc.riff && format === "WAV") {
+      const riff = this.riff();
+      if (replace) {
+        for (const id of Object.keys(riff.getInfo())) {
+          if (!(id in doc.riff.info)) riff.setInfo(id, null);
+        }
+      }
+      for (const [id, value] of Object.entries(doc.riff.info)) {
+        riff.setInfo(id, value);
+      }
+      if (doc.riff.bext || replace) {
+        riff.setBroadcastExtension(
+          doc.riff.bext
+            ? fromSnapshotValue<BroadcastExtension>(doc.riff.bext)
+            : null,
+        );
+      }
+      if (doc.riff.ixml !== undefined || replace) {
+        riff.setIXML(doc.riff.ixml ?? null);
+      }
+    }
+  }
+
+  /** @inheritdoc */
+  getFileBuffer(): Uint8Array {
+    const buffer = this.fileHandle.getBuffer();
+    if (!buffer) {
+      return new Uint8Array(0);
+    }
+
+    // The buffer is already a Uint8Array from the C++ side
+    return buffer;
+  }
+
+  /** @inheritdoc */
+  async saveToFile(
+    path?: string,
+    options: SaveToFileOptions = {},
+  ): Promise<SaveResult> {
+    // `atomic` applies to whole-file writes; same-size saves are patched
+    // unless inPlace is false
+    const { atomic, backup, preserve, inPlace = true, ...saveOptions } =
+      options;
+    const writeOptions = { atomic, backup, preserve };
+
+    // Streamed files are saved in place; a path receives a copy
+    if (this.streamSource) {
+      if (!this.save(saveOptions)) {
+        throw new Error("Failed to save changes to the audio source");
+      }
+      if (path) {
+        const buffer = this.getFileBuffer();
+        await writeFileData(path, buffer, writeOptions);
+        return { strategy: "rewrite", bytesWritten: buffer.length };
+      }
+      return { strategy: "source" };
+    }
+
+    // Determine the target path
+    const targetPath = path || this.sourcePath;
+    if (!targetPath) {
+      throw new Error(
+        "No file path available. Either provide a path or open the file from a path.",
+      );
+    }
+
+    // If partially loaded, we need to load the full file first
+    if (this.isPartiallyLoaded && this.originalSource) {
+      // Load the full file
+      const fullData = await readFileData(this.originalSource);
+
+      // Create a new file handle with the full data
+      const fullFileHandle = this.module.createFileHandle();
+      const success = fullFileHandle.loadFromBuffer(fullData);
       if (!success) {
         throw new InvalidFormatError(
           "Failed to load full audio file for saving",
@@ -572,55 +2531,106 @@ export class AudioFileImpl implements AudioFile {
         );
       }
 
-      // Copy all tag changes from the partial handle to the full handle
-      const partialTag = this.fileHandle.getTag();
-      const fullTag = fullFileHandle.getTag();
-
-      if (partialTag && fullTag) {
-        // Copy basic tags
-        fullTag.setTitle(partialTag.title());
-        fullTag.setArtist(partialTag.artist());
-        fullTag.setAlbum(partialTag.album());
-        fullTag.setComment(partialTag.comment());
-        fullTag.setGenre(partialTag.genre());
-        fullTag.setYear(partialTag.year());
-        fullTag.setTrack(partialTag.track());
-      }
-
-      // Copy properties
-      const properties = this.fileHandle.getProperties();
-      fullFileHandle.setProperties(properties);
-
-      // Copy pictures
-      const pictures = this.fileHandle.getPictures();
-      fullFileHandle.setPictures(pictures);
+      // Replay everything edited on the partial handle, including the
+      // frames and items that have no property mapping. Pending chapters,
+      // RIFF chunks and LAME data are applied to the saved buffer below.
+      new AudioFileImpl(this.module, fullFileHandle).importMetadata(
+        this.exportMetadata(),
+        { mode: "replace" },
+      );
 
       // Save the full file handle
-      if (!fullFileHandle.save()) {
+      const handleOptions = this.handleSaveOptions(saveOptions);
+      const saved = handleOptions
+        ? fullFileHandle.saveWithOptions(handleOptions)
+        : fullFileHandle.save();
+      if (!saved) {
         fullFileHandle.destroy();
         throw new Error("Failed to save changes to full file");
       }
 
       // Get the buffer from the full file handle
-      const buffer = fullFileHandle.getBuffer();
+      let buffer = fullFileHandle.getBuffer();
       fullFileHandle.destroy();
 
+      if (this.pendingMP4Chapters) {
+        buffer = writeMP4Chapters(buffer, this.pendingMP4Chapters);
+      }
+      if (this.pendingRIFFChunks.size > 0) {
+        buffer = writeRIFFChunks(buffer, this.pendingRIFFChunks);
+      }
+      if (this.pendingLAMEGapless) {
+        buffer = writeLAMEGapless(buffer, this.pendingLAMEGapless) ?? buffer;
+      }
+      if (saveOptions.padding !== undefined) {
+        const format = this.getFormat();
+        buffer = applyPadding(
+          buffer,
+          format,
+          saveOptions.padding,
+          locatePadding(fullData, format)?.end,
+        );
+      }
+
       // Write to file
-      await writeFileData(targetPath, buffer);
+      const result = await this.writeToDisk(
+        targetPath,
+        inPlace && targetPath === this.sourcePath ? fullData : undefined,
+        buffer,
+        writeOptions,
+      );
 
       // Update our state - we're no longer partially loaded
       this.isPartiallyLoaded = false;
       this.originalSource = undefined;
-    } else {
-      // Normal save for fully loaded files
-      if (!this.save()) {
-        throw new Error("Failed to save changes to in-memory buffer");
-      }
+      this.bufferOnDisk = false;
+      return result;
+    }
+
+    // Normal save for fully loaded files; the buffer as loaded is what
+    // the file on disk holds unless it was saved in memory since
+    const onDisk =
+      inPlace && targetPath === this.sourcePath && this.bufferOnDisk
+        ? this.getFileBuffer()
+        : undefined;
+    if (!this.save(saveOptions)) {
+      throw new Error("Failed to save changes to in-memory buffer");
+    }
+
+    // Get the updated buffer and write to file
+    const result = await this.writeToDisk(
+      targetPath,
+      onDisk,
+      this.getFileBuffer(),
+      writeOptions,
+    );
+    this.bufferOnDisk = targetPath === this.sourcePath;
+    return result;
+  }
 
-      // Get the updated buffer and write to file
-      const buffer = this.getFileBuffer();
-      await writeFileData(targetPath, buffer);
+  /**
+   * Write only the changed blocks when the file on disk keeps its size,
+   * falling back to writing the whole buffer.
+   */
+  private async writeToDisk(
+    path: string,
+    onDisk: Uint8Array | undefined,
+    buffer: Uint8Array,
+    options: WriteOptions,
+  ): Promise<SaveResult> {
+    const patches = onDisk && diffFileData(onDisk, buffer);
+    if (
+      patches && await patchFileData(path, buffer.length, patches, options)
+    ) {
+      const bytesWritten = patches.reduce(
+        (sum, { after }) => sum + after.length,
+        0,
+      );
+      return { strategy: "patch", bytesWritten };
     }
+
+    await writeFileData(path, buffer, options);
+    return { strategy: "rewrite", bytesWritten: buffer.length };
   }
 
   /** @inheritdoc */
@@ -877,7 +2887,12 @@ export class TagLib {
    * Open an audio file from various sources.
    * Automatically detects the file format based on content.
    *
-   * @param input - File path (string), ArrayBuffer, Uint8Array, or File object
+   * @param input - File path (string), ArrayBuffer, Uint8Array, File object,
+   *   or an open file to stream: an AudioSource, a Node.js `FileHandle` or a
+   *   Deno `FsFile`. Streamed files are read block by block instead of being
+   *   loaded into memory, `save()` writes to them in place, and they stay
+   *   open after `dispose()`. Edits that rewrite the whole file (MP4
+   *   chapters, WAV `bext` and `iXML` chunks, and padding) are rejected.
    * @returns Promise resolving to AudioFile instance
    * @throws {Error} If the file format is invalid or unsupported
    * @throws {Error} If the module is not properly initialized
@@ -896,12 +2911,16 @@ export class TagLib {
    * // From File object (browser)
    * const file = await taglib.open(fileObject);
    *
+   * // Streamed from an open file (Node.js)
+   * const handle = await fs.promises.open("podcast.m4b", "r+");
+   * const file = await taglib.open(handle);
+   *
    * // Remember to dispose when done
    * file.dispose();
    * ```
    */
   async open(
-    input: string | ArrayBuffer | Uint8Array | File,
+    input: string | ArrayBuffer | Uint8Array | File | AudioSourceInput,
     options?: OpenOptions,
   ): Promise<AudioFile> {
     // Check if Embind is available
@@ -912,6 +2931,28 @@ export class TagLib {
       );
     }
 
+    const source = await createAudioSource(input);
+    if (source) {
+      const fileHandle = this.module.createFileHandle();
+      if (!fileHandle.loadFromSource(source)) {
+        fileHandle.destroy();
+        throw new InvalidFormatError(
+          "Failed to load audio file. File may be corrupted or in an unsupported format",
+          source.size,
+        );
+      }
+      return new AudioFileImpl(
+        this.module,
+        fileHandle,
+        undefined,
+        undefined,
+        false,
+        undefined,
+        source,
+      );
+    }
+    input = input as string | ArrayBuffer | Uint8Array | File;
+
     // Track the source path if input is a string
     const sourcePath = typeof input === "string" ? input : undefined;
 
@@ -1005,33 +3046,32 @@ export class TagLib {
    * This is a convenience method that opens, modifies, saves, and closes the file.
    *
    * @param path - File path to update
-   * @param tags - Object containing tags to update
+   * @param tags - Basic and extended tags to update
+   * @param options - Save options, as for saveToFile()
+   * @returns How the file was written
    * @throws {Error} If file operations fail
    *
    * @example
    * ```typescript
    * await taglib.updateFile("song.mp3", {
    *   title: "New Title",
-   *   artist: "New Artist"
+   *   artist: "New Artist",
+   *   albumArtist: "Various Artists",
+   *   compilation: true
    * });
    * ```
    */
-  async updateFile(path: string, tags: Partial<BasicTag>): Promise<void> {
+  async updateFile(
+    path: string,
+    tags: Partial<ExtendedTag>,
+    options?: SaveToFileOptions,
+  ): Promise<SaveResult> {
     const file = await this.open(path);
     try {
-      const tag = file.tag();
-
-      // Apply tag updates
-      if (tags.title !== undefined) tag.setTitle(tags.title);
-      if (tags.artist !== undefined) tag.setArtist(tags.artist);
-      if (tags.album !== undefined) tag.setAlbum(tags.album);
-      if (tags.year !== undefined) tag.setYear(tags.year);
-      if (tags.track !== undefined) tag.setTrack(tags.track);
-      if (tags.genre !== undefined) tag.setGenre(tags.genre);
-      if (tags.comment !== undefined) tag.setComment(tags.comment);
+      file.setExtendedTag(tags);
 
       // Save to file
-      await file.saveToFile();
+      return await file.saveToFile(undefined, options);
     } finally {
       file.dispose();
     }
@@ -1043,7 +3083,7 @@ export class TagLib {
    *
    * @param sourcePath - Source file path
    * @param destPath - Destination file path
-   * @param tags - Object containing tags to apply
+   * @param tags - Basic and extended tags to apply
    * @throws {Error} If file operations fail
    *
    * @example
@@ -1057,20 +3097,11 @@ export class TagLib {
   async copyWithTags(
     sourcePath: string,
     destPath: string,
-    tags: Partial<BasicTag>,
+    tags: Partial<ExtendedTag>,
   ): Promise<void> {
     const file = await this.open(sourcePath);
     try {
-      const tag = file.tag();
-
-      // Apply tag updates
-      if (tags.title !== undefined) tag.setTitle(tags.title);
-      if (tags.artist !== undefined) tag.setArtist(tags.artist);
-      if (tags.album !== undefined) tag.setAlbum(tags.album);
-      if (tags.year !== undefined) tag.setYear(tags.year);
-      if (tags.track !== undefined) tag.setTrack(tags.track);
-      if (tags.genre !== undefined) tag.setGenre(tags.genre);
-      if (tags.comment !== undefined) tag.setComment(tags.comment);
+      file.setExtendedTag(tags);
 
       // Save to new location
       await file.saveToFile(destPath);
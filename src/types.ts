@@ -29,10 +29,24 @@ export type FileType =
   | "MP3"
   | "MP4"
   | "FLAC"
-  | "OGG"
+  | "OGG" // Ogg Vorbis
   | "OPUS"
+  | "SPEEX" // Ogg Speex
+  | "OGGFLAC" // FLAC in an Ogg container
   | "WAV"
   | "AIFF"
+  | "ASF" // Windows Media (.wma, .asf)
+  | "APE" // Monkey's Audio
+  | "WAVPACK"
+  | "MPC" // Musepack
+  | "TTA" // TrueAudio
+  | "DSF" // DSD Stream File
+  | "DSDIFF" // DSD Interchange File Format (.dff)
+  | "SHORTEN"
+  | "MOD" // ProTracker module
+  | "IT" // Impulse Tracker module
+  | "S3M" // ScreamTracker 3 module
+  | "XM" // FastTracker 2 module
   | "UNKNOWN";
 
 /**
@@ -54,6 +68,15 @@ export type ContainerFormat =
   | "OGG" // Ogg container (can contain Vorbis, Opus, FLAC, Speex)
   | "WAV" // RIFF WAVE format
   | "AIFF" // Audio Interchange File Format
+  | "ASF" // Advanced Systems Format (.wma, .asf)
+  | "APE" // Monkey's Audio
+  | "WAVPACK" // WavPack
+  | "MPC" // Musepack
+  | "TTA" // TrueAudio
+  | "DSF" // DSD Stream File
+  | "DSDIFF" // DSD Interchange File Format
+  | "SHORTEN" // Shorten
+  | "MOD" // Tracker modules (MOD, IT, S3M, XM)
   | "UNKNOWN";
 
 /**
@@ -82,6 +105,17 @@ export type AudioCodec =
   | "PCM" // Pulse Code Modulation (uncompressed)
   | "IEEE Float" // IEEE floating-point PCM
   | "WAV" // Generic WAV codec (when specific codec unknown)
+  | "WMA" // Windows Media Audio (lossy)
+  | "WMA Pro" // Windows Media Audio Professional (lossy)
+  | "WMA Lossless" // Windows Media Audio Lossless
+  | "Monkey's Audio" // APE (lossless)
+  | "WavPack" // WavPack (lossless or hybrid lossy)
+  | "Musepack" // MPC (lossy)
+  | "TrueAudio" // TTA (lossless)
+  | "DSD" // 1-bit Direct Stream Digital (DSF, DSDIFF)
+  | "Shorten" // SHN (lossless)
+  | "Speex" // Ogg Speex (lossy)
+  | "Tracker" // Sequenced tracker module
   | "Unknown";
 
 /**
@@ -116,6 +150,7 @@ export type AudioFormat =
  * ```typescript
  * const props = file.audioProperties();
  * console.log(`Duration: ${props.length} seconds`);
+ * console.log(`Duration: ${props.lengthMs} ms`);
  * console.log(`Bitrate: ${props.bitrate} kbps`);
  * console.log(`Sample rate: ${props.sampleRate} Hz`);
  * console.log(`Container: ${props.containerFormat}`);
@@ -124,8 +159,15 @@ export type AudioFormat =
  * ```
  */
 export interface AudioProperties {
-  /** Length of the audio in seconds */
+  /** Length of the audio in whole seconds */
   readonly length: number;
+  /** Length of the audio in milliseconds */
+  readonly lengthMs: number;
+  /**
+   * Number of samples per channel. Only set for formats that store it
+   * (FLAC, WAV, AIFF, APE, WavPack, Musepack, TrueAudio, Shorten, DSF, DSDIFF).
+   */
+  readonly totalSamples?: number;
   /** Bitrate in kb/s */
   readonly bitrate: number;
   /** Sample rate in Hz */
@@ -140,8 +182,101 @@ export interface AudioProperties {
   readonly containerFormat: string;
   /** Whether the audio is lossless (uncompressed or losslessly compressed) */
   readonly isLossless: boolean;
+  /**
+   * Format-specific stream properties, discriminated by `format`.
+   * Undefined for formats without additional properties.
+   */
+  readonly details?: AudioPropertiesDetails;
+}
+
+/** MPEG audio stream properties (MP3, MP2 and ADTS AAC) */
+export interface MPEGAudioDetails {
+  readonly format: "MP3";
+  /** MPEG version; "4" for ADTS AAC streams */
+  readonly version: "1" | "2" | "2.5" | "4";
+  /** MPEG layer (1-3); 0 for ADTS AAC streams */
+  readonly layer: number;
+  readonly channelMode:
+    | "Stereo"
+    | "JointStereo"
+    | "DualChannel"
+    | "SingleChannel";
+  /** Whether the first frame holds a Xing or Info header */
+  readonly hasXingHeader: boolean;
+  /** Whether the first frame holds a Fraunhofer VBRI header */
+  readonly hasVBRIHeader: boolean;
+  /**
+   * Bitrate mode from the Xing/Info, LAME or VBRI header.
+   * Undefined if the file has none of these headers.
+   */
+  readonly bitrateControlMode?: BitrateControlMode;
 }
 
+/** FLAC stream properties */
+export interface FLACAudioDetails {
+  readonly format: "FLAC";
+  /** Number of samples per channel from STREAMINFO (0 if unknown) */
+  readonly totalSamples: number;
+  /** MD5 of the unencoded audio as 32 hex digits; all zeros if not computed */
+  readonly md5Signature: string;
+}
+
+/** MP4 audio track properties */
+export interface MP4AudioDetails {
+  readonly format: "MP4";
+  /** Whether the audio track is DRM encrypted */
+  readonly isEncrypted: boolean;
+}
+
+/** Opus stream properties */
+export interface OpusAudioDetails {
+  readonly format: "OPUS";
+  /** Sample rate of the original input in Hz; playback is always 48 kHz */
+  readonly inputSampleRate: number;
+  /** Opus encapsulation version */
+  readonly opusVersion: number;
+}
+
+/** WAV stream properties */
+export interface WAVAudioDetails {
+  readonly format: "WAV";
+  /** `fmt ` chunk format tag (1 = PCM, 3 = IEEE float, 0xFFFE = extensible) */
+  readonly formatTag: number;
+}
+
+/** Monkey's Audio stream properties */
+export interface APEAudioDetails {
+  readonly format: "APE";
+  /** Encoder version times 1000, e.g. 3990 */
+  readonly version: number;
+  /** Undefined if the header could not be read */
+  readonly compressionLevel?:
+    | "fast"
+    | "normal"
+    | "high"
+    | "extraHigh"
+    | "insane";
+}
+
+/** WavPack stream properties */
+export interface WavPackAudioDetails {
+  readonly format: "WAVPACK";
+  /** Stream version, e.g. 0x407 */
+  readonly version: number;
+  /** Undefined if the encoder did not store its configuration */
+  readonly compressionLevel?: "fast" | "normal" | "high" | "veryHigh";
+}
+
+/** Format-specific audio properties, see {@link AudioProperties.details} */
+export type AudioPropertiesDetails =
+  | MPEGAudioDetails
+  | FLACAudioDetails
+  | MP4AudioDetails
+  | OpusAudioDetails
+  | WAVAudioDetails
+  | APEAudioDetails
+  | WavPackAudioDetails;
+
 /**
  * Basic metadata tags common to all audio formats.
  * These are the standard fields supported by most audio files.
@@ -239,6 +374,12 @@ export interface ExtendedTag extends Tag {
   // Apple Sound Check
   /** Apple Sound Check normalization data (iTunNORM) */
   appleSoundCheck?: string;
+
+  // Rating and play count
+  /** Rating normalized to 0.0-1.0 */
+  rating?: number;
+  /** Number of times the track has been played */
+  playCount?: number;
 }
 
 /**
@@ -440,6 +581,18 @@ export const METADATA_MAPPINGS: Record<keyof ExtendedTag, FieldMapping> = {
     vorbis: "ITUNNORM", // Some tools store it in Vorbis comments too
     mp4: "----:com.apple.iTunes:iTunNORM",
   },
+
+  // Rating and play count mappings
+  rating: {
+    id3v2: { frame: "POPM" },
+    vorbis: "FMPS_RATING",
+    mp4: "rate",
+  },
+  playCount: {
+    id3v2: { frame: "PCNT" },
+    vorbis: "FMPS_PLAYCOUNT",
+    mp4: "----:com.apple.iTunes:FMPS_PLAYCOUNT",
+  },
 };
 
 /**
@@ -530,8 +683,890 @@ export enum PictureType {
 }
 
 /**
- * Bitrate control modes for audio encoding (MP4/M4A specific).
+ * Timestamp units used by ID3v2 SYLT and ETCO frames.
+ */
+export enum ID3v2TimestampFormat {
+  Unknown = 0,
+  MpegFrames = 1,
+  Milliseconds = 2,
+}
+
+/**
+ * Text information frame (`TIT2`, `TPE1`, `TCON`, ...).
+ * ID3v2.4 allows several values per frame.
+ */
+export interface ID3v2TextFrame {
+  kind: "text";
+  /** Four-character frame ID */
+  id: string;
+  /** Frame values */
+  text: string[];
+}
+
+/**
+ * User-defined text frame (`TXXX`).
+ */
+export interface ID3v2UserTextFrame {
+  kind: "userText";
+  id: "TXXX";
+  /** Description identifying the field */
+  description: string;
+  /** Frame values */
+  text: string[];
+}
+
+/**
+ * Comment frame (`COMM`).
+ */
+export interface ID3v2CommentFrame {
+  kind: "comment";
+  id: "COMM";
+  /** ISO-639-2 language code, e.g. "eng" */
+  language: string;
+  /** Content descriptor */
+  description: string;
+  /** Comment text */
+  text: string;
+}
+
+/**
+ * Unsynchronized lyrics frame (`USLT`).
+ */
+export interface ID3v2LyricsFrame {
+  kind: "lyrics";
+  id: "USLT";
+  /** ISO-639-2 language code, e.g. "eng" */
+  language: string;
+  /** Content descriptor */
+  description: string;
+  /** Lyrics text */
+  text: string;
+}
+
+/**
+ * Synchronized lyrics/text frame (`SYLT`).
+ */
+export interface ID3v2SyncedLyricsFrame {
+  kind: "syncedLyrics";
+  id: "SYLT";
+  /** ISO-639-2 language code, e.g. "eng" */
+  language: string;
+  /** Content descriptor */
+  description: string;
+  /** Unit of the entry timestamps */
+  timestampFormat: ID3v2TimestampFormat;
+  /** Content type code (0 = other, 1 = lyrics, 2 = transcription, ...) */
+  contentType: number;
+  /** Timed text entries */
+  entries: Array<{ time: number; text: string }>;
+}
+
+/**
+ * Popularimeter frame (`POPM`) holding a rating and play counter.
+ */
+export interface ID3v2PopularimeterFrame {
+  kind: "popularimeter";
+  id: "POPM";
+  /** Email address identifying the rating owner */
+  email: string;
+  /** Rating from 0 (unknown) to 255 */
+  rating: number;
+  /** Play counter */
+  counter: number;
+}
+
+/**
+ * Private frame (`PRIV`).
+ */
+export interface ID3v2PrivateFrame {
+  kind: "private";
+  id: "PRIV";
+  /** Owner identifier, usually a URL or email */
+  owner: string;
+  /** Private binary data */
+  data: Uint8Array;
+}
+
+/**
+ * Unique file identifier frame (`UFID`).
+ */
+export interface ID3v2UniqueFileIdentifierFrame {
+  kind: "uniqueFileIdentifier";
+  id: "UFID";
+  /** Owner identifier, e.g. "http://musicbrainz.org" */
+  owner: string;
+  /** Identifier bytes (up to 64 bytes) */
+  identifier: Uint8Array;
+}
+
+/**
+ * General encapsulated object frame (`GEOB`).
+ */
+export interface ID3v2ObjectFrame {
+  kind: "object";
+  id: "GEOB";
+  /** MIME type of the object */
+  mimeType: string;
+  /** Original file name */
+  fileName: string;
+  /** Content descriptor */
+  description: string;
+  /** Object data */
+  data: Uint8Array;
+}
+
+/**
+ * URL link frame (`WOAR`, `WCOM`, ...).
+ */
+export interface ID3v2UrlFrame {
+  kind: "url";
+  /** Four-character frame ID */
+  id: string;
+  /** Link target */
+  url: string;
+}
+
+/**
+ * User-defined URL link frame (`WXXX`).
+ */
+export interface ID3v2UserUrlFrame {
+  kind: "userUrl";
+  id: "WXXX";
+  /** Description identifying the link */
+  description: string;
+  /** Link target */
+  url: string;
+}
+
+/**
+ * Event timing codes frame (`ETCO`).
+ */
+export interface ID3v2EventTimingCodesFrame {
+  kind: "eventTimingCodes";
+  id: "ETCO";
+  /** Unit of the event timestamps */
+  timestampFormat: ID3v2TimestampFormat;
+  /** Events with their ID3v2 event type code (e.g. 0x03 = main part start) */
+  events: Array<{ time: number; type: number }>;
+}
+
+/**
+ * Attached picture frame (`APIC`).
+ */
+export interface ID3v2PictureFrame {
+  kind: "picture";
+  id: "APIC";
+  /** MIME type of the image */
+  mimeType: string;
+  /** Picture type (front cover, back cover, etc.) */
+  pictureType: PictureType;
+  /** Description */
+  description: string;
+  /** Image data */
+  data: Uint8Array;
+}
+
+/**
+ * Any frame without a typed representation. `data` is the frame body
+ * without the 10-byte frame header.
+ */
+export interface ID3v2UnknownFrame {
+  kind: "unknown";
+  /** Four-character frame ID */
+  id: string;
+  /** Raw frame body */
+  data: Uint8Array;
+}
+
+/**
+ * An ID3v2 frame as returned by `AudioFile.id3v2()`.
+ * Use `kind` to narrow to a specific frame type.
+ *
+ * @example
+ * ```typescript
+ * for (const frame of file.id3v2().getFrames("POPM")) {
+ *   if (frame.kind === "popularimeter") {
+ *     console.log(frame.email, frame.rating);
+ *   }
+ * }
+ * ```
+ */
+export type ID3v2Frame =
+  | ID3v2TextFrame
+  | ID3v2UserTextFrame
+  | ID3v2CommentFrame
+  | ID3v2LyricsFrame
+  | ID3v2SyncedLyricsFrame
+  | ID3v2PopularimeterFrame
+  | ID3v2PrivateFrame
+  | ID3v2UniqueFileIdentifierFrame
+  | ID3v2ObjectFrame
+  | ID3v2UrlFrame
+  | ID3v2UserUrlFrame
+  | ID3v2EventTimingCodesFrame
+  | ID3v2PictureFrame
+  | ID3v2UnknownFrame;
+
+/**
+ * MP4 integer item. `kind` is the stored width: `byte` for atoms such as
+ * `stik` and `rtng`, `uint` for `tvsn`/`tves`, `longlong` for `plID`, and
+ * `int` for `tmpo` and other integer atoms.
+ */
+export interface MP4IntegerItem {
+  /** Atom name, e.g. "stik" */
+  key: string;
+  kind: "int" | "byte" | "uint" | "longlong";
+  value: number;
+}
+
+/** MP4 boolean item, e.g. `cpil`, `pgap`, `pcst` */
+export interface MP4BoolItem {
+  /** Atom name */
+  key: string;
+  kind: "bool";
+  value: boolean;
+}
+
+/** MP4 number/total pair (`trkn`, `disk`) */
+export interface MP4IntPairItem {
+  /** Atom name */
+  key: string;
+  kind: "intPair";
+  /** [number, total]; total is 0 when unknown */
+  value: [number, number];
+}
+
+/** MP4 text item, including freeform `----` atoms stored as text */
+export interface MP4TextItem {
+  /** Atom name or freeform key */
+  key: string;
+  kind: "text";
+  value: string[];
+}
+
+/** MP4 binary item, e.g. a freeform atom holding raw data */
+export interface MP4BinaryItem {
+  /** Atom name or freeform key */
+  key: string;
+  kind: "binary";
+  value: Uint8Array[];
+}
+
+/** An image stored in the MP4 `covr` atom */
+export interface MP4CoverArt {
+  /** "image/jpeg", "image/png", "image/bmp" or "image/gif" */
+  mimeType: string;
+  /** Image data */
+  data: Uint8Array;
+}
+
+/** MP4 cover art list (`covr`) */
+export interface MP4CoverArtItem {
+  /** Atom name, normally "covr" */
+  key: string;
+  kind: "covers";
+  value: MP4CoverArt[];
+}
+
+/**
+ * A typed MP4 metadata item as returned by `AudioFile.listMP4Items()`.
+ * Freeform atoms use keys of the form `----:<mean>:<name>`, see
+ * `mp4FreeformKey()`.
+ *
+ * @example
+ * ```typescript
+ * file.setMP4TypedItem({
+ *   key: MP4_ATOMS.mediaKind,
+ *   kind: "byte",
+ *   value: MP4MediaKind.TVShow,
+ * });
+ * ```
+ */
+export type MP4Item =
+  | MP4IntegerItem
+  | MP4BoolItem
+  | MP4IntPairItem
+  | MP4TextItem
+  | MP4BinaryItem
+  | MP4CoverArtItem;
+
+/**
+ * Fields shared by all ASF attributes.
+ */
+export interface ASFAttributeBase {
+  /** Attribute name, e.g. "WM/AlbumTitle" */
+  name: string;
+  /** Index into the file's language list (0 = default) */
+  language?: number;
+  /** Stream the attribute applies to (0 = whole file) */
+  stream?: number;
+}
+
+/** ASF Unicode string attribute */
+export interface ASFStringAttribute extends ASFAttributeBase {
+  kind: "string";
+  value: string;
+}
+
+/** ASF binary attribute */
+export interface ASFBytesAttribute extends ASFAttributeBase {
+  kind: "bytes";
+  value: Uint8Array;
+}
+
+/** ASF boolean attribute */
+export interface ASFBoolAttribute extends ASFAttributeBase {
+  kind: "bool";
+  value: boolean;
+}
+
+/**
+ * ASF integer attribute: 16-bit `word`, 32-bit `dword` or 64-bit `qword`.
+ * QWORD values above `Number.MAX_SAFE_INTEGER` lose precision.
+ */
+export interface ASFIntegerAttribute extends ASFAttributeBase {
+  kind: "word" | "dword" | "qword";
+  value: number;
+}
+
+/**
+ * ASF GUID attribute, e.g. "WM/MediaClassPrimaryID".
+ * Read-only: TagLib cannot create GUID attributes.
+ */
+export interface ASFGuidAttribute extends ASFAttributeBase {
+  kind: "guid";
+  /** GUID in "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx" form */
+  value: string;
+}
+
+/** ASF `WM/Picture` attribute */
+export interface ASFPictureAttribute extends ASFAttributeBase {
+  kind: "picture";
+  value: Picture;
+}
+
+/**
+ * A typed ASF (WMA) attribute as returned by `AudioFile.asf()`.
+ * A name can have several attributes, e.g. one `WM/Composer` per composer.
+ *
+ * @example
+ * ```typescript
+ * const asf = file.asf();
+ * asf.removeAttributes("WM/Composer");
+ * asf.addAttribute({ name: "WM/Composer", kind: "string", value: "A" });
+ * asf.addAttribute({ name: "WM/Composer", kind: "string", value: "B" });
+ * asf.addAttribute({ name: "WM/BeatsPerMinute", kind: "dword", value: 120 });
+ * ```
+ */
+export type ASFAttribute =
+  | ASFStringAttribute
+  | ASFBytesAttribute
+  | ASFBoolAttribute
+  | ASFIntegerAttribute
+  | ASFGuidAttribute
+  | ASFPictureAttribute;
+
+/**
+ * Fields shared by all APE items.
+ */
+export interface APEItemBase {
+  /** Item key, e.g. "Artist" (case-insensitive, ASCII) */
+  key: string;
+  /** Read-only flag stored with the item */
+  readOnly?: boolean;
+}
+
+/** APE UTF-8 text item; multiple values are stored null-separated */
+export interface APETextItem extends APEItemBase {
+  kind: "text";
+  value: string[];
+}
+
+/**
+ * APE binary item, e.g. "Cover Art (Front)".
+ * Cover art items hold `<description>\0<image data>` and are also
+ * available through `getPictures()`.
+ */
+export interface APEBinaryItem extends APEItemBase {
+  kind: "binary";
+  value: Uint8Array;
+}
+
+/** APE external locator item: links to externally stored data */
+export interface APELocatorItem extends APEItemBase {
+  kind: "locator";
+  value: string[];
+}
+
+/**
+ * A typed APEv2 item as returned by `AudioFile.ape()`.
+ *
+ * @example
+ * ```typescript
+ * const ape = file.ape();
+ * ape.setItem({ key: "Catalog", kind: "text", value: ["CAT-001"] });
+ * ape.setItem({ key: "Buy URL", kind: "locator", value: ["https://x.test"] });
+ * ```
+ */
+export type APEItem = APETextItem | APEBinaryItem | APELocatorItem;
+
+/**
+ * Where TagLib writes the tags of a WAV file on save:
+ * the RIFF `LIST/INFO` chunk, the `ID3 ` chunk, or both (TagLib's default).
+ */
+export type RIFFTagPlacement = "info" | "id3v2" | "both";
+
+/**
+ * Broadcast Wave Format `bext` chunk (EBU Tech 3285).
+ * Text fields are ASCII and limited to the chunk's fixed field sizes.
+ *
+ * @example
+ * ```typescript
+ * file.riff().setBroadcastExtension({
+ *   description: "Scene 12, take 3",
+ *   originator: "Field Recorder",
+ *   originatorReference: "USREC0001",
+ *   originationDate: "2024-05-01",
+ *   originationTime: "14:30:00",
+ *   timeReference: 48000 * 3600, // 01:00:00:00 at 48 kHz
+ *   loudnessValue: -23,
+ * });
+ * ```
+ */
+export interface BroadcastExtension {
+  /** Free description, up to 256 characters */
+  description: string;
+  /** Name of the originating organization or device, up to 32 characters */
+  originator: string;
+  /** Unique reference assigned by the originator, up to 32 characters */
+  originatorReference: string;
+  /** Creation date as "yyyy-mm-dd" */
+  originationDate: string;
+  /** Creation time as "hh:mm:ss" */
+  originationTime: string;
+  /** First sample's position in samples since midnight */
+  timeReference: number;
+  /** bext version; written as 2 unless given */
+  version?: number;
+  /** SMPTE UMID, 32 or 64 bytes */
+  umid?: Uint8Array;
+  /** Integrated loudness in LUFS */
+  loudnessValue?: number;
+  /** Loudness range in LU */
+  loudnessRange?: number;
+  /** Maximum true peak level in dBTP */
+  maxTruePeakLevel?: number;
+  /** Highest momentary loudness in LUFS */
+  maxMomentaryLoudness?: number;
+  /** Highest short-term loudness in LUFS */
+  maxShortTermLoudness?: number;
+  /** Coding history lines, e.g. "A=PCM,F=48000,W=24,M=stereo,T=..." */
+  codingHistory?: string;
+}
+
+/**
+ * Values of the MP4 `stik` (media kind) atom.
+ */
+export enum MP4MediaKind {
+  Music = 1,
+  Audiobook = 2,
+  MusicVideo = 6,
+  Movie = 9,
+  TVShow = 10,
+  Booklet = 11,
+  Ringtone = 14,
+  Podcast = 21,
+  ITunesU = 23,
+}
+
+/**
+ * Values of the MP4 `rtng` (content advisory) atom.
+ */
+export enum MP4ContentRating {
+  None = 0,
+  Explicit = 1,
+  Clean = 2,
+}
+
+/**
+ * A single timed line of synchronized lyrics.
+ */
+export interface SyncedLyricsLine {
+  /** Time in milliseconds from the start of the track */
+  time: number;
+  /** Lyrics text shown from `time` on */
+  text: string;
+}
+
+/**
+ * Synchronized (karaoke-style) lyrics.
+ * Stored as ID3v2 SYLT frames, or as LRC text in Vorbis `LYRICS` and
+ * MP4 `©lyr`.
+ */
+export interface SyncedLyrics {
+  /** ISO-639-2 language code, e.g. "eng" */
+  language?: string;
+  /** Content descriptor (ID3v2 only) */
+  description?: string;
+  /** Lines sorted by time */
+  lines: SyncedLyricsLine[];
+}
+
+/**
+ * A chapter marker, as stored in ID3v2 CHAP frames.
+ *
+ * @example
+ * ```typescript
+ * file.setChapters([
+ *   { startTime: 0, endTime: 95000, title: "Intro" },
+ *   { startTime: 95000, endTime: 1800000, title: "Interview",
+ *     url: "https://example.com/guest" },
+ * ]);
+ * ```
+ */
+export interface Chapter {
+  /** Element ID; generated ("chp0", "chp1", ...) when omitted */
+  id?: string;
+  /** Start time in milliseconds */
+  startTime: number;
+  /** End time in milliseconds */
+  endTime: number;
+  /** Byte offset of the chapter start in the audio data, if known */
+  startOffset?: number;
+  /** Byte offset of the chapter end in the audio data, if known */
+  endOffset?: number;
+  /** Chapter title */
+  title?: string;
+  /** Link associated with the chapter */
+  url?: string;
+  /** Chapter artwork */
+  image?: Picture;
+}
+
+/**
+ * Options controlling which tags are written on save.
+ * Options that are not set keep TagLib's defaults.
+ *
+ * @example
+ * ```typescript
+ * // Write ID3v2.3 for older players and drop stale APE tags
+ * file.save({ id3v2Version: 3, writeId3v1: false, stripApe: true });
+ * ```
+ */
+export interface SaveOptions {
+  /**
+   * ID3v2 version to write (MP3, WAV and AIFF files).
+   *
+   * @default 4
+   */
+  id3v2Version?: 3 | 4;
+
+  /**
+   * Write an ID3v1 tag alongside ID3v2 (MP3 files).
+   * When false, an existing ID3v1 tag is removed.
+   *
+   * @default true
+   */
+  writeId3v1?: boolean;
+
+  /**
+   * Remove APE tags (MP3 files).
+   *
+   * @default false
+   */
+  stripApe?: boolean;
+
+  /**
+   * Space reserved after the tags so later edits don't move the audio data:
+   * ID3v2 padding of MP3 files, FLAC PADDING blocks, the MP4 `free` atom
+   * after `ilst`, and the comment packet of Ogg Vorbis and Opus files.
+   *
+   * - A number of bytes to reserve
+   * - "preserve": keep the tags ending where they did, so the audio does not
+   *   move, as long as the new tags fit; otherwise as "auto"
+   * - "auto": the amount TagLib chooses
+   *
+   * Streamed files only accept "auto".
+   *
+   * @default "auto"
+   */
+  padding?: number | "preserve" | "auto";
+}
+
+/**
+ * Options for writing files to disk.
+ *
+ * @example
+ * ```typescript
+ * // Keep the previous version and the original modification time
+ * await file.saveToFile("live.flac", { backup: true, preserve: true });
+ * ```
+ */
+export interface WriteOptions {
+  /**
+   * Write a temporary file in the same directory, flush it to disk and
+   * rename it over the target, so that a crash leaves either the old or the
+   * new file. The mode of the replaced file is kept. A symbolic link is
+   * followed; a file with other hard links is written in place instead,
+   * as renaming would detach them.
+   *
+   * @default true
+   */
+  atomic?: boolean;
+
+  /**
+   * Copy the file being replaced before writing: `true` copies it to
+   * `<path>.bak`, a string names a directory to copy it into under the
+   * same name. Existing backups are overwritten.
+   */
+  backup?: boolean | string;
+
+  /**
+   * Keep the owner and the access and modification times of the file
+   * being replaced. The owner is kept only where the process may change
+   * it, usually when running as root.
+   *
+   * @default false
+   */
+  preserve?: boolean;
+}
+
+/**
+ * Options for saveToFile(): what to write and how to write it.
+ */
+export interface SaveToFileOptions extends SaveOptions, WriteOptions {
+  /**
+   * Write only the changed blocks when the file keeps its size. This is
+   * faster for large files, but patches are written in place rather than
+   * atomically, so a crash while writing can leave a damaged file; a
+   * backup, if requested, is made first. Files that change size are always
+   * replaced as a whole, atomically unless `atomic` is false. Set to false
+   * to always replace the whole file.
+   *
+   * @default true
+   */
+  inPlace?: boolean;
+}
+
+/**
+ * How saveToFile() wrote a file.
+ *
+ * - patch: the file kept its size, as when the new tag fits into the
+ *   padding of the old one, and only the changed blocks were written
+ * - rewrite: the whole file was written
+ * - source: a streamed file was saved through its AudioSource
+ */
+export type SaveStrategy = "patch" | "rewrite" | "source";
+
+/**
+ * Result of saveToFile().
+ *
+ * @example
+ * ```typescript
+ * const { strategy, bytesWritten } = await file.saveToFile();
+ * console.log(`${strategy}: ${bytesWritten} bytes`); // "patch: 4096 bytes"
+ * ```
+ */
+export interface SaveResult {
+  /** How the file was written */
+  strategy: SaveStrategy;
+  /** Bytes written to disk; not reported for the "source" strategy */
+  bytesWritten?: number;
+}
+
+/**
+ * Tag containers that TagLib can read and write.
+ *
+ * - ID3v1, ID3v2: MP3 (ID3v2 also as the ID3 chunk of WAV and AIFF files)
+ * - APE: APE tags, found in MP3 files written by some taggers
+ * - Xiph: Vorbis comments in FLAC and Ogg files
+ * - RIFFInfo: the LIST INFO chunk of WAV files
+ * - MP4: the iTunes-style `ilst` atom
+ * - ASF: Windows Media attributes
+ */
+export type TagType =
+  | "ID3v1"
+  | "ID3v2"
+  | "APE"
+  | "Xiph"
+  | "RIFFInfo"
+  | "MP4"
+  | "ASF";
+
+/**
+ * A tag container found in a file.
+ *
+ * @example
+ * ```typescript
+ * file.tagTypes(); // [{ type: "ID3v2", version: 4 }, { type: "ID3v1" }]
+ * ```
+ */
+export interface TagContainer {
+  /** Container type */
+  type: TagType;
+  /** Major version for ID3v2 tags (2, 3 or 4) */
+  version?: number;
+}
+
+/**
+ * Options for reading and writing ratings.
+ */
+export interface RatingOptions {
+  /**
+   * Rating owner, stored as the email field of ID3v2 POPM frames.
+   * When omitted, the first POPM frame is used. Ignored by other formats.
+   */
+  owner?: string;
+}
+
+/**
+ * JSON form of a value inside a metadata snapshot: byte arrays become
+ * `{ $base64: string }` objects.
+ */
+export type SnapshotValue<T> = T extends Uint8Array ? { $base64: string }
+  : T extends readonly (infer U)[] ? SnapshotValue<U>[]
+  : T extends object ? { [K in keyof T]: SnapshotValue<T[K]> }
+  : T;
+
+/** Picture in a metadata snapshot, with base64 image data */
+export interface SnapshotPicture extends Omit<Picture, "data"> {
+  /** Base64-encoded image data */
+  data: string;
+}
+
+/**
+ * Complete metadata of an audio file as a JSON-compatible document, as
+ * returned by `exportMetadata()`. Pictures are listed once in `pictures`
+ * and left out of the format-specific items.
+ */
+export interface MetadataSnapshot {
+  /** Document version, currently 1 */
+  version: number;
+  /** Format of the exported file */
+  format: FileType;
+  /** Every property with all of its values */
+  properties: PropertyMap;
+  pictures: SnapshotPicture[];
+  /** ID3v2 frames (MP3, WAV, AIFF) */
+  id3v2?: SnapshotValue<ID3v2Frame>[];
+  /** MP4 items */
+  mp4?: SnapshotValue<MP4Item>[];
+  /** ASF attributes */
+  asf?: SnapshotValue<ASFAttribute>[];
+  /** APEv2 items (MP3, APE, WavPack, Musepack) */
+  ape?: SnapshotValue<APEItem>[];
+  /** WAV INFO fields and Broadcast Wave chunks */
+  riff?: {
+    info: Record<string, string>;
+    bext?: SnapshotValue<BroadcastExtension>;
+    ixml?: string;
+  };
+  /** Audio properties at export time; ignored on import */
+  audioProperties?: AudioProperties;
+}
+
+/**
+ * Options for `importMetadata()`.
+ */
+export interface ImportMetadataOptions {
+  /**
+   * "merge" (default) replaces the properties, pictures of the same type and
+   * items with the same ID that the snapshot contains and keeps the rest.
+   * "replace" removes everything the snapshot does not contain.
+   */
+  mode?: "merge" | "replace";
+}
+
+/**
+ * Options for `transferMetadata()`.
+ */
+export interface TransferMetadataOptions {
+  /** Copy embedded pictures (default true) */
+  pictures?: boolean;
+  /** Property keys to leave out, e.g. ["ENCODER", "ENCODEDBY"] */
+  exclude?: string[];
+}
+
+/**
+ * Result of `transferMetadata()`.
+ */
+export interface MetadataTransferReport {
+  /** Property keys the destination stores with the source values */
+  transferred: string[];
+  /**
+   * Source keys written under another key with converted values,
+   * e.g. `{ REPLAYGAIN_TRACK_GAIN: "R128_TRACK_GAIN" }` for Opus
+   */
+  converted: Record<string, string>;
+  /** Properties the destination could not store, with the source values */
+  unmapped: PropertyMap;
+  /**
+   * Number of pictures copied, fewer than the source holds if the
+   * destination cannot store them
+   */
+  pictures: number;
+}
+
+/**
+ * Value of a metadata field in the saved file and with unsaved edits.
+ */
+export interface MetadataChange<T> {
+  /** Value as last opened or saved */
+  before: T;
+  /** Value including unsaved edits */
+  after: T;
+}
+
+/**
+ * Unsaved edits that `changes()` lists by kind rather than by value.
+ *
+ * - frames: format-specific frames or items, as edited through id3v2(),
+ *   MP4 items, asf() or ape()
+ * - chapters: chapters set with setChapters() on an MP4 file
+ * - riffChunks: WAV chunks set or removed through riff()
+ * - gapless: encoder delay and padding for the LAME tag of an MP3 file
+ * - tagPlacement: the WAV tag placement
+ */
+export type UnsavedEdit =
+  | "frames"
+  | "chapters"
+  | "riffChunks"
+  | "gapless"
+  | "tagPlacement";
+
+/**
+ * Unsaved metadata edits of an audio file, as returned by `changes()`.
+ * Only fields that differ are listed.
+ */
+export interface MetadataChanges {
+  /** Basic tag fields */
+  tags: { [K in keyof Tag]?: MetadataChange<Tag[K]> };
+  /** Property keys; a key that is not present has an empty array */
+  properties: Record<string, MetadataChange<string[]>>;
+  /** Set if pictures were added, removed, reordered or edited */
+  pictures?: MetadataChange<Picture[]>;
+  /** Set if other edits are pending */
+  other?: UnsavedEdit[];
+}
+
+/**
+ * Encoder delay and padding for gapless playback, counted in samples per
+ * channel. A player skips `encoderDelay` samples of decoded output and then
+ * plays `validSamples` samples.
+ */
+export interface GaplessInfo {
+  /** Samples of silence before the audio, including decoder delay */
+  encoderDelay: number;
+  /** Samples of silence after the audio */
+  encoderPadding: number;
+  /** Samples of actual audio */
+  validSamples: number;
+}
+
+/**
+ * Bitrate control modes for audio encoding.
  * Indicates how the audio was encoded in terms of bitrate management.
+ * Reported for MPEG audio in {@link MPEGAudioDetails}.
  *
  * - Constant: Fixed bitrate throughout the file
  * - LongTermAverage: Average bitrate over time
@@ -597,6 +1632,48 @@ export interface TagLibWorkersConfig {
   debug?: boolean;
 }
 
+/**
+ * Random-access byte source for `TagLib.open()`. TagLib reads only the
+ * blocks it needs through these calls instead of loading the whole file, so
+ * files larger than available memory can be opened. Calls are synchronous
+ * because TagLib's I/O is.
+ *
+ * Without `write` and `truncate` the source is read-only and `save()`
+ * returns false. With them, `save()` writes changes straight to the source.
+ *
+ * @example
+ * ```typescript
+ * const file = await taglib.open({
+ *   size: data.length,
+ *   read: (offset, length) => data.subarray(offset, offset + length),
+ * });
+ * ```
+ */
+export interface AudioSource {
+  /** Current size of the file in bytes, including writes */
+  readonly size: number;
+  /** File name, used to detect formats TagLib only knows by extension */
+  readonly name?: string;
+  /**
+   * Read bytes from the file.
+   * @param offset - Position of the first byte
+   * @param length - Number of bytes to read; never past the end of the file
+   * @returns The bytes read
+   */
+  read(offset: number, length: number): Uint8Array;
+  /**
+   * Write bytes to the file, extending it if needed.
+   * @param offset - Position of the first byte
+   * @param data - Bytes to write
+   */
+  write?(offset: number, data: Uint8Array): void;
+  /**
+   * Cut the file to the given size.
+   * @param length - New size in bytes
+   */
+  truncate?(length: number): void;
+}
+
 /**
  * Options for opening audio files with partial loading support.
  *
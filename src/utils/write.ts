@@ -3,46 +3,386 @@
  * Provides cross-runtime support for writing files
  */
 
+import type { WriteOptions } from "../types.ts";
 import { EnvironmentError, FileOperationError } from "../errors.ts";
 
 /**
  * Write data to a file across different runtimes.
  * Supports Node.js, Deno, and Bun environments.
  *
+ * By default an existing file is replaced atomically: the data is written
+ * to a temporary file in the same directory, flushed to disk and renamed
+ * over the target. A symbolic link is followed and the file it points to
+ * replaced; a file with other hard links is written in place.
+ *
  * @param path - File path to write to
  * @param data - Data to write (Uint8Array)
+ * @param options - Atomic replacement, backup and attributes to keep
  * @throws {FileOperationError} If file write fails
  * @throws {EnvironmentError} If environment doesn't support file writing
+ *
+ * @example
+ * ```typescript
+ * await writeFileData("song.mp3", buffer, { backup: "backups/" });
+ * ```
  */
 export async function writeFileData(
   path: string,
   data: Uint8Array,
+  options: WriteOptions = {},
 ): Promise<void> {
   try {
     // Deno
     if (typeof (globalThis as any).Deno !== "undefined") {
-      await (globalThis as any).Deno.writeFile(path, data);
+      await writeWithDeno(path, data, options);
       return;
     }
 
-    // Node.js
+    // Node.js and Bun
     if (
-      typeof (globalThis as any).process !== "undefined" &&
-      (globalThis as any).process.versions &&
-      (globalThis as any).process.versions.node
+      typeof (globalThis as any).process !== "undefined" ||
+      typeof (globalThis as any).Bun !== "undefined"
     ) {
-      const { writeFile } = await import("fs/promises");
-      await writeFile(path, data);
+      await writeWithNode(path, data, options);
       return;
     }
+  } catch (error) {
+    // Convert system file errors to FileOperationError
+    throw new FileOperationError(
+      "write",
+      (error as Error).message,
+      path,
+    );
+  }
 
-    // Bun
-    if (typeof (globalThis as any).Bun !== "undefined") {
-      await (globalThis as any).Bun.write(path, data);
-      return;
+  throw new EnvironmentError(
+    runtimeName(),
+    "does not support file path writing",
+    "filesystem access",
+  );
+}
+
+/**
+ * Split a path into its directory, including the trailing separator, and
+ * its file name.
+ */
+function splitPath(path: string): [string, string] {
+  const slash = Math.max(path.lastIndexOf("/"), path.lastIndexOf("\\"));
+  return [path.slice(0, slash + 1), path.slice(slash + 1)];
+}
+
+function backupPath(path: string, backup: true | string): string {
+  if (backup === true) return `${path}.bak`;
+  return `${backup.replace(/[\\/]+$/, "")}/${splitPath(path)[1]}`;
+}
+
+function tempPath(path: string): string {
+  const [dir, name] = splitPath(path);
+  const id = Math.random().toString(36).slice(2, 10);
+  return `${dir}.${name}.${id}.tmp`;
+}
+
+async function writeWithDeno(
+  path: string,
+  data: Uint8Array,
+  options: WriteOptions,
+): Promise<void> {
+  const Deno = (globalThis as any).Deno;
+  let previous: any;
+  try {
+    previous = await Deno.stat(path);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+
+  if (previous && options.backup) {
+    await Deno.copyFile(path, backupPath(path, options.backup));
+  }
+
+  // Renaming over a file would detach its other hard links
+  if (options.atomic === false || previous?.nlink > 1) {
+    await Deno.writeFile(path, data);
+  } else {
+    // Replace the file a symbolic link points to, not the link
+    const target = previous ? await Deno.realPath(path) : path;
+    // Modes are null on Windows
+    const mode = previous?.mode != null ? previous.mode & 0o7777 : undefined;
+    const temp = tempPath(target);
+    try {
+      const file = await Deno.open(temp, {
+        write: true,
+        createNew: true,
+        mode: mode ?? 0o666,
+      });
+      try {
+        for (let written = 0; written < data.length;) {
+          written += await file.write(data.subarray(written));
+        }
+        await file.sync();
+      } finally {
+        file.close();
+      }
+      // The umask may have cleared bits of the requested mode
+      if (mode !== undefined) await Deno.chmod(temp, mode);
+      if (options.preserve && previous?.uid != null) {
+        try {
+          await Deno.chown(temp, previous.uid, previous.gid);
+        } catch (error) {
+          // Only the superuser may give a file away
+          if (!(error instanceof Deno.errors.PermissionDenied)) throw error;
+        }
+      }
+      await Deno.rename(temp, target);
+    } catch (error) {
+      await Deno.remove(temp).catch(() => {});
+      throw error;
+    }
+
+    // Make the rename durable; directories cannot be opened on Windows
+    try {
+      const dir = await Deno.open(splitPath(target)[0] || ".", {
+        read: true,
+      });
+      try {
+        await dir.sync();
+      } finally {
+        dir.close();
+      }
+    } catch {
+      // Best effort
+    }
+  }
+
+  if (options.preserve && previous?.mtime) {
+    await Deno.utime(path, previous.atime ?? previous.mtime, previous.mtime);
+  }
+}
+
+async function writeWithNode(
+  path: string,
+  data: Uint8Array,
+  options: WriteOptions,
+): Promise<void> {
+  const fs = await import("fs/promises");
+  let previous: Awaited<ReturnType<typeof fs.stat>> | undefined;
+  try {
+    previous = await fs.stat(path);
+  } catch (error) {
+    if ((error as { code?: string }).code !== "ENOENT") throw error;
+  }
+
+  if (previous && options.backup) {
+    await fs.copyFile(path, backupPath(path, options.backup));
+  }
+
+  // Renaming over a file would detach its other hard links
+  if (options.atomic === false || Number(previous?.nlink) > 1) {
+    await fs.writeFile(path, data);
+  } else {
+    // Replace the file a symbolic link points to, not the link
+    const target = previous ? await fs.realpath(path) : path;
+    const mode = previous ? Number(previous.mode) & 0o7777 : undefined;
+    const temp = tempPath(target);
+    try {
+      const handle = await fs.open(temp, "wx", mode ?? 0o666);
+      try {
+        await handle.writeFile(data);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      // The umask may have cleared bits of the requested mode
+      if (mode !== undefined) await fs.chmod(temp, mode);
+      if (options.preserve && previous) {
+        try {
+          await fs.chown(temp, Number(previous.uid), Number(previous.gid));
+        } catch (error) {
+          // Only the superuser may give a file away
+          if ((error as { code?: string }).code !== "EPERM") throw error;
+        }
+      }
+      await fs.rename(temp, target);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+
+    // Make the rename durable; directories cannot be opened on Windows
+    try {
+      const dir = await fs.open(splitPath(target)[0] || ".", "r");
+      try {
+        await dir.sync();
+      } finally {
+        await dir.close();
+      }
+    } catch {
+      // Best effort
+    }
+  }
+
+  if (options.preserve && previous) {
+    await fs.utimes(path, previous.atime, previous.mtime);
+  }
+}
+
+/** A byte range of a file and its contents before and after a save */
+export interface FilePatch {
+  /** Byte offset of the range */
+  offset: number;
+  /** Bytes the file holds now */
+  before: Uint8Array;
+  /** Bytes to write */
+  after: Uint8Array;
+}
+
+/** Granularity of patches, matching common filesystem block sizes */
+const PATCH_BLOCK_SIZE = 4096;
+
+/**
+ * Find the blocks that differ between two buffers of the same length.
+ * Adjacent changed blocks are merged into one patch.
+ *
+ * @param before - File contents before the save
+ * @param after - File contents after the save
+ * @returns Patches, or undefined if the lengths differ
+ */
+export function diffFileData(
+  before: Uint8Array,
+  after: Uint8Array,
+): FilePatch[] | undefined {
+  if (before.length !== after.length) return undefined;
+
+  const patches: FilePatch[] = [];
+  let start = -1;
+  for (let block = 0; block < before.length; block += PATCH_BLOCK_SIZE) {
+    const end = Math.min(block + PATCH_BLOCK_SIZE, before.length);
+    let changed = false;
+    for (let i = block; i < end; i++) {
+      if (before[i] !== after[i]) {
+        changed = true;
+        break;
+      }
+    }
+    if (changed && start < 0) start = block;
+    if (!changed && start >= 0) {
+      patches.push(patch(before, after, start, block));
+      start = -1;
+    }
+  }
+  if (start >= 0) patches.push(patch(before, after, start, before.length));
+  return patches;
+}
+
+function patch(
+  before: Uint8Array,
+  after: Uint8Array,
+  start: number,
+  end: number,
+): FilePatch {
+  return {
+    offset: start,
+    before: before.subarray(start, end),
+    after: after.subarray(start, end),
+  };
+}
+
+/**
+ * Write changed byte ranges into an existing file, leaving the rest of it
+ * untouched. Nothing is written unless the file still has `size` bytes and
+ * every range still holds its `before` bytes, so a file modified since it
+ * was read is never patched. Patches are not atomic; with a backup option the
+ * file is copied before the first byte is written.
+ *
+ * @param path - File path to patch
+ * @param size - Expected size of the file in bytes
+ * @param patches - Ranges to write, e.g. from diffFileData()
+ * @param options - Backup to make and whether to keep the file times
+ * @returns true if the file was patched, false if it did not match
+ * @throws {FileOperationError} If the file cannot be read or written
+ * @throws {EnvironmentError} If environment doesn't support file writing
+ */
+export async function patchFileData(
+  path: string,
+  size: number,
+  patches: FilePatch[],
+  options: Pick<WriteOptions, "backup" | "preserve"> = {},
+): Promise<boolean> {
+  try {
+    // Deno
+    if (typeof (globalThis as any).Deno !== "undefined") {
+      const Deno = (globalThis as any).Deno;
+      const file = await Deno.open(path, { read: true, write: true });
+      try {
+        const info = await file.stat();
+        if (info.size !== size) return false;
+        for (const { offset, before } of patches) {
+          await file.seek(offset, Deno.SeekMode.Start);
+          const current = new Uint8Array(before.length);
+          let filled = 0;
+          while (filled < current.length) {
+            const count = await file.read(current.subarray(filled));
+            if (!count) return false;
+            filled += count;
+          }
+          if (!sameBytes(current, before)) return false;
+        }
+        if (options.backup) {
+          await Deno.copyFile(path, backupPath(path, options.backup));
+        }
+        for (const { offset, after } of patches) {
+          await file.seek(offset, Deno.SeekMode.Start);
+          for (let written = 0; written < after.length;) {
+            written += await file.write(after.subarray(written));
+          }
+        }
+        await file.sync();
+        if (options.preserve && info.mtime) {
+          await Deno.utime(path, info.atime ?? info.mtime, info.mtime);
+        }
+        return true;
+      } finally {
+        file.close();
+      }
+    }
+
+    // Node.js and Bun
+    if (
+      typeof (globalThis as any).process !== "undefined" ||
+      typeof (globalThis as any).Bun !== "undefined"
+    ) {
+      const { copyFile, open } = await import("fs/promises");
+      const handle = await open(path, "r+");
+      try {
+        const info = await handle.stat();
+        if (info.size !== size) return false;
+        for (const { offset, before } of patches) {
+          const current = new Uint8Array(before.length);
+          const { bytesRead } = await handle.read(
+            current,
+            0,
+            current.length,
+            offset,
+          );
+          if (bytesRead !== current.length || !sameBytes(current, before)) {
+            return false;
+          }
+        }
+        if (options.backup) {
+          await copyFile(path, backupPath(path, options.backup));
+        }
+        for (const { offset, after } of patches) {
+          await handle.write(after, 0, after.length, offset);
+        }
+        await handle.sync();
+        if (options.preserve) {
+          await handle.utimes(info.atime, info.mtime);
+        }
+        return true;
+      } finally {
+        await handle.close();
+      }
     }
   } catch (error) {
-    // Convert system file errors to FileOperationError
     throw new FileOperationError(
       "write",
       (error as Error).message,
@@ -50,16 +390,27 @@ export async function writeFileData(
     );
   }
 
-  const env = typeof (globalThis as any).Deno !== "undefined"
+  throw new EnvironmentError(
+    runtimeName(),
+    "does not support file path writing",
+    "filesystem access",
+  );
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+function runtimeName(): string {
+  return typeof (globalThis as any).Deno !== "undefined"
     ? "Deno"
     : typeof (globalThis as any).process !== "undefined"
     ? "Node.js"
     : typeof (globalThis as any).Bun !== "undefined"
     ? "Bun"
     : "Browser";
-  throw new EnvironmentError(
-    env,
-    "does not support file path writing",
-    "filesystem access",
-  );
 }
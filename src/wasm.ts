@@ -2,6 +2,8 @@
  * @fileoverview WebAssembly module interface types for Emscripten
  */
 
+import type { AudioSource } from "./types.ts";
+
 // Basic Emscripten module interface
 export interface EmscriptenModule {
   // Memory
@@ -44,17 +46,33 @@ export interface EmscriptenModule {
 // Embind class interfaces
 export interface FileHandle {
   loadFromBuffer(data: Uint8Array): boolean;
+  loadFromSource(source: AudioSource): boolean;
   isValid(): boolean;
   save(): boolean;
+  saveWithOptions(options: any): boolean;
+  getTagTypes(): any[];
+  stripTags(types: string[]): boolean;
   getFormat(): string;
   getProperties(): any;
   setProperties(props: any): void;
   getProperty(key: string): string;
   setProperty(key: string, value: string): void;
+  getPropertyValues(key: string): string[];
+  setPropertyValues(key: string, values: string[]): void;
   isMP4(): boolean;
   getMP4Item(key: string): string;
   setMP4Item(key: string, value: string): void;
   removeMP4Item(key: string): void;
+  getMP4Items(key: string): any[];
+  setMP4TypedItem(item: any): boolean;
+  getASFAttributes(name: string): any[];
+  addASFAttribute(attribute: any): boolean;
+  removeASFAttributes(name: string): void;
+  getRIFFInfo(): Record<string, string>;
+  setRIFFInfoField(id: string, value: string): boolean;
+  getAPEItems(key: string): any[];
+  setAPEItem(item: any): boolean;
+  removeAPEItem(key: string): void;
   getTag(): TagWrapper;
   getAudioProperties(): AudioPropertiesWrapper;
   getBuffer(): Uint8Array;
@@ -62,6 +80,11 @@ export interface FileHandle {
   setPictures(pictures: any[]): void;
   addPicture(picture: any): void;
   removePictures(): void;
+  getID3v2Frames(id: string): any[];
+  addID3v2Frame(frame: any): boolean;
+  removeID3v2Frames(id: string): void;
+  getChapters(): any[];
+  setChapters(chapters: any[]): boolean;
   destroy(): void;
 }
 
@@ -85,12 +108,15 @@ export interface TagWrapper {
 export interface AudioPropertiesWrapper {
   lengthInSeconds(): number;
   lengthInMilliseconds(): number;
+  totalSamples(): number;
   bitrate(): number;
   sampleRate(): number;
   channels(): number;
   bitsPerSample(): number;
   codec(): string;
   isLossless(): boolean;
+  containerFormat(): string;
+  details(): any;
 }
 
 export interface TagLibModule extends Omit<EmscriptenModule, "then"> {
@@ -128,6 +154,8 @@ export interface TagLibModule extends Omit<EmscriptenModule, "then"> {
   _taglib_tag_set_track?(tagPtr: number, track: number): void;
 
   _taglib_audioproperties_length?(propsPtr: number): number;
+  _taglib_audioproperties_length_ms?(propsPtr: number): number;
+  _taglib_audioproperties_total_samples?(propsPtr: number): number;
   _taglib_audioproperties_bitrate?(propsPtr: number): number;
   _taglib_audioproperties_samplerate?(propsPtr: number): number;
   _taglib_audioproperties_channels?(propsPtr: number): number;
@@ -110,6 +110,13 @@ export class AudioFileWorkers {
 
     const length =
       this.module._taglib_audioproperties_length?.(this.propsPtr) || 0;
+    // Builds without the millisecond export only have whole seconds
+    const lengthMs =
+      this.module._taglib_audioproperties_length_ms?.(this.propsPtr) ??
+        length * 1000;
+    const totalSamples = this.module._taglib_audioproperties_total_samples?.(
+      this.propsPtr,
+    ) || undefined;
     const bitrate =
       this.module._taglib_audioproperties_bitrate?.(this.propsPtr) || 0;
     const sampleRate = this.module._taglib_audioproperties_samplerate?.(
@@ -121,6 +128,8 @@ export class AudioFileWorkers {
 
     return {
       length,
+      lengthMs,
+      totalSamples,
       bitrate,
       sampleRate,
       channels,
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Tests for the APE tag item API
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { MetadataError, UnsupportedFormatError } from "../src/errors.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+Deno.test("APE: Text, binary and locator items round-trip", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  const ape = file.ape();
+  ape.setItem({ key: "Catalog", kind: "text", value: ["A-1", "A-2"] });
+  ape.setItem({ key: "Blob", kind: "binary", value: new Uint8Array([1, 2]) });
+  ape.setItem({
+    key: "Buy URL",
+    kind: "locator",
+    value: ["https://example.com"],
+  });
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.tagTypes().some((tag) => tag.type === "APE"), true);
+
+  const items = reopened.ape();
+  assertEquals(items.getItem("catalog"), {
+    key: "Catalog",
+    kind: "text",
+    value: ["A-1", "A-2"],
+  });
+  assertEquals(items.getItem("Blob")?.value, new Uint8Array([1, 2]));
+  assertEquals(items.getItem("Buy URL")?.kind, "locator");
+  assertEquals(items.getItem("Missing"), undefined);
+
+  items.removeItem("Catalog");
+  assertEquals(items.getItem("Catalog"), undefined);
+
+  assertThrows(
+    () => items.setItem({ key: "X", kind: "text", value: ["too short"] }),
+    MetadataError,
+  );
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("APE: Cover art items appear in getPictures()", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+  file.removePictures();
+
+  const description = new TextEncoder().encode("Back\0");
+  const data = new Uint8Array([...description, ...PNG]);
+  file.ape().setItem({ key: "Cover Art (Back)", kind: "binary", value: data });
+
+  const [picture] = file.getPictures();
+  assertEquals(picture.type, 4);
+  assertEquals(picture.mimeType, "image/png");
+  assertEquals(picture.description, "Back");
+  assertEquals(picture.data, PNG);
+
+  // setPictures() writes ID3v2 and replaces the APE cover art
+  file.setPictures([{ ...picture, description: "ID3" }]);
+  assertEquals(file.ape().getItem("Cover Art (Back)"), undefined);
+  assertEquals(file.getPictures().map((p) => p.description), ["ID3"]);
+
+  file.dispose();
+});
+
+Deno.test("APE: Formats without APE tags are rejected", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  assertThrows(() => file.ape(), UnsupportedFormatError);
+
+  file.dispose();
+});
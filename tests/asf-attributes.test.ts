@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Tests for the ASF attribute API
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { MetadataError, UnsupportedFormatError } from "../src/errors.ts";
+import { PictureType } from "../src/types.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { RED_PNG, TEST_FILES } from "./test-utils.ts";
+
+const WMA_FILE = "./tests/test-files/wma/kiss-snippet.wma";
+
+Deno.test("ASF: Attribute access requires an ASF file", async () => {
+  const taglib = await TagLib.initialize();
+
+  for (const path of [TEST_FILES.mp3, TEST_FILES.flac, TEST_FILES.m4a]) {
+    const file = await taglib.open(await readFileData(path));
+    assertThrows(() => file.asf(), UnsupportedFormatError);
+    assertEquals(file.tagTypes().some((tag) => tag.type === "ASF"), false);
+    file.dispose();
+  }
+});
+
+Deno.test("ASF: Typed attributes round-trip", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(WMA_FILE));
+  assertEquals(file.getFormat(), "ASF");
+
+  const asf = file.asf();
+  asf.addAttribute({ name: "WM/Composer", kind: "string", value: "A" });
+  asf.addAttribute({ name: "WM/Composer", kind: "string", value: "B" });
+  asf.addAttribute({ name: "Custom/Bytes", kind: "bytes", value: RED_PNG });
+  asf.addAttribute({ name: "Custom/Flag", kind: "bool", value: true });
+  asf.addAttribute({ name: "Custom/Word", kind: "word", value: 0xffff });
+  asf.addAttribute({ name: "WM/BeatsPerMinute", kind: "dword", value: 120 });
+  asf.addAttribute({ name: "Custom/Qword", kind: "qword", value: 2 ** 40 });
+  asf.addAttribute({
+    name: "WM/Picture",
+    kind: "picture",
+    value: {
+      mimeType: "image/png",
+      data: RED_PNG,
+      type: PictureType.FrontCover,
+      description: "Cover",
+    },
+  });
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  const attributes = reopened.asf();
+  assertEquals(
+    attributes.getAttributes("WM/Composer").map((a) => a.value),
+    ["A", "B"],
+  );
+  assertEquals(attributes.getAttributes("Custom/Bytes")[0].value, RED_PNG);
+  assertEquals(attributes.getAttributes("Custom/Flag")[0].value, true);
+  assertEquals(
+    ["Custom/Word", "WM/BeatsPerMinute", "Custom/Qword"].map((name) => {
+      const [attribute] = attributes.getAttributes(name);
+      return [attribute.kind, attribute.value];
+    }),
+    [["word", 0xffff], ["dword", 120], ["qword", 2 ** 40]],
+  );
+
+  const [picture] = attributes.getAttributes("WM/Picture");
+  assertEquals(picture.kind, "picture");
+  if (picture.kind === "picture") {
+    assertEquals(picture.value.mimeType, "image/png");
+    assertEquals(picture.value.description, "Cover");
+    assertEquals(picture.value.data, RED_PNG);
+  }
+  assertEquals(reopened.getPictures().length, 1);
+
+  attributes.removeAttributes("WM/Composer");
+  assertEquals(attributes.getAttributes("WM/Composer"), []);
+  assertEquals(
+    attributes.listAttributes().some((a) => a.name === "WM/Composer"),
+    false,
+  );
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("ASF: Out-of-range integers and GUIDs are rejected", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(WMA_FILE));
+  const asf = file.asf();
+
+  for (
+    const [kind, value] of [
+      ["word", 0x10000],
+      ["word", -1],
+      ["dword", 0x100000000],
+      ["qword", 1.5],
+      ["qword", Number.MAX_SAFE_INTEGER + 2],
+    ] as const
+  ) {
+    assertThrows(
+      () => asf.addAttribute({ name: "Custom/Number", kind, value }),
+      MetadataError,
+    );
+  }
+  assertThrows(
+    () =>
+      asf.addAttribute({
+        name: "WM/MediaClassPrimaryID",
+        kind: "guid",
+        value: "d1607dbc-e323-4be2-86a1-48a42a28441e",
+      }),
+    MetadataError,
+  );
+  assertEquals(asf.getAttributes("Custom/Number"), []);
+  assertEquals(asf.getAttributes("WM/MediaClassPrimaryID"), []);
+
+  file.dispose();
+});
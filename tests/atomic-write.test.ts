@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Tests for atomic file writes with backups
+ */
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { writeFileData } from "../src/utils/write.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+const OLD_TIME = new Date("2001-02-03T04:05:06Z");
+
+async function listDir(path: string): Promise<string[]> {
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(path)) names.push(entry.name);
+  return names.sort();
+}
+
+Deno.test("Atomic write: replaces the file and keeps its mode", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = `${dir}/song.mp3`;
+    await Deno.writeFile(path, new Uint8Array([1, 2, 3]));
+    await Deno.chmod(path, 0o640);
+    await Deno.utime(path, OLD_TIME, OLD_TIME);
+
+    await writeFileData(path, new Uint8Array([4, 5]));
+    assertEquals(await Deno.readFile(path), new Uint8Array([4, 5]));
+    assertEquals((await Deno.stat(path)).mode! & 0o777, 0o640);
+    assertEquals((await Deno.stat(path)).mtime! > OLD_TIME, true);
+    // No temporary file is left behind
+    assertEquals(await listDir(dir), ["song.mp3"]);
+
+    // New files are created as well
+    await writeFileData(`${dir}/new.mp3`, new Uint8Array([6]), {
+      backup: true,
+    });
+    assertEquals(await listDir(dir), ["new.mp3", "song.mp3"]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Atomic write: backups and preserved times", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = `${dir}/song.mp3`;
+    await Deno.mkdir(`${dir}/backups`);
+    await Deno.writeFile(path, new Uint8Array([1]));
+    await Deno.utime(path, OLD_TIME, OLD_TIME);
+
+    await writeFileData(path, new Uint8Array([2]), {
+      backup: true,
+      preserve: true,
+    });
+    assertEquals(await Deno.readFile(`${path}.bak`), new Uint8Array([1]));
+    assertEquals((await Deno.stat(path)).mtime, OLD_TIME);
+
+    await writeFileData(path, new Uint8Array([3]), {
+      atomic: false,
+      backup: `${dir}/backups/`,
+    });
+    assertEquals(await Deno.readFile(path), new Uint8Array([3]));
+    assertEquals(
+      await Deno.readFile(`${dir}/backups/song.mp3`),
+      new Uint8Array([2]),
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Atomic write: keeps symbolic and hard links", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = `${dir}/song.mp3`;
+    await Deno.writeFile(path, new Uint8Array([1]));
+    await Deno.symlink("song.mp3", `${dir}/link.mp3`);
+    await Deno.link(path, `${dir}/hard.mp3`);
+
+    // The link still points to the file, which has the new data
+    await writeFileData(`${dir}/link.mp3`, new Uint8Array([2]));
+    assertEquals((await Deno.lstat(`${dir}/link.mp3`)).isSymlink, true);
+    assertEquals(await Deno.readFile(path), new Uint8Array([2]));
+
+    // Other hard links see the new data
+    assertEquals(await Deno.readFile(`${dir}/hard.mp3`), new Uint8Array([2]));
+    await writeFileData(`${dir}/hard.mp3`, new Uint8Array([3]));
+    assertEquals(await Deno.readFile(path), new Uint8Array([3]));
+    assertEquals(await listDir(dir), ["hard.mp3", "link.mp3", "song.mp3"]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Atomic write: saveToFile backs up before patching", async () => {
+  const taglib = await TagLib.initialize();
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = `${dir}/song.flac`;
+    await Deno.copyFile(TEST_FILES.flac, path);
+
+    const file = await taglib.open(path);
+    file.tag().setTitle("First title");
+    await file.saveToFile(undefined, { inPlace: false });
+    await Deno.utime(path, OLD_TIME, OLD_TIME);
+
+    // Same-size edits are patched unless inPlace is false
+    file.tag().setTitle("Other title");
+    const patched = await file.saveToFile(undefined, {
+      backup: true,
+      preserve: true,
+    });
+    assertEquals(patched.strategy, "patch");
+    assertEquals((await Deno.stat(path)).mtime, OLD_TIME);
+
+    file.tag().setTitle("Third title");
+    const rewritten = await file.saveToFile(undefined, { inPlace: false });
+    assertEquals(rewritten.strategy, "rewrite");
+    file.dispose();
+
+    const backup = await taglib.open(`${path}.bak`);
+    assertEquals(backup.tag().title, "First title");
+    backup.dispose();
+    const saved = await taglib.open(path);
+    assertEquals(saved.tag().title, "Third title");
+    saved.dispose();
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
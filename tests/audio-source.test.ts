@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Tests for streamed file access through AudioSource
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { EnvironmentError, MetadataError } from "../src/errors.ts";
+import { blobSource, createAudioSource } from "../src/audio-source.ts";
+import { readLAMEGapless, readMP3Head } from "../src/gapless.ts";
+import { readMP4Chapters, writeMP4Chapters } from "../src/mp4-chapters.ts";
+import { readRIFFChunk } from "../src/riff.ts";
+import type { AudioSource } from "../src/types.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+/** Growable in-memory source that counts the bytes read */
+function memorySource(initial: Uint8Array) {
+  let data = initial.slice();
+  const source = {
+    bytesRead: 0,
+    get size() {
+      return data.length;
+    },
+    get data() {
+      return data;
+    },
+    read(offset: number, length: number) {
+      source.bytesRead += length;
+      return data.slice(offset, offset + length);
+    },
+    write(offset: number, bytes: Uint8Array) {
+      if (offset + bytes.length > data.length) {
+        const grown = new Uint8Array(offset + bytes.length);
+        grown.set(data);
+        data = grown;
+      }
+      data.set(bytes, offset);
+    },
+    truncate(length: number) {
+      data = data.slice(0, length);
+    },
+  };
+  return source;
+}
+
+Deno.test("AudioSource: Deno FsFile adapter", async () => {
+  const path = await Deno.makeTempFile();
+  try {
+    await Deno.writeFile(path, new Uint8Array([1, 2, 3, 4, 5, 6]));
+    const file = await Deno.open(path, { read: true, write: true });
+    const source = (await createAudioSource(file))!;
+
+    assertEquals(source.size, 6);
+    assertEquals(source.read(2, 3), new Uint8Array([3, 4, 5]));
+    source.write!(4, new Uint8Array([9, 9, 9]));
+    assertEquals(source.size, 7);
+    source.truncate!(5);
+    file.close();
+    assertEquals(
+      await Deno.readFile(path),
+      new Uint8Array([1, 2, 3, 4, 9]),
+    );
+
+    assertEquals(await createAudioSource("song.mp3"), undefined);
+    assertEquals(await createAudioSource(new Uint8Array(4)), undefined);
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("AudioSource: Blobs need FileReaderSync", () => {
+  assertThrows(() => blobSource(new Blob([])), EnvironmentError);
+});
+
+Deno.test("AudioSource: reads only what TagLib needs", async () => {
+  const taglib = await TagLib.initialize();
+  const data = await readFileData(TEST_FILES.flac);
+  const source = memorySource(data);
+
+  const streamed = await taglib.open(source);
+  const buffered = await taglib.open(data);
+  assertEquals(streamed.tag().title, buffered.tag().title);
+  assertEquals(streamed.audioProperties()?.sampleRate, 44100);
+  assertEquals(source.bytesRead < data.length, true);
+
+  // Without write() and truncate() the source is read-only
+  const readOnly: AudioSource = { size: data.length, read: source.read };
+  const file = await taglib.open(readOnly);
+  file.tag().setTitle("Unsaved");
+  assertEquals(file.save(), false);
+
+  streamed.dispose();
+  buffered.dispose();
+  file.dispose();
+});
+
+Deno.test("AudioSource: save writes to the source in place", async () => {
+  const taglib = await TagLib.initialize();
+
+  for (const path of [TEST_FILES.mp3, TEST_FILES.flac, TEST_FILES.m4a]) {
+    const source = memorySource(await readFileData(path));
+    const file = await taglib.open(source);
+
+    // A large picture makes the tag grow and moves the audio data
+    file.tag().setTitle("Streamed");
+    file.setPictures([{
+      mimeType: "image/png",
+      data: new Uint8Array(300_000).fill(7),
+      type: 3,
+      description: "",
+    }]);
+    assertEquals(file.hasUnsavedChanges(), true);
+    assertEquals(file.save(), true);
+    assertEquals(file.hasUnsavedChanges(), false);
+    assertEquals(file.getFileBuffer(), source.data);
+    const grownSize = source.size;
+
+    const reopened = await taglib.open(source.data.slice());
+    assertEquals(reopened.tag().title, "Streamed");
+    assertEquals(reopened.getPictures()[0].data.length, 300_000);
+    assertEquals(
+      reopened.audioProperties()?.length,
+      file.audioProperties()?.length,
+    );
+
+    // Removing the picture shrinks the file again
+    file.setPictures([]);
+    file.save();
+    assertEquals(source.size < grownSize - 250_000, true);
+
+    file.dispose();
+    reopened.dispose();
+  }
+});
+
+Deno.test("AudioSource: chapters, LAME and RIFF chunks read headers only", async () => {
+  const m4a = writeMP4Chapters(await readFileData(TEST_FILES.m4a), [
+    { startTime: 0, endTime: 1000, title: "One" },
+    { startTime: 1000, endTime: 2000, title: "Two" },
+  ]);
+  const m4aSource = memorySource(m4a);
+  assertEquals(readMP4Chapters(m4aSource), readMP4Chapters(m4a));
+  assertEquals(m4aSource.bytesRead < m4a.length, true);
+
+  const mp3 = await readFileData(TEST_FILES.mp3);
+  const mp3Source = memorySource(mp3);
+  assertEquals(readLAMEGapless(readMP3Head(mp3Source)), readLAMEGapless(mp3));
+  assertEquals(mp3Source.bytesRead < mp3.length, true);
+
+  const wav = await readFileData(TEST_FILES.wav);
+  const wavSource = memorySource(wav);
+  assertEquals(readRIFFChunk(wavSource, "fmt "), readRIFFChunk(wav, "fmt "));
+  assertEquals(wavSource.bytesRead < wav.length, true);
+});
+
+Deno.test("AudioSource: whole-file rewrites are rejected", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(
+    memorySource(await readFileData(TEST_FILES.m4a)),
+  );
+
+  assertThrows(
+    () => file.setChapters([{ startTime: 0, endTime: 1000, title: "One" }]),
+    MetadataError,
+  );
+  assertThrows(() => file.save({ padding: 0 }), MetadataError);
+  assertEquals(file.save({ padding: "auto" }), true);
+
+  file.dispose();
+});
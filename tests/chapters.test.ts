@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Tests for chapter markers
+ */
+
+import {
+  assertEquals,
+  assertExists,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { MetadataError } from "../src/errors.ts";
+import {
+  child,
+  locateAtoms,
+  parseAtom,
+  readMP4Chapters,
+  serializeAtom,
+  shiftChunkOffsets,
+  writeMP4Chapters,
+} from "../src/mp4-chapters.ts";
+import { PictureType } from "../src/types.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+Deno.test("Chapters: MP3 round-trip preserves order", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  assertEquals(file.getChapters(), []);
+
+  // Deliberately not sorted by start time: CTOC order must win
+  file.setChapters([
+    { startTime: 5000, endTime: 9000, title: "Second", url: "https://x.y" },
+    {
+      id: "intro",
+      startTime: 0,
+      endTime: 5000,
+      startOffset: 0,
+      endOffset: 1024,
+      title: "First",
+      image: {
+        mimeType: "image/png",
+        data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+        type: PictureType.FrontCover,
+      },
+    },
+  ]);
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  const chapters = reopened.getChapters();
+
+  assertEquals(chapters.length, 2);
+  assertEquals(chapters[0].id, "chp0");
+  assertEquals(chapters[0].title, "Second");
+  assertEquals(chapters[0].url, "https://x.y");
+  assertEquals(chapters[0].startOffset, undefined);
+  assertEquals(chapters[1].id, "intro");
+  assertEquals(chapters[1].startTime, 0);
+  assertEquals(chapters[1].endTime, 5000);
+  assertEquals(chapters[1].endOffset, 1024);
+  assertExists(chapters[1].image);
+  assertEquals(chapters[1].image.mimeType, "image/png");
+
+  // The table of contents is visible through the raw frame API
+  assertEquals(reopened.id3v2().getFrames("CTOC").length, 1);
+
+  reopened.setChapters([]);
+  assertEquals(reopened.getChapters(), []);
+  assertEquals(reopened.id3v2().getFrames("CTOC"), []);
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("Chapters: Invalid chapters are rejected", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  assertThrows(
+    () => file.setChapters([{ startTime: 2000, endTime: 1000 }]),
+    MetadataError,
+  );
+  assertThrows(
+    () =>
+      file.setChapters([
+        { id: "a", startTime: 0, endTime: 1000 },
+        { id: "a", startTime: 1000, endTime: 2000 },
+      ]),
+    MetadataError,
+  );
+
+  file.dispose();
+});
+
+Deno.test("Chapters: MP4 round-trip through save()", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.m4a));
+
+  assertEquals(file.getChapters(), []);
+
+  file.setChapters([
+    { startTime: 1000, endTime: 2500, title: "Chapter 2" },
+    { startTime: 0, endTime: 1000, title: "Chapter 1" },
+  ]);
+  file.tag().setTitle("With Chapters");
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.tag().title, "With Chapters");
+  assertEquals(reopened.getChapters(), [
+    { startTime: 0, endTime: 1000, title: "Chapter 1" },
+    { startTime: 1000, endTime: 2500, title: "Chapter 2" },
+  ]);
+
+  // Audio data is still addressable after the moov atom grew
+  assertExists(reopened.audioProperties());
+
+  reopened.setChapters([]);
+  reopened.save();
+  assertEquals(reopened.getChapters(), []);
+
+  file.dispose();
+  reopened.dispose();
+});
+
+function topLevelTypes(data: Uint8Array): string[] {
+  return locateAtoms(data, 0, data.length)!.map((atom) => atom.type);
+}
+
+/** Append the 4-byte QuickTime terminator to moov/udta */
+function withUdtaTerminator(data: Uint8Array): Uint8Array {
+  const location = locateAtoms(data, 0, data.length)!.find((atom) =>
+    atom.type === "moov"
+  )!;
+  const moov = parseAtom(data, location);
+  child(moov, "udta")!.trailer = new Uint8Array(4);
+  const end = location.offset + location.size;
+  shiftChunkOffsets(moov, end, 4);
+
+  const out = new Uint8Array(data.length + 4);
+  out.set(data.subarray(0, location.offset));
+  const moovEnd = serializeAtom(moov, out, location.offset);
+  out.set(data.subarray(end), moovEnd);
+  return out;
+}
+
+Deno.test("Chapters: MP4 chapters starting after zero", async () => {
+  const data = await readFileData(TEST_FILES.m4a);
+  const chapters = [
+    { startTime: 5000, endTime: 8000, title: "Late" },
+    { startTime: 8000, endTime: 9000, title: "" },
+  ];
+
+  assertEquals(readMP4Chapters(writeMP4Chapters(data, chapters)), chapters);
+});
+
+Deno.test("Chapters: MP4 rewrites replace the chapter samples", async () => {
+  const data = await readFileData(TEST_FILES.m4a);
+  const chapters = [{ startTime: 0, endTime: 1000, title: "One" }];
+
+  const first = writeMP4Chapters(data, chapters);
+  let current = first;
+  for (let i = 0; i < 5; i++) {
+    current = writeMP4Chapters(current, chapters);
+  }
+  assertEquals(current.length, first.length);
+  assertEquals(topLevelTypes(current), [...topLevelTypes(data), "mdat"]);
+
+  assertEquals(writeMP4Chapters(current, []).length, data.length);
+});
+
+Deno.test("Chapters: MP4 udta with a QuickTime terminator", async () => {
+  const data = withUdtaTerminator(await readFileData(TEST_FILES.m4a));
+  const chapters = [{ startTime: 0, endTime: 1000, title: "One" }];
+
+  const written = writeMP4Chapters(data, chapters);
+  assertEquals(readMP4Chapters(written), chapters);
+  assertEquals(writeMP4Chapters(written, []).length, data.length);
+
+  const location = locateAtoms(written, 0, written.length)!.find((atom) =>
+    atom.type === "moov"
+  )!;
+  const udta = child(parseAtom(written, location), "udta")!;
+  assertEquals(udta.trailer, new Uint8Array(4));
+});
@@ -93,4 +93,102 @@ Deno.test("codec and container detection", async (t) => {
       file.dispose();
     }
   });
+
+  await t.step("DSF container - DSD codec", async () => {
+    const file = await taglib.open(createDSF());
+
+    try {
+      assertEquals(file.getFormat(), "DSF");
+      const props = file.audioProperties();
+      assertEquals(props?.containerFormat, "DSF");
+      assertEquals(props?.codec, "DSD");
+      assertEquals(props?.isLossless, true);
+      assertEquals(props?.sampleRate, 2822400);
+      assertEquals(props?.channels, 2);
+    } finally {
+      file.dispose();
+    }
+  });
+});
+
+Deno.test("format-specific audio properties", async (t) => {
+  const taglib = await TagLib.initialize();
+  const details = async (...path: string[]) => {
+    const file = await taglib.open(await Deno.readFile(join("tests", ...path)));
+    try {
+      return file.audioProperties()?.details;
+    } finally {
+      file.dispose();
+    }
+  };
+
+  await t.step("MP3 - MPEG header and LAME VBR mode", async () => {
+    assertEquals(await details("test-files", "mp3", "kiss-snippet.mp3"), {
+      format: "MP3",
+      version: "1",
+      layer: 3,
+      channelMode: "JointStereo",
+      hasXingHeader: true,
+      hasVBRIHeader: false,
+      bitrateControlMode: "Variable",
+    });
+  });
+
+  await t.step("FLAC - STREAMINFO samples and MD5", async () => {
+    assertEquals(await details("test-files", "flac", "kiss-snippet.flac"), {
+      format: "FLAC",
+      totalSamples: 115177,
+      md5Signature: "ee39b52b9ee2fa1058ebce88297351a9",
+    });
+  });
+
+  await t.step("WAV - format tag", async () => {
+    assertEquals(await details("test-files", "wav", "kiss-snippet.wav"), {
+      format: "WAV",
+      formatTag: 1,
+    });
+  });
+
+  await t.step("MP4 - not encrypted", async () => {
+    assertEquals(await details("test-files", "mp4", "kiss-snippet.m4a"), {
+      format: "MP4",
+      isEncrypted: false,
+    });
+  });
+
+  await t.step("Vorbis - no details", async () => {
+    assertEquals(
+      await details("test-files", "ogg", "kiss-snippet.ogg"),
+      undefined,
+    );
+  });
 });
+
+/** Build a minimal DSD64 stereo DSF file with one block per channel */
+function createDSF(): Uint8Array {
+  const blockSize = 4096;
+  const size = 28 + 64 + 12 + blockSize * 2;
+  const data = new Uint8Array(size);
+  const view = new DataView(data.buffer);
+  const encoder = new TextEncoder();
+
+  data.set(encoder.encode("DSD "), 0);
+  view.setBigUint64(4, 28n, true);
+  view.setBigUint64(12, BigInt(size), true);
+  view.setBigUint64(20, 0n, true); // no ID3v2 metadata
+
+  data.set(encoder.encode("fmt "), 28);
+  view.setBigUint64(32, 52n, true);
+  view.setUint32(40, 1, true); // format version
+  view.setUint32(44, 0, true); // DSD raw
+  view.setUint32(48, 2, true); // stereo
+  view.setUint32(52, 2, true); // channels
+  view.setUint32(56, 2822400, true); // sample rate
+  view.setUint32(60, 1, true); // bits per sample
+  view.setBigUint64(64, BigInt(blockSize * 8), true); // samples per channel
+  view.setUint32(72, blockSize, true);
+
+  data.set(encoder.encode("data"), 92);
+  view.setBigUint64(96, BigInt(12 + blockSize * 2), true);
+  return data;
+}
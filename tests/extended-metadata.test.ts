@@ -7,8 +7,11 @@
 import {
   assertEquals,
   type assertExists,
+  assertThrows,
 } from "https://deno.land/std@0.223.0/assert/mod.ts";
 import { TagLib } from "../src/taglib.ts";
+import { formatPropertyValue, parsePropertyValue } from "../src/constants.ts";
+import { MetadataError } from "../src/errors.ts";
 import { readFileData } from "../src/utils/file.ts";
 import {
   type createTestFileWithMetadata,
@@ -373,3 +376,142 @@ Deno.test({
     mp3File.dispose();
   },
 });
+
+Deno.test({
+  name: "Extended Metadata - Multi-value properties",
+  fn: async () => {
+    const taglib = await TagLib.initialize();
+
+    for (const format of ["mp3", "flac", "ogg"] as const) {
+      const buffer = await readFileData(TEST_FILES[format]);
+      const file = await taglib.open(buffer);
+
+      file.setPropertyValues("ARTIST", ["Artist One", "Artist Two"]);
+      file.setPropertyValues("GENRE", ["Rock", "Blues", "Jazz"]);
+      file.save();
+
+      // Every value survives a save/re-open round trip
+      const file2 = await taglib.open(file.getFileBuffer());
+      assertEquals(
+        file2.getPropertyValues("ARTIST"),
+        ["Artist One", "Artist Two"],
+        `ARTIST should keep all values in ${format}`,
+      );
+      assertEquals(
+        file2.getPropertyValues("GENRE"),
+        ["Rock", "Blues", "Jazz"],
+        `GENRE should keep all values in ${format}`,
+      );
+
+      // Single-value getter still reports the first value
+      assertEquals(file2.getProperty("ARTIST"), "Artist One");
+
+      // Empty array removes the key
+      file2.setPropertyValues("GENRE", []);
+      assertEquals(file2.getPropertyValues("GENRE"), []);
+      assertEquals(file2.getPropertyValues("NONEXISTENT"), []);
+
+      file.dispose();
+      file2.dispose();
+    }
+  },
+});
+
+Deno.test({
+  name: "Extended Metadata - Typed property accessors",
+  fn: async () => {
+    const taglib = await TagLib.initialize();
+    const buffer = await readFileData(TEST_FILES.flac);
+    const file = await taglib.open(buffer);
+
+    file.set("TITLE", "Typed Title");
+    file.set("BPM", 120);
+    file.set("TRACKNUMBER", 5);
+    file.set("COMPILATION", true);
+    file.save();
+
+    const file2 = await taglib.open(file.getFileBuffer());
+    assertEquals(file2.get("TITLE"), "Typed Title");
+    assertEquals(file2.get("BPM"), 120);
+    assertEquals(file2.get("TRACKNUMBER"), 5);
+    assertEquals(file2.get("COMPILATION"), true);
+    assertEquals(file2.get("COMPOSER"), undefined);
+
+    // Invalid values are rejected before reaching TagLib
+    assertThrows(() => file2.set("BPM", NaN), MetadataError);
+    assertThrows(() => file2.set("BPM", -1), MetadataError);
+
+    file.dispose();
+    file2.dispose();
+
+    // "N/TOTAL" strings parse to N, and writing keeps the existing total
+    assertEquals(parsePropertyValue("TRACKNUMBER", "5/12"), 5);
+    assertEquals(formatPropertyValue("TRACKNUMBER", 7, "5/12"), "7/12");
+    assertEquals(parsePropertyValue("COMPILATION", "0"), false);
+    for (const raw of ["fast", "", "0x10", "1e3", "-1", "5.5", "5/"]) {
+      assertThrows(() => parsePropertyValue("BPM", raw), MetadataError);
+    }
+    for (const value of [5.5, -1, Infinity, 2 ** 53]) {
+      assertThrows(
+        () => formatPropertyValue("TRACKNUMBER", value),
+        MetadataError,
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "Extended Metadata - extendedTag() round trip",
+  fn: async () => {
+    const taglib = await TagLib.initialize();
+
+    for (const format of ["flac", "m4a"] as const) {
+      const file = await taglib.open(await readFileData(TEST_FILES[format]));
+      file.setExtendedTag({
+        title: "Extended",
+        track: 3,
+        albumArtist: "Various Artists",
+        discNumber: 1,
+        totalDiscs: 2,
+        totalTracks: 12,
+        compilation: true,
+        bpm: 128,
+        artistSort: "Artist, The",
+        musicbrainzTrackId: TEST_EXTENDED_METADATA.musicbrainzTrackId,
+        replayGainTrackGain: "-6.54 dB",
+        rating: 0.8,
+      });
+      file.save();
+
+      const reopened = await taglib.open(file.getFileBuffer());
+      const tag = reopened.extendedTag();
+      assertEquals(tag.title, "Extended");
+      assertEquals(tag.track, 3);
+      assertEquals(tag.albumArtist, "Various Artists");
+      assertEquals(tag.discNumber, 1, `disc in ${format}`);
+      assertEquals(tag.totalDiscs, 2, `total discs in ${format}`);
+      assertEquals(tag.totalTracks, 12, `total tracks in ${format}`);
+      assertEquals(tag.compilation, true);
+      assertEquals(tag.bpm, 128);
+      assertEquals(tag.artistSort, "Artist, The");
+      assertEquals(
+        tag.musicbrainzTrackId,
+        TEST_EXTENDED_METADATA.musicbrainzTrackId,
+      );
+      assertEquals(tag.replayGainTrackGain, "-6.54 dB");
+      assertEquals(tag.rating, 0.8);
+      assertEquals(tag.composer, undefined);
+
+      // Empty values remove fields; totals keep the track number
+      reopened.setExtendedTag({ albumArtist: "", totalTracks: 0, bpm: 0 });
+      const cleared = reopened.extendedTag();
+      assertEquals(cleared.albumArtist, undefined);
+      assertEquals(cleared.totalTracks, undefined);
+      assertEquals(cleared.bpm, undefined);
+      assertEquals(cleared.track, 3);
+
+      file.dispose();
+      reopened.dispose();
+    }
+  },
+});
@@ -34,6 +34,7 @@ Deno.test("scanFolder - reads all audio files with metadata", async () => {
     // Verify properties
     if (file.properties) {
       assertEquals(typeof file.properties.length, "number");
+      assertEquals(typeof file.properties.lengthMs, "number");
       assertEquals(typeof file.properties.bitrate, "number");
       assertEquals(typeof file.properties.sampleRate, "number");
       assertEquals(typeof file.properties.channels, "number");
@@ -45,6 +46,8 @@ Deno.test("scanFolder - reads all audio files with metadata", async () => {
   assertExists(flacFile);
   // Check that we got some metadata
   assertExists(flacFile.tags);
+  assertEquals(flacFile.properties?.totalSamples, 115177);
+  assertEquals(flacFile.properties?.lengthMs, 2611);
 
   const mp3File = result.files.find((f) => f.path.endsWith(".mp3"));
   assertExists(mp3File);
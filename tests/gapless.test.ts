@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Tests for gapless playback information
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { MetadataError, UnsupportedFormatError } from "../src/errors.ts";
+import {
+  formatITunSMPB,
+  parseITunSMPB,
+  readLAMEGapless,
+  writeLAMEGapless,
+} from "../src/gapless.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+Deno.test("Gapless: iTunSMPB conversion", () => {
+  const info = {
+    encoderDelay: 2112,
+    encoderPadding: 448,
+    validSamples: 290304,
+  };
+  const text = formatITunSMPB(info);
+  assertEquals(
+    text,
+    " 00000000 00000840 000001C0 0000000000046E00" +
+      " 00000000".repeat(8),
+  );
+  assertEquals(parseITunSMPB(text), info);
+  assertEquals(parseITunSMPB("not gapless"), undefined);
+  assertThrows(
+    () => formatITunSMPB({ ...info, encoderDelay: -1 }),
+    MetadataError,
+  );
+});
+
+Deno.test("Gapless: LAME tag read and write", async () => {
+  const data = await readFileData(TEST_FILES.mp3);
+  const info = readLAMEGapless(data);
+  assertEquals(info, {
+    encoderDelay: 1105,
+    encoderPadding: 70,
+    validSamples: 115177,
+  });
+
+  const patched = writeLAMEGapless(data, {
+    encoderDelay: 1105,
+    encoderPadding: 1000,
+    validSamples: 0,
+  })!;
+  assertEquals(patched.length, data.length);
+  assertEquals(readLAMEGapless(patched)?.encoderPadding, 1000);
+  // Everything but delay/padding and the tag CRC is unchanged
+  const changed = data.reduce(
+    (n, byte, i) => n + (byte !== patched[i] ? 1 : 0),
+    0,
+  );
+  assertEquals(changed <= 5, true);
+
+  assertThrows(
+    () =>
+      writeLAMEGapless(data, {
+        encoderDelay: 100,
+        encoderPadding: 0,
+        validSamples: 0,
+      }),
+    MetadataError,
+  );
+  for (const encoderDelay of [1105.5, NaN]) {
+    assertThrows(
+      () =>
+        writeLAMEGapless(data, {
+          encoderDelay,
+          encoderPadding: 70,
+          validSamples: 0,
+        }),
+      MetadataError,
+    );
+  }
+  assertEquals(readLAMEGapless(new Uint8Array(64)), undefined);
+});
+
+Deno.test("Gapless: MP3 iTunSMPB comment and LAME tag", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  assertEquals(file.getGaplessInfo()?.validSamples, 115177);
+
+  const info = {
+    encoderDelay: 1105,
+    encoderPadding: 600,
+    validSamples: 114647,
+  };
+  file.setGaplessInfo(info);
+  assertEquals(file.getGaplessInfo(), info);
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.getGaplessInfo(), info);
+  assertEquals(readLAMEGapless(reopened.getFileBuffer()), info);
+
+  // Without the comment the LAME tag is used
+  reopened.setGaplessInfo(null);
+  assertEquals(reopened.getGaplessInfo(), info);
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("Gapless: MP4 iTunSMPB atom", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.m4a));
+
+  const info = {
+    encoderDelay: 2112,
+    encoderPadding: 448,
+    validSamples: 290304,
+  };
+  file.setGaplessInfo(info);
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.getGaplessInfo(), info);
+  reopened.setGaplessInfo(null);
+  assertEquals(reopened.getGaplessInfo(), undefined);
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("Gapless: unsupported formats", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  assertEquals(file.getGaplessInfo(), undefined);
+  assertThrows(
+    () =>
+      file.setGaplessInfo({
+        encoderDelay: 0,
+        encoderPadding: 0,
+        validSamples: 0,
+      }),
+    UnsupportedFormatError,
+  );
+
+  file.dispose();
+});
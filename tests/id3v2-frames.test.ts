@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Tests for raw ID3v2 frame access
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { UnsupportedFormatError } from "../src/errors.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+Deno.test("ID3v2 Frames: List frames written through the tag API", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  file.tag().setTitle("Frame Title");
+  file.save();
+
+  const frames = file.id3v2().getFrames("TIT2");
+  assertEquals(frames.length, 1);
+  assertEquals(frames[0], { id: "TIT2", kind: "text", text: ["Frame Title"] });
+  assert(file.id3v2().listFrames().some((f) => f.id === "TIT2"));
+
+  file.dispose();
+});
+
+Deno.test("ID3v2 Frames: Round-trip typed frames", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+  const id3 = file.id3v2();
+
+  id3.addFrame({
+    kind: "popularimeter",
+    id: "POPM",
+    email: "user@example.com",
+    rating: 196,
+    counter: 12,
+  });
+  id3.addFrame({
+    kind: "private",
+    id: "PRIV",
+    owner: "com.example",
+    data: new Uint8Array([1, 2, 3]),
+  });
+  id3.addFrame({
+    kind: "userUrl",
+    id: "WXXX",
+    description: "Homepage",
+    url: "https://example.com",
+  });
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  const reread = reopened.id3v2();
+
+  const [popm] = reread.getFrames("POPM");
+  assertEquals(popm.kind, "popularimeter");
+  if (popm.kind === "popularimeter") {
+    assertEquals(popm.email, "user@example.com");
+    assertEquals(popm.rating, 196);
+    assertEquals(popm.counter, 12);
+  }
+
+  const [priv] = reread.getFrames("PRIV");
+  assertEquals(priv.kind, "private");
+  if (priv.kind === "private") {
+    assertEquals(priv.owner, "com.example");
+    assertEquals(Array.from(priv.data), [1, 2, 3]);
+  }
+
+  const [wxxx] = reread.getFrames("WXXX");
+  assertEquals(wxxx.kind, "userUrl");
+  if (wxxx.kind === "userUrl") {
+    assertEquals(wxxx.url, "https://example.com");
+  }
+
+  reread.removeFrames("PRIV");
+  assertEquals(reread.getFrames("PRIV"), []);
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("ID3v2 Frames: Unknown frames keep their raw body", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  const body = new Uint8Array([0x00, 0xde, 0xad, 0xbe, 0xef]);
+  file.id3v2().addFrame({ kind: "unknown", id: "XTST", data: body });
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  const [frame] = reopened.id3v2().getFrames("XTST");
+  assertEquals(frame.kind, "unknown");
+  if (frame.kind === "unknown") {
+    assertEquals(Array.from(frame.data), Array.from(body));
+  }
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("ID3v2 Frames: Rejected for formats without ID3v2", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  assertThrows(() => file.id3v2(), UnsupportedFormatError);
+
+  file.dispose();
+});
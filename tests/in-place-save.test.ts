@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Tests for in-place saves that write only changed blocks
+ */
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { diffFileData, patchFileData } from "../src/utils/write.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+async function tempCopy(path: string): Promise<string> {
+  const copy = await Deno.makeTempFile({ suffix: path.slice(-4) });
+  await Deno.copyFile(path, copy);
+  return copy;
+}
+
+Deno.test("In-place save: diff merges adjacent changed blocks", () => {
+  const before = new Uint8Array(5 * 4096);
+  const after = before.slice();
+  after[10] = 1;
+  after[4096 + 20] = 1;
+  after[4 * 4096] = 1;
+
+  const patches = diffFileData(before, after)!;
+  assertEquals(patches.map((p) => [p.offset, p.after.length]), [
+    [0, 2 * 4096],
+    [4 * 4096, 4096],
+  ]);
+  assertEquals(diffFileData(before, after.subarray(1)), undefined);
+  assertEquals(diffFileData(before, before.slice()), []);
+});
+
+Deno.test("In-place save: patches only a file that still matches", async () => {
+  const path = await Deno.makeTempFile();
+  try {
+    await Deno.writeFile(path, new Uint8Array([1, 2, 3, 4]));
+    const patch = {
+      offset: 1,
+      before: new Uint8Array([2, 3]),
+      after: new Uint8Array([7, 8]),
+    };
+
+    assertEquals(await patchFileData(path, 5, [patch]), false);
+    assertEquals(
+      await patchFileData(path, 4, [{ ...patch, before: new Uint8Array(2) }]),
+      false,
+    );
+    assertEquals(await Deno.readFile(path), new Uint8Array([1, 2, 3, 4]));
+
+    assertEquals(await patchFileData(path, 4, [patch]), true);
+    assertEquals(await Deno.readFile(path), new Uint8Array([1, 7, 8, 4]));
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("In-place save: tag changes that keep the size are patched", async () => {
+  const taglib = await TagLib.initialize();
+
+  for (const source of [TEST_FILES.mp3, TEST_FILES.flac, TEST_FILES.ogg]) {
+    const path = await tempCopy(source);
+    try {
+      // TagLib only keeps padding up to 1% of the file size, so the small
+      // test files change size with shorter tags; use titles of equal length
+      const file = await taglib.open(path);
+      file.tag().setTitle("First title");
+      await file.saveToFile();
+
+      const size = (await Deno.stat(path)).size;
+      file.tag().setTitle("Other title");
+      const result = await file.saveToFile();
+
+      // With inPlace false the whole file is replaced atomically
+      file.tag().setTitle("Third title");
+      assertEquals(
+        (await file.saveToFile(undefined, { inPlace: false })).strategy,
+        "rewrite",
+      );
+      file.tag().setTitle("Other title");
+      assertEquals((await file.saveToFile()).strategy, "patch");
+      file.dispose();
+
+      assertEquals(result.strategy, "patch");
+      assertEquals(result.bytesWritten! <= 8 * 1024, true);
+      assertEquals((await Deno.stat(path)).size, size);
+
+      const reopened = await taglib.open(path);
+      assertEquals(reopened.tag().title, "Other title");
+      reopened.dispose();
+    } finally {
+      await Deno.remove(path);
+    }
+  }
+});
+
+Deno.test("In-place save: falls back to a rewrite", async () => {
+  const taglib = await TagLib.initialize();
+  const path = await tempCopy(TEST_FILES.flac);
+  try {
+    // A tag that outgrows the padding moves the audio data
+    const file = await taglib.open(path);
+    file.setProperty("COMMENT", "x".repeat(100_000));
+    const result = await file.saveToFile();
+    assertEquals(result.strategy, "rewrite");
+    assertEquals(result.bytesWritten, (await Deno.stat(path)).size);
+
+    // Changes saved only in memory were never written to disk
+    file.tag().setTitle("Saved in memory");
+    file.save();
+    file.tag().setArtist("Saved to disk");
+    assertEquals((await file.saveToFile()).strategy, "rewrite");
+    file.dispose();
+
+    const reopened = await taglib.open(path);
+    assertEquals(reopened.tag().title, "Saved in memory");
+    assertEquals(reopened.tag().artist, "Saved to disk");
+    reopened.dispose();
+
+    // The file changed on disk after it was opened
+    const stale = await taglib.open(path);
+    await Deno.writeFile(path, new Uint8Array([0]), { append: true });
+    stale.tag().setTitle("Stale");
+    assertEquals((await stale.saveToFile()).strategy, "rewrite");
+    stale.dispose();
+  } finally {
+    await Deno.remove(path);
+  }
+});
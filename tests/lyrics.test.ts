@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Tests for synchronized lyrics and LRC conversion
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import {
+  type ID3v2SyncedLyricsFrame,
+  ID3v2TimestampFormat,
+} from "../src/types.ts";
+import { MetadataError } from "../src/errors.ts";
+import { formatLRC, isLRC, parseLRC } from "../src/lyrics.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+Deno.test("LRC: Parse timestamps, repeated lines and tags", () => {
+  const lyrics = parseLRC(
+    [
+      "[ti:Song]",
+      "[la:eng]",
+      "[offset:500]",
+      "[00:12.50]First line",
+      "[01:02.3][00:20.00]Chorus",
+      "not a lyric line",
+    ].join("\n"),
+  );
+
+  assertEquals(lyrics.language, "eng");
+  assertEquals(lyrics.lines, [
+    { time: 12000, text: "First line" },
+    { time: 19500, text: "Chorus" },
+    { time: 61800, text: "Chorus" },
+  ]);
+});
+
+Deno.test("LRC: Format and re-parse", () => {
+  const lyrics = {
+    lines: [
+      { time: 61010, text: "Second" },
+      { time: 5000, text: "First" },
+    ],
+  };
+
+  const lrc = formatLRC(lyrics);
+  assertEquals(lrc, "[00:05.00]First\n[01:01.01]Second");
+  assertEquals(isLRC(lrc), true);
+  assertEquals(isLRC("Plain lyrics"), false);
+  assertEquals(parseLRC(lrc).lines, [
+    { time: 5000, text: "First" },
+    { time: 61010, text: "Second" },
+  ]);
+});
+
+Deno.test("Synced Lyrics: Vorbis LYRICS round-trip", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  assertEquals(file.getSyncedLyrics(), undefined);
+
+  file.setSyncedLyrics({
+    lines: [
+      { time: 0, text: "Hello" },
+      { time: 1500, text: "World" },
+    ],
+  });
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(
+    reopened.getProperty("LYRICS"),
+    "[00:00.00]Hello\n[00:01.50]World",
+  );
+  assertEquals(reopened.getSyncedLyrics()?.lines.length, 2);
+
+  reopened.setSyncedLyrics(null);
+  assertEquals(reopened.getSyncedLyrics(), undefined);
+  assertEquals(reopened.getProperty("LYRICS"), undefined);
+
+  // Unsynchronized lyrics are not removed
+  reopened.setProperty("LYRICS", "Plain lyrics");
+  reopened.setSyncedLyrics(null);
+  assertEquals(reopened.getProperty("LYRICS"), "Plain lyrics");
+
+  assertThrows(
+    () => reopened.setSyncedLyrics({ lines: [{ time: -1, text: "x" }] }),
+    MetadataError,
+  );
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("Synced Lyrics: ID3v2 SYLT round-trip", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  file.setSyncedLyrics({
+    language: "eng",
+    lines: [
+      { time: 2000, text: "Second" },
+      { time: 1000, text: "First" },
+    ],
+  });
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.getSyncedLyrics(), {
+    language: "eng",
+    description: "",
+    lines: [
+      { time: 1000, text: "First" },
+      { time: 2000, text: "Second" },
+    ],
+  });
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("Synced Lyrics: ID3v2 keeps other languages and timed text", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+  const id3 = file.id3v2();
+
+  const frame: ID3v2SyncedLyricsFrame = {
+    kind: "syncedLyrics",
+    id: "SYLT",
+    language: "deu",
+    description: "",
+    timestampFormat: ID3v2TimestampFormat.Milliseconds,
+    contentType: 1,
+    entries: [{ time: 0, text: "Hallo" }],
+  };
+  id3.addFrame(frame);
+  id3.addFrame({ ...frame, language: "eng", contentType: 3 });
+
+  file.setSyncedLyrics({ language: "eng", lines: [{ time: 0, text: "Hi" }] });
+  const languages = () =>
+    id3.getFrames("SYLT").map((f) =>
+      f.kind === "syncedLyrics" ? `${f.language}:${f.contentType}` : ""
+    ).sort();
+  assertEquals(languages(), ["deu:1", "eng:1", "eng:3"]);
+
+  // null removes lyrics in every language, but not other timed text
+  file.setSyncedLyrics(null);
+  assertEquals(languages(), ["eng:3"]);
+
+  file.dispose();
+});
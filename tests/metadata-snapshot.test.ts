@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Tests for metadata snapshot export and import
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { MetadataError } from "../src/errors.ts";
+import {
+  decodeBase64,
+  encodeBase64,
+  fromSnapshotValue,
+  toSnapshotValue,
+} from "../src/metadata-snapshot.ts";
+import type { ID3v2Frame, MetadataSnapshot } from "../src/types.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+const COVER = {
+  mimeType: "image/png",
+  data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  type: 3,
+  description: "Front",
+};
+
+Deno.test("Snapshot: binary values round-trip through JSON", () => {
+  const large = new Uint8Array(100_000).map((_, i) => i % 251);
+  assertEquals(decodeBase64(encodeBase64(large)), large);
+  assertThrows(() => decodeBase64("%%%"), MetadataError);
+
+  const frame: ID3v2Frame = {
+    kind: "private",
+    id: "PRIV",
+    owner: "com.example",
+    data: new Uint8Array([1, 2, 3]),
+  };
+  const json = JSON.parse(JSON.stringify(toSnapshotValue(frame)));
+  assertEquals(json.data, { $base64: "AQID" });
+  assertEquals(fromSnapshotValue<ID3v2Frame>(json), frame);
+});
+
+Deno.test("Snapshot: export and replace restore properties and pictures", async () => {
+  const taglib = await TagLib.initialize();
+  const data = await readFileData(TEST_FILES.flac);
+
+  const source = await taglib.open(data);
+  source.tag().setTitle("Backup");
+  source.setProperty("MOOD", "Calm");
+  source.setPictures([COVER]);
+  const doc: MetadataSnapshot = JSON.parse(
+    JSON.stringify(source.exportMetadata()),
+  );
+
+  assertEquals(doc.version, 1);
+  assertEquals(doc.format, "FLAC");
+  assertEquals(doc.properties.MOOD, ["Calm"]);
+  assertEquals(doc.pictures[0].data, encodeBase64(COVER.data));
+  assertEquals(doc.audioProperties?.sampleRate, 44100);
+
+  const target = await taglib.open(data);
+  target.setProperty("GENRE", "Removed");
+  target.importMetadata(doc, { mode: "replace" });
+  target.save();
+
+  const restored = await taglib.open(target.getFileBuffer());
+  assertEquals(restored.properties(), source.properties());
+  assertEquals(restored.getPictures(), [COVER]);
+
+  source.dispose();
+  target.dispose();
+  restored.dispose();
+});
+
+Deno.test("Snapshot: merge keeps fields the snapshot lacks", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  file.setProperty("GENRE", "Jazz");
+  file.importMetadata({
+    version: 1,
+    format: "FLAC",
+    properties: { ARTISTS: ["A", "B"] },
+    pictures: [],
+  });
+
+  assertEquals(file.getProperty("GENRE"), "Jazz");
+  assertEquals(file.properties().ARTISTS, ["A", "B"]);
+
+  file.dispose();
+});
+
+Deno.test("Snapshot: merge keeps ID3v2 frames with other descriptions", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+  const id3 = file.id3v2();
+
+  id3.removeFrames("TXXX");
+  id3.removeFrames("COMM");
+  id3.addFrame({
+    kind: "userText",
+    id: "TXXX",
+    description: "REPLAYGAIN_TRACK_GAIN",
+    text: ["-6.00 dB"],
+  });
+  id3.addFrame({
+    kind: "userText",
+    id: "TXXX",
+    description: "MusicBrainz Album Id",
+    text: ["old"],
+  });
+  id3.addFrame({
+    kind: "comment",
+    id: "COMM",
+    language: "deu",
+    description: "",
+    text: "Kommentar",
+  });
+
+  const frames: ID3v2Frame[] = [
+    {
+      kind: "userText",
+      id: "TXXX",
+      description: "MusicBrainz Album Id",
+      text: ["new"],
+    },
+    {
+      kind: "comment",
+      id: "COMM",
+      language: "eng",
+      description: "",
+      text: "Comment",
+    },
+  ];
+  file.importMetadata({
+    version: 1,
+    format: "MP3",
+    properties: {},
+    pictures: [],
+    id3v2: toSnapshotValue(frames),
+  });
+
+  const userText = file.id3v2().getFrames("TXXX").map((frame) =>
+    frame.kind === "userText" ? `${frame.description}=${frame.text}` : ""
+  ).sort();
+  assertEquals(userText, [
+    "MusicBrainz Album Id=new",
+    "REPLAYGAIN_TRACK_GAIN=-6.00 dB",
+  ]);
+  const comments = file.id3v2().getFrames("COMM").map((frame) =>
+    frame.kind === "comment" ? `${frame.language}:${frame.text}` : ""
+  ).sort();
+  assertEquals(comments, ["deu:Kommentar", "eng:Comment"]);
+
+  file.dispose();
+});
+
+Deno.test("Snapshot: rejects unknown versions", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  const doc = { ...file.exportMetadata(), version: 2 };
+  assertThrows(() => file.importMetadata(doc), MetadataError);
+
+  file.dispose();
+});
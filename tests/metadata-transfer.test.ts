@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Tests for cross-format metadata transfer
+ */
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import type { AudioFile } from "../src/taglib.ts";
+import {
+  r128ToReplayGain,
+  replayGainToR128,
+  transferMetadata,
+} from "../src/metadata-transfer.ts";
+import type { FileType, Picture, PropertyMap } from "../src/types.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+const COVER: Picture = {
+  mimeType: "image/png",
+  data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  type: 3,
+  description: "Front",
+};
+
+const MBID = "b1a9c0e9-d987-4042-ae91-78d6a3267d69";
+
+/** Property and picture storage standing in for a file without test data */
+function memoryFile(format: FileType, initial: PropertyMap = {}): AudioFile {
+  let properties = { ...initial };
+  let pictures: Picture[] = [];
+  return {
+    getFormat: () => format,
+    properties: () => ({ ...properties }),
+    setProperties: (map: PropertyMap) => {
+      properties = { ...map };
+    },
+    getPictures: () => pictures,
+    setPictures: (list: Picture[]) => {
+      pictures = list;
+    },
+  } as AudioFile;
+}
+
+Deno.test("Transfer: ReplayGain and R128 conversion", () => {
+  assertEquals(replayGainToR128("-6.54 dB"), "-2954");
+  assertEquals(replayGainToR128("+5.00 dB"), "0");
+  assertEquals(replayGainToR128("loud"), undefined);
+  assertEquals(r128ToReplayGain("-2954"), "-6.54 dB");
+  assertEquals(r128ToReplayGain("1.5"), undefined);
+});
+
+Deno.test("Transfer: FLAC to MP3 and MP4", async () => {
+  const taglib = await TagLib.initialize();
+  const source = await taglib.open(await readFileData(TEST_FILES.flac));
+  source.setProperties({
+    ...source.properties(),
+    TITLE: ["Transfer"],
+    ARTISTS: ["A", "B"],
+    MUSICBRAINZ_TRACKID: [MBID],
+    REPLAYGAIN_TRACK_GAIN: ["-6.54 dB"],
+    ENCODER: ["flac 1.4.3"],
+  });
+  source.setPictures([COVER]);
+
+  for (const path of [TEST_FILES.mp3, TEST_FILES.m4a]) {
+    const dest = await taglib.open(await readFileData(path));
+    const report = transferMetadata(source, dest, { exclude: ["encoder"] });
+
+    assertEquals(report.unmapped, {});
+    assertEquals(report.converted, {});
+    assertEquals(report.pictures, 1);
+    assertEquals(report.transferred.includes("MUSICBRAINZ_TRACKID"), true);
+    assertEquals(report.transferred.includes("ENCODER"), false);
+    dest.save();
+
+    const reopened = await taglib.open(dest.getFileBuffer());
+    const properties = reopened.properties();
+    assertEquals(properties.TITLE, ["Transfer"]);
+    assertEquals(properties.ARTISTS, ["A", "B"]);
+    assertEquals(properties.MUSICBRAINZ_TRACKID, [MBID]);
+    assertEquals(properties.REPLAYGAIN_TRACK_GAIN, ["-6.54 dB"]);
+    // MP4 cover art has no description
+    assertEquals(reopened.getPictures()[0].data, COVER.data);
+
+    dest.dispose();
+    reopened.dispose();
+  }
+
+  source.dispose();
+});
+
+Deno.test("Transfer: ReplayGain becomes R128 for Opus", () => {
+  const source = memoryFile("FLAC", {
+    TITLE: ["Loud"],
+    REPLAYGAIN_TRACK_GAIN: ["-6.54 dB"],
+    REPLAYGAIN_TRACK_PEAK: ["0.988"],
+  });
+  const dest = memoryFile("OPUS", { ENCODER: ["opusenc"] });
+
+  const report = transferMetadata(source, dest, { pictures: false });
+  assertEquals(report, {
+    transferred: ["TITLE"],
+    converted: { REPLAYGAIN_TRACK_GAIN: "R128_TRACK_GAIN" },
+    unmapped: { REPLAYGAIN_TRACK_PEAK: ["0.988"] },
+    pictures: 0,
+  });
+  assertEquals(dest.properties(), {
+    ENCODER: ["opusenc"],
+    TITLE: ["Loud"],
+    R128_TRACK_GAIN: ["-2954"],
+  });
+
+  const back = memoryFile("MP3");
+  transferMetadata(dest, back);
+  assertEquals(back.properties().REPLAYGAIN_TRACK_GAIN, ["-6.54 dB"]);
+});
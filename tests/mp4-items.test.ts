@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Tests for typed MP4 item access
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { MetadataError, UnsupportedFormatError } from "../src/errors.ts";
+import { MP4_ATOMS, mp4FreeformKey } from "../src/constants.ts";
+import { MP4ContentRating, MP4MediaKind } from "../src/types.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+Deno.test("MP4 Items: Typed round-trip of iTunes atoms", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.m4a));
+
+  file.setMP4TypedItem({
+    key: MP4_ATOMS.mediaKind,
+    kind: "byte",
+    value: MP4MediaKind.TVShow,
+  });
+  file.setMP4TypedItem({
+    key: MP4_ATOMS.contentRating,
+    kind: "byte",
+    value: MP4ContentRating.Clean,
+  });
+  file.setMP4TypedItem({ key: MP4_ATOMS.gapless, kind: "bool", value: true });
+  file.setMP4TypedItem({
+    key: MP4_ATOMS.tvShow,
+    kind: "text",
+    value: ["Show"],
+  });
+  file.setMP4TypedItem({ key: MP4_ATOMS.tvEpisode, kind: "uint", value: 3 });
+  file.setMP4TypedItem({ key: MP4_ATOMS.disc, kind: "intPair", value: [1, 2] });
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.getMP4TypedItem("stik"), {
+    key: "stik",
+    kind: "byte",
+    value: 10,
+  });
+  assertEquals(reopened.getMP4TypedItem("rtng")?.value, 2);
+  assertEquals(reopened.getMP4TypedItem("pgap")?.value, true);
+  assertEquals(reopened.getMP4TypedItem("tvsh")?.value, ["Show"]);
+  assertEquals(reopened.getMP4TypedItem("tves")?.value, 3);
+  assertEquals(reopened.getMP4TypedItem("disk")?.value, [1, 2]);
+  assertEquals(reopened.getMP4TypedItem("tvnn"), undefined);
+
+  const keys = reopened.listMP4Items().map((item) => item.key);
+  assert(keys.includes("stik") && keys.includes("tvsh"));
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("MP4 Items: Freeform atoms with a custom mean", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.m4a));
+
+  const key = mp4FreeformKey("CATALOG", "org.example");
+  assertEquals(key, "----:org.example:CATALOG");
+
+  file.setMP4TypedItem({ key, kind: "text", value: ["A-1", "A-2"] });
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.getMP4TypedItem(key), {
+    key,
+    kind: "text",
+    value: ["A-1", "A-2"],
+  });
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("MP4 Items: Invalid items and formats are rejected", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.m4a));
+
+  assertThrows(
+    () => file.setMP4TypedItem({ key: "stik", kind: "byte", value: 300 }),
+    MetadataError,
+  );
+  assertThrows(
+    () => file.setMP4TypedItem({ key: "----:nomean", kind: "text", value: [] }),
+    MetadataError,
+  );
+  file.dispose();
+
+  const flac = await taglib.open(await readFileData(TEST_FILES.flac));
+  assertThrows(() => flac.listMP4Items(), UnsupportedFormatError);
+  flac.dispose();
+});
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Tests for tag padding on save
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { MetadataError } from "../src/errors.ts";
+import { locatePadding } from "../src/padding.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+const FILES = [TEST_FILES.mp3, TEST_FILES.flac, TEST_FILES.m4a, TEST_FILES.ogg];
+
+/** Sequence numbers of the Ogg pages, which must count up from 0 */
+function oggSequence(data: Uint8Array): number[] {
+  const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const sequence: number[] = [];
+  for (let offset = 0; offset < data.length;) {
+    sequence.push(dv.getUint32(offset + 18, true));
+    const segments = data.subarray(
+      offset + 27,
+      offset + 27 + data[offset + 26],
+    );
+    offset += 27 + segments.length + segments.reduce((sum, s) => sum + s, 0);
+  }
+  return sequence;
+}
+
+Deno.test("Padding: reserves the requested space", async () => {
+  const taglib = await TagLib.initialize();
+
+  for (const path of FILES) {
+    const file = await taglib.open(await readFileData(path));
+    const format = file.getFormat();
+    const duration = file.audioProperties()?.length;
+
+    // Large enough to need another Ogg page
+    file.tag().setTitle("Padded");
+    assertEquals(file.save({ padding: 70_000 }), true);
+    assertEquals(locatePadding(file.getFileBuffer(), format)?.padding, 70_000);
+
+    const reopened = await taglib.open(file.getFileBuffer());
+    assertEquals(reopened.tag().title, "Padded");
+    assertEquals(reopened.audioProperties()?.length, duration);
+    if (format === "OGG") {
+      const sequence = oggSequence(file.getFileBuffer());
+      assertEquals(sequence, sequence.map((_, i) => i));
+    }
+    reopened.dispose();
+
+    file.save({ padding: 0 });
+    assertEquals(locatePadding(file.getFileBuffer(), format)?.padding, 0);
+    assertEquals(file.tag().title, "Padded");
+
+    file.dispose();
+  }
+});
+
+Deno.test("Padding: preserve keeps the audio in place", async () => {
+  const taglib = await TagLib.initialize();
+
+  for (const path of FILES) {
+    const file = await taglib.open(await readFileData(path));
+    const format = file.getFormat();
+    file.save({ padding: 4096 });
+    const size = file.getFileBuffer().length;
+    const end = locatePadding(file.getFileBuffer(), format)?.end;
+
+    file.tag().setTitle("A longer title that uses some of the padding");
+    file.save({ padding: "preserve" });
+    assertEquals(file.getFileBuffer().length, size);
+    assertEquals(locatePadding(file.getFileBuffer(), format)?.end, end);
+    assertEquals(
+      file.tag().title,
+      "A longer title that uses some of the padding",
+    );
+
+    // Tags that no longer fit fall back to TagLib's padding
+    file.tag().setComment("x".repeat(10_000));
+    assertEquals(file.save({ padding: "preserve" }), true);
+    assertEquals(file.getFileBuffer().length > size, true);
+
+    file.dispose();
+  }
+});
+
+Deno.test("Padding: rejects invalid sizes before saving", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  file.tag().setTitle("Unsaved");
+  assertThrows(() => file.save({ padding: -1 }), MetadataError);
+  assertThrows(() => file.save({ padding: 0x1000000 }), MetadataError);
+
+  file.dispose();
+});
+
+Deno.test("Padding: partially loaded files accept zero padding", async () => {
+  const taglib = await TagLib.initialize();
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = `${dir}/song.flac`;
+    await Deno.copyFile(TEST_FILES.flac, path);
+
+    for (const padding of [4096, 0]) {
+      const file = await taglib.open(path, {
+        partial: true,
+        maxHeaderSize: 16 * 1024,
+        maxFooterSize: 1024,
+      });
+      file.tag().setTitle(`Padding ${padding}`);
+      await file.saveToFile(undefined, { padding });
+      file.dispose();
+
+      const saved = await Deno.readFile(path);
+      assertEquals(locatePadding(saved, "FLAC")?.padding, padding);
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -134,6 +134,50 @@ Deno.test("Partial Loading", async (t) => {
     },
   );
 
+  await t.step(
+    "should keep ID3v2 frames edited on a partially loaded file",
+    async () => {
+      const dir = await Deno.makeTempDir();
+      try {
+        const filePath = join(dir, "song.mp3");
+        await Deno.copyFile(
+          join(TEST_FILES_DIR, "mp3/kiss-snippet.mp3"),
+          filePath,
+        );
+
+        const file = await taglib.open(filePath, {
+          partial: true,
+          maxHeaderSize: 16 * 1024,
+          maxFooterSize: 1024,
+        });
+        file.id3v2().addFrame({
+          kind: "userText",
+          id: "TXXX",
+          description: "Partial",
+          text: ["kept"],
+        });
+        file.setRating(0.8);
+        file.setPlayCount(3);
+        await file.saveToFile();
+        file.dispose();
+
+        const saved = await taglib.open(filePath);
+        const userText = saved.id3v2().getFrames("TXXX").find((frame) =>
+          frame.kind === "userText" && frame.description === "Partial"
+        );
+        assertEquals(
+          userText?.kind === "userText" ? userText.text : undefined,
+          ["kept"],
+        );
+        assertEquals(Math.round(saved.getRating()! * 10), 8);
+        assertEquals(saved.getPlayCount(), 3);
+        saved.dispose();
+      } finally {
+        await Deno.remove(dir, { recursive: true });
+      }
+    },
+  );
+
   await t.step(
     "should throw error when calling save() on partially loaded file",
     async () => {
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Tests for the unified rating and play count API
+ */
+
+import {
+  assertAlmostEquals,
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { MetadataError } from "../src/errors.ts";
+import { decodePlayCounter, encodePlayCounter } from "../src/rating.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+Deno.test("Rating: PCNT counter encoding", () => {
+  assertEquals(Array.from(encodePlayCounter(258)), [0, 0, 1, 2]);
+  assertEquals(encodePlayCounter(2 ** 40).length, 6);
+  assertEquals(decodePlayCounter(encodePlayCounter(2 ** 40 + 7)), 2 ** 40 + 7);
+});
+
+Deno.test("Rating: ID3v2 POPM per owner and PCNT", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  assertEquals(file.getRating(), undefined);
+  assertEquals(file.getPlayCount(), undefined);
+
+  file.setRating(0.8, { owner: "alice@example.com" });
+  file.setRating(0.2, { owner: "bob@example.com" });
+  file.setPlayCount(42);
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertAlmostEquals(reopened.getRating()!, 0.8, 0.01);
+  assertAlmostEquals(
+    reopened.getRating({ owner: "bob@example.com" })!,
+    0.2,
+    0.01,
+  );
+  assertEquals(reopened.getRating({ owner: "carol@example.com" }), undefined);
+  assertEquals(reopened.getPlayCount(), 42);
+
+  const popm = reopened.id3v2().getFrames("POPM");
+  assertEquals(popm.length, 2);
+
+  reopened.setRating(null, { owner: "alice@example.com" });
+  assertEquals(reopened.getRating({ owner: "alice@example.com" }), undefined);
+  reopened.setPlayCount(null);
+  assertEquals(reopened.getPlayCount(), undefined);
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("Rating: Vorbis FMPS_RATING and legacy RATING", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  file.setRating(0.6);
+  file.setPlayCount(7);
+  assertEquals(file.getProperty("FMPS_RATING"), "0.6");
+  assertEquals(file.getProperty("RATING"), "60");
+  assertEquals(file.getPlayCount(), 7);
+
+  // Star ratings written by other taggers
+  file.setPropertyValues("FMPS_RATING", []);
+  file.setProperty("RATING", "4");
+  assertEquals(file.getRating(), 0.8);
+
+  assertThrows(() => file.setRating(1.5), MetadataError);
+  assertThrows(() => file.setPlayCount(-1), MetadataError);
+
+  file.dispose();
+});
+
+Deno.test("Rating: MP4 rate item", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.m4a));
+
+  file.setRating(0.4);
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.getMP4Item("rate"), "40");
+  assertEquals(reopened.getRating(), 0.4);
+
+  reopened.setRating(null);
+  assertEquals(reopened.getRating(), undefined);
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("Rating: setExtendedTag keeps zero and removes null", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  file.setExtendedTag({ rating: 0, playCount: 0 });
+  assertEquals(file.getRating(), 0);
+  assertEquals(file.getPlayCount(), 0);
+
+  file.setExtendedTag({ rating: null, playCount: null });
+  assertEquals(file.getRating(), undefined);
+  assertEquals(file.getPlayCount(), undefined);
+
+  file.dispose();
+});
+
+Deno.test("Rating: clearing the play count resets POPM counters", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  const id3 = file.id3v2();
+  id3.removeFrames("POPM");
+  id3.addFrame({
+    kind: "popularimeter",
+    id: "POPM",
+    email: "counter@example.com",
+    rating: 0,
+    counter: 5,
+  });
+  id3.addFrame({
+    kind: "popularimeter",
+    id: "POPM",
+    email: "alice@example.com",
+    rating: 200,
+    counter: 4,
+  });
+  assertEquals(file.getPlayCount(), 5);
+
+  file.setPlayCount(null);
+  assertEquals(file.getPlayCount(), undefined);
+  const popm = file.id3v2().getFrames("POPM");
+  assertEquals(popm.length, 1);
+  assertEquals(popm[0].kind === "popularimeter" && popm[0].counter, 0);
+  assertEquals(
+    file.getRating({ owner: "alice@example.com" }) !== undefined,
+    true,
+  );
+
+  // Vorbis comments fall back to the legacy PLAYCOUNT key
+  const flac = await taglib.open(await readFileData(TEST_FILES.flac));
+  flac.setProperty("PLAYCOUNT", "9");
+  flac.setPlayCount(null);
+  assertEquals(flac.getPlayCount(), undefined);
+
+  file.dispose();
+  flac.dispose();
+});
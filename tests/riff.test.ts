@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Tests for WAV RIFF chunk access (INFO, bext, iXML)
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { MetadataError, UnsupportedFormatError } from "../src/errors.ts";
+import {
+  formatBroadcastExtension,
+  parseBroadcastExtension,
+  readRIFFChunk,
+  writeRIFFChunks,
+} from "../src/riff.ts";
+import type { BroadcastExtension } from "../src/types.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+const BEXT: BroadcastExtension = {
+  description: "Scene 12, take 3",
+  originator: "Field Recorder",
+  originatorReference: "USREC0001",
+  originationDate: "2024-05-01",
+  originationTime: "14:30:00",
+  timeReference: 2 ** 33 + 5,
+  version: 2,
+  umid: new Uint8Array(64).fill(7),
+  loudnessValue: -23,
+  maxTruePeakLevel: -1.5,
+  codingHistory: "A=PCM,F=48000,W=24,M=stereo\r\n",
+};
+
+Deno.test("RIFF: bext encoding round-trip", () => {
+  const data = formatBroadcastExtension(BEXT);
+  assertEquals(data.length, 602 + BEXT.codingHistory!.length);
+  assertEquals(parseBroadcastExtension(data), BEXT);
+
+  assertThrows(
+    () => formatBroadcastExtension({ ...BEXT, originator: "x".repeat(33) }),
+    MetadataError,
+  );
+  assertThrows(
+    () => formatBroadcastExtension({ ...BEXT, originationDate: "May 1" }),
+    MetadataError,
+  );
+  assertThrows(
+    () => formatBroadcastExtension({ ...BEXT, umid: new Uint8Array(10) }),
+    MetadataError,
+  );
+});
+
+Deno.test("RIFF: Chunks are replaced, added and removed", async () => {
+  const wav = await readFileData(TEST_FILES.wav);
+
+  const added = writeRIFFChunks(
+    wav,
+    new Map([["bext", new Uint8Array([1, 2, 3])], ["iXML", null]]),
+  );
+  assertEquals(readRIFFChunk(added, "bext"), new Uint8Array([1, 2, 3]));
+  assertEquals(
+    new DataView(added.buffer).getUint32(4, true),
+    added.length - 8,
+  );
+  // The audio data is untouched
+  assertEquals(readRIFFChunk(added, "data"), readRIFFChunk(wav, "data"));
+
+  const removed = writeRIFFChunks(added, new Map([["bext", null]]));
+  assertEquals(readRIFFChunk(removed, "bext"), undefined);
+  assertEquals(removed.length, wav.length);
+});
+
+Deno.test("RIFF: bext and iXML are written on save", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.wav));
+
+  const riff = file.riff();
+  assertEquals(riff.getBroadcastExtension(), undefined);
+  riff.setBroadcastExtension(BEXT);
+  riff.setIXML("<BWFXML><PROJECT>Demo</PROJECT></BWFXML>");
+  assertEquals(riff.getBroadcastExtension()?.originator, "Field Recorder");
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.riff().getBroadcastExtension(), BEXT);
+  assertEquals(
+    reopened.riff().getIXML(),
+    "<BWFXML><PROJECT>Demo</PROJECT></BWFXML>",
+  );
+  assertEquals(reopened.audioProperties()?.sampleRate, 44100);
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("RIFF: INFO fields and tag placement", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.wav));
+
+  const riff = file.riff();
+  riff.setInfo("IENG", "J. Smith");
+  riff.setTagPlacement("info");
+  file.tag().setTitle("Info Only");
+  file.save();
+
+  const reopened = await taglib.open(file.getFileBuffer());
+  assertEquals(reopened.riff().getInfo().IENG, "J. Smith");
+  assertEquals(reopened.riff().getInfo().INAM, "Info Only");
+  assertEquals(reopened.tagTypes().map((tag) => tag.type), ["RIFFInfo"]);
+
+  assertThrows(() => reopened.riff().setInfo("bad", "x"), MetadataError);
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("RIFF: Other formats are rejected", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  assertThrows(() => file.riff(), UnsupportedFormatError);
+
+  file.dispose();
+});
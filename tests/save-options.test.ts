@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Tests for save options (ID3v2 version and tag types)
+ */
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { applyTags } from "../src/simple.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+function hasID3v1(buffer: Uint8Array): boolean {
+  const footer = buffer.subarray(buffer.length - 128, buffer.length - 125);
+  return new TextDecoder().decode(footer) === "TAG";
+}
+
+Deno.test("Save Options: Write ID3v2.3 without ID3v1", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  file.tag().setTitle("Car Stereo");
+  file.save();
+  assertEquals(file.getFileBuffer()[3], 4);
+  assertEquals(hasID3v1(file.getFileBuffer()), true);
+
+  file.save({ id3v2Version: 3, writeId3v1: false });
+  const buffer = file.getFileBuffer();
+  assertEquals(buffer[3], 3);
+  assertEquals(hasID3v1(buffer), false);
+
+  const reopened = await taglib.open(buffer);
+  assertEquals(reopened.tag().title, "Car Stereo");
+
+  file.dispose();
+  reopened.dispose();
+});
+
+Deno.test("Save Options: applyTags forwards options", async () => {
+  const buffer = await applyTags(TEST_FILES.mp3, { title: "Simple" }, {
+    id3v2Version: 3,
+  });
+  assertEquals(buffer[3], 3);
+
+  // Numeric go-taglib flags are still accepted
+  const legacy = await applyTags(TEST_FILES.mp3, { title: "Simple" }, 0);
+  assertEquals(legacy[3], 4);
+});
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Tests for tag container introspection and stripping
+ */
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+Deno.test("Tag Types: MP3 containers can be stripped selectively", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.mp3));
+
+  file.tag().setTitle("Both Tags");
+  file.save();
+  assertEquals(file.tagTypes(), [
+    { type: "ID3v2", version: 4 },
+    { type: "ID3v1" },
+  ]);
+
+  file.stripTags(["ID3v1", "APE"]);
+  assertEquals(file.tagTypes(), [{ type: "ID3v2", version: 4 }]);
+  assertEquals(file.tag().title, "Both Tags");
+
+  // Pending edits are kept when stripping
+  file.tag().setArtist("Still Here");
+  file.stripTags(["ID3v1"]);
+  assertEquals(file.tag().artist, "Still Here");
+
+  file.stripTags(["ID3v2"]);
+  assertEquals(file.tagTypes(), []);
+
+  file.dispose();
+});
+
+Deno.test("Tag Types: Format-specific containers", async () => {
+  const taglib = await TagLib.initialize();
+
+  const flac = await taglib.open(await readFileData(TEST_FILES.flac));
+  assertEquals(flac.tagTypes(), [{ type: "Xiph" }]);
+  flac.stripTags(["Xiph"]);
+  assertEquals(flac.tag().title, "");
+  flac.dispose();
+
+  const m4a = await taglib.open(await readFileData(TEST_FILES.m4a));
+  assertEquals(m4a.tagTypes(), [{ type: "MP4" }]);
+  m4a.stripTags(["MP4"]);
+  assertEquals(m4a.properties(), {});
+  m4a.dispose();
+});
@@ -328,6 +328,21 @@ Deno.test("Workers API: Module Structure", async () => {
   );
 });
 
+Deno.test("Workers API: Millisecond length and sample count", async () => {
+  const wasmBinary = await Deno.readFile("./build/taglib.wasm");
+  const taglib = await TagLibWorkers.initialize(wasmBinary);
+  const file = taglib.open(await Deno.readFile(TEST_FILES.flac));
+
+  // 115177 samples at 44.1 kHz
+  const props = file.audioProperties();
+  assertExists(props);
+  assertEquals(props.length, 2);
+  assert(Math.abs(props.lengthMs - 2612) <= 1, `lengthMs: ${props.lengthMs}`);
+  assertEquals(props.totalSamples, 115177);
+
+  file.dispose();
+});
+
 // =============================================================================
 // Performance Tests
 // =============================================================================
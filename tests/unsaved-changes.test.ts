@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Tests for dirty tracking, changes() and revert()
+ */
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TagLib } from "../src/taglib.ts";
+import { readFileData } from "../src/utils/file.ts";
+import { TEST_FILES } from "./test-utils.ts";
+
+Deno.test("Unsaved changes: tags and properties", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+  const title = file.tag().title;
+
+  assertEquals(file.hasUnsavedChanges(), false);
+  assertEquals(file.changes(), { tags: {}, properties: {} });
+
+  file.tag().setTitle("Edited");
+  file.setPropertyValues("ARTISTS", ["A", "B"]);
+
+  assertEquals(file.hasUnsavedChanges(), true);
+  const changes = file.changes();
+  assertEquals(changes.tags, { title: { before: title, after: "Edited" } });
+  assertEquals(changes.properties.TITLE, {
+    before: title ? [title] : [],
+    after: ["Edited"],
+  });
+  assertEquals(changes.properties.ARTISTS, { before: [], after: ["A", "B"] });
+  assertEquals(changes.pictures, undefined);
+
+  file.save();
+  assertEquals(file.hasUnsavedChanges(), false);
+  assertEquals(file.changes(), { tags: {}, properties: {} });
+  assertEquals(file.tag().title, "Edited");
+
+  file.dispose();
+});
+
+Deno.test("Unsaved changes: pictures", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+
+  file.addPicture({
+    mimeType: "image/png",
+    data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+    type: 3,
+    description: "Front",
+  });
+
+  const { pictures } = file.changes();
+  assertEquals(pictures?.before.length, 0);
+  assertEquals(pictures?.after.length, 1);
+  assertEquals(file.hasUnsavedChanges(), true);
+
+  file.dispose();
+});
+
+Deno.test("Unsaved changes: revert", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.flac));
+  const original = file.tag().title;
+
+  file.tag().setTitle("Discarded");
+  file.setProperty("MOOD", "Calm");
+  file.revert();
+
+  assertEquals(file.tag().title, original);
+  assertEquals(file.getProperty("MOOD"), undefined);
+  assertEquals(file.hasUnsavedChanges(), false);
+
+  // Reverting after a save returns to the saved state
+  file.tag().setTitle("Kept");
+  file.save();
+  file.tag().setTitle("Discarded");
+  file.revert();
+  assertEquals(file.tag().title, "Kept");
+
+  file.dispose();
+});
+
+Deno.test("Unsaved changes: WAV tag placement", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.wav));
+
+  // The default placement is not a change
+  file.riff().setTagPlacement("both");
+  assertEquals(file.hasUnsavedChanges(), false);
+
+  file.riff().setTagPlacement("info");
+  assertEquals(file.hasUnsavedChanges(), true);
+  assertEquals(file.changes().other, ["tagPlacement"]);
+  file.save();
+  assertEquals(file.hasUnsavedChanges(), false);
+  assertEquals(file.changes().other, undefined);
+
+  // revert() discards edits but keeps the placement for later saves
+  file.riff().setTagPlacement("id3v2");
+  file.revert();
+  assertEquals(file.hasUnsavedChanges(), false);
+  assertEquals(file.riff().getTagPlacement(), "id3v2");
+
+  file.dispose();
+});
+
+Deno.test("Unsaved changes: pending edits and frames", async () => {
+  const taglib = await TagLib.initialize();
+  const file = await taglib.open(await readFileData(TEST_FILES.wav));
+
+  file.riff().setIXML("<BWFXML/>");
+  // PRIV frames have no property mapping
+  file.id3v2().addFrame({
+    kind: "private",
+    id: "PRIV",
+    owner: "com.example",
+    data: new Uint8Array([1, 2, 3]),
+  });
+  assertEquals(file.hasUnsavedChanges(), true);
+  assertEquals(file.changes().other, ["frames", "riffChunks"]);
+
+  file.revert();
+  assertEquals(file.changes().other, undefined);
+
+  file.dispose();
+});